@@ -58,7 +58,7 @@ async function authenticatedRequest() {
       {
         prompt: 'What is 5+5?',
         maxTurns: 1,
-        mcpConfigJson: { mcpServers: {} },
+        mcpConfig: { mcpServers: {} },
         allowedTools: [],
         permissionMode: 'acceptEdits'
       },
@@ -39,7 +39,7 @@ curl -X POST "${SERVICE_URL}/run" \
   -d '{
     "prompt": "What is 3+3?",
     "maxTurns": 1,
-    "mcpConfigJson": {"mcpServers": {}},
+    "mcpConfig": {"mcpServers": {}},
     "allowedTools": [],
     "permissionMode": "acceptEdits"
   }' \
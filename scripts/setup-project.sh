@@ -143,7 +143,7 @@ if [ -n "$GCS_LOGS_BUCKET" ]; then
 
     # Set lifecycle policy
     # - Delete logs after 30 days (sessions/)
-    # - Delete encrypted payloads after 1 day (tasks/)
+    # - Delete encrypted payloads after 2 days (tasks/)
     echo "Setting lifecycle policy..."
     if [ -f "${DIR}/../gcs-lifecycle.json" ]; then
       gcloud storage buckets update "gs://${GCS_LOGS_BUCKET}" \
@@ -379,7 +379,7 @@ test_playwright() {
     -d "{
       \"prompt\": \"Using the Playwright MCP, navigate to https://example.com in headless mode with --no-sandbox, get the page title, and tell me what it is.\",
       ${ANTHROPIC_AUTH},
-      \"mcpConfigJson\": {
+      \"mcpConfig\": {
         \"mcpServers\": {
           \"playwright\": {
             \"command\": \"npx\",
@@ -545,7 +545,7 @@ curl -N -X POST http://localhost:8080/run \
     "prompt": "Review the latest PRs",
     "anthropicApiKey": "sk-ant-your-key-here",
     "maxTurns": 5,
-    "mcpConfigJson": {
+    "mcpConfig": {
       "mcpServers": {
         "github": {
           "type": "stdio",
@@ -568,7 +568,7 @@ curl -N -X POST http://localhost:8080/run \
     "anthropicApiKey": "sk-ant-your-key-here",
     "systemPrompt": "You are a QA engineer",
     "maxTurns": 8,
-    "mcpConfigJson": {
+    "mcpConfig": {
       "mcpServers": {
         "github": {
           "type": "stdio",
@@ -1,34 +1,41 @@
 import { Request, Response } from "express";
 import crypto from "crypto";
+import { ClaudeSessionStore } from "../services/claude-session.service.js";
 import { GCSLoggerService } from "../services/gcs.service.js";
-import { EncryptionService } from "../services/encryption.service.js";
-import { JobTriggerService } from "../services/job-trigger.service.js";
-import { TaskRegistry } from "../services/task-registry.service.js";
-import { AsyncRunRequest, AsyncRunResponse } from "../types/async-task.types.js";
+import { AsyncTaskService } from "../services/async-task.service.js";
+import { validateTaskRequest } from "../services/request-validation.js";
+import { TaskQueue } from "../services/task-queue.service.js";
+import { IdempotencyService, IdempotencyRecord } from "../services/idempotency.service.js";
+import { QuotaReservation, QuotaService } from "../services/quota.service.js";
+import { AsyncRunRequest } from "../types/async-task.types.js";
 import { logger } from "../../utils/logger.js";
 
 /**
  * Async Claude Controller
- * Handles async task creation and Cloud Run Job execution
+ * Handles async task creation - tasks are queued and started as Cloud Run Jobs by the TaskQueue
  */
 export class AsyncClaudeController {
   private gcsLogger: GCSLoggerService;
-  private encryptionService: EncryptionService;
-  private jobTrigger: JobTriggerService;
-  private registry: TaskRegistry;
+  private tasks: AsyncTaskService;
+  private idempotency: IdempotencyService;
+  private quotas?: QuotaService;
 
   constructor() {
     this.gcsLogger = new GCSLoggerService();
-    this.encryptionService = new EncryptionService();
-    this.jobTrigger = new JobTriggerService();
-    this.registry = TaskRegistry.getInstance();
+    this.tasks = new AsyncTaskService(this.gcsLogger);
+    this.idempotency = new IdempotencyService(this.gcsLogger);
+    this.quotas = QuotaService.fromEnv(this.gcsLogger);
   }
 
   /**
    * POST /run-async
-   * Create and execute an async Claude Code task via Cloud Run Job
+   * Create an async Claude Code task and queue it for execution via Cloud Run Job
    *
-   * Returns immediately with task ID while execution continues in separate job container
+   * Returns immediately with task ID; the queue dispatcher starts the job in a separate
+   * container once fewer than MAX_CONCURRENT_TASKS tasks are running
+   *
+   * Safe to retry: with an Idempotency-Key header, repeated requests return the original
+   * response instead of creating another task, and an existing taskId is never overwritten.
    */
   async runAsync(req: Request<{}, {}, AsyncRunRequest>, res: Response): Promise<void> {
     logger.debug("POST /run-async - Request received");
@@ -47,7 +54,8 @@ export class AsyncClaudeController {
       gitBranch = "main",
       environmentSecrets = {},
       sshKey,
-      metadata
+      metadata,
+      priority = TaskQueue.DEFAULT_PRIORITY
     } = req.body || {};
 
     logger.debug("Request body:", {
@@ -63,54 +71,21 @@ export class AsyncClaudeController {
       hasEnvironmentSecrets: Object.keys(environmentSecrets).length > 0,
       hasSshKey: !!sshKey,
       hasMetadata: !!metadata,
+      priority,
       hasAnthropicApiKey: !!anthropicApiKey,
       hasAnthropicOAuthToken: !!anthropicOAuthToken
     });
 
-    // Validate required fields
-    if (!prompt) {
-      logger.error("Missing prompt in request");
-      res.status(400).json({ error: "prompt is required" });
-      return;
-    }
-
-    if (!callbackUrl) {
-      logger.error("Missing callbackUrl in request");
-      res.status(400).json({ error: "callbackUrl is required for async tasks" });
-      return;
-    }
-
-    if (!anthropicApiKey && !anthropicOAuthToken) {
-      logger.error("Missing authentication - need either anthropicApiKey or anthropicOAuthToken");
-      res.status(400).json({
-        error: "Either anthropicApiKey or anthropicOAuthToken is required"
-      });
-      return;
-    }
-
-    // Validate callback URL format
-    try {
-      const url = new URL(callbackUrl);
-      if (!['http:', 'https:'].includes(url.protocol)) {
-        logger.error(`Invalid callback URL protocol: ${url.protocol}`);
-        res.status(400).json({ error: "callbackUrl must use http or https protocol" });
-        return;
-      }
-    } catch (error) {
-      logger.error("Invalid callback URL:", error);
-      res.status(400).json({ error: "callbackUrl is not a valid URL" });
+    // Validate the request up front, before anything is stored
+    const invalid = validateTaskRequest(req.body, 'async');
+    if (invalid) {
+      res.status(400).json(invalid);
       return;
     }
 
-    // Generate or validate task ID
+    // Use the provided task ID (format checked by the schema) or generate one
     let taskId: string;
     if (requestedTaskId) {
-      // Validate provided task ID (must be URL-safe)
-      if (!/^[a-zA-Z0-9_-]+$/.test(requestedTaskId)) {
-        logger.error(`Invalid task ID format: ${requestedTaskId}`);
-        res.status(400).json({ error: "taskId must be URL-safe (alphanumeric, underscore, hyphen only)" });
-        return;
-      }
       taskId = requestedTaskId;
       logger.debug(`Using provided task ID: ${taskId}`);
     } else {
@@ -119,8 +94,6 @@ export class AsyncClaudeController {
       logger.debug(`Generated task ID: ${taskId}`);
     }
 
-    const createdAt = new Date().toISOString();
-
     // Check for GCS configuration
     if (!process.env.GCS_LOGS_BUCKET) {
       logger.error("GCS_LOGS_BUCKET environment variable not configured");
@@ -128,56 +101,98 @@ export class AsyncClaudeController {
       return;
     }
 
+    // The task being continued must have finished with a saved session the caller may use
+    if (req.body.resumeFromTaskId) {
+      try {
+        const rejection = await new ClaudeSessionStore(this.gcsLogger).checkResumable(req.body.resumeFromTaskId, req.caller);
+        if (rejection) {
+          res.status(rejection.status).json(rejection.body);
+          return;
+        }
+      } catch (error: any) {
+        logger.error(`Error checking resumeFromTaskId ${req.body.resumeFromTaskId}:`, error.message);
+        res.status(500).json({ error: 'Internal server error', message: error.message });
+        return;
+      }
+    }
+
+    const headerKey = req.header("Idempotency-Key");
+    if (headerKey !== undefined) {
+      const keyError = IdempotencyService.validateKey(headerKey);
+      if (keyError) {
+        logger.error(`Invalid Idempotency-Key: ${keyError}`);
+        res.status(400).json({ error: keyError });
+        return;
+      }
+    }
+
+    // Keys are scoped to the caller, so one caller can't replay another's response
+    const idempotencyKey = headerKey !== undefined && req.caller ? `${req.caller.id}\n${headerKey}` : headerKey;
+
+    let keyClaimed = false;
+    let reservation: QuotaReservation | undefined;
+
     try {
-      // 1. Encrypt the entire payload (contains secrets)
-      logger.info(`[TASK ${taskId}] Encrypting payload with Cloud KMS`);
-      const encryptedPayload = await this.encryptionService.encryptPayload(req.body);
-      logger.debug(`[TASK ${taskId}] Payload encrypted (${encryptedPayload.length} bytes)`);
-
-      // 2. Store encrypted payload in GCS
-      const payloadPath = await this.gcsLogger.storeEncryptedPayload(
-        taskId,
-        encryptedPayload
-      );
-      logger.info(`[TASK ${taskId}] Encrypted payload stored at: ${payloadPath}`);
-
-      // 3. Save non-sensitive metadata
-      await this.gcsLogger.saveMetadata(taskId, {
-        taskId,
-        status: 'pending',
-        callbackUrl,
-        createdAt,
-        encryptedPayloadPath: payloadPath,
-        metadata: metadata || {}
-      });
-      logger.debug(`[TASK ${taskId}] Metadata saved`);
+      // 1. Claim the idempotency key - retries of a request get its original response
+      if (idempotencyKey !== undefined) {
+        const requestHash = IdempotencyService.hashRequest(req.body);
+        const claim = await this.idempotency.claim(idempotencyKey, requestHash, taskId);
+        if (!claim.claimed) {
+          this.respondToDuplicate(claim.record, requestHash, res);
+          return;
+        }
+        keyClaimed = true;
+      }
 
-      // 4. Trigger Cloud Run Job (only pass task ID and path)
-      logger.info(`[TASK ${taskId}] Triggering Cloud Run Job`);
-      const executionName = await this.jobTrigger.triggerJobExecution(
-        taskId,
-        payloadPath
-      );
-      logger.info(`[TASK ${taskId}] Job execution triggered: ${executionName}`);
+      // 2. Check the tenant's quotas (concurrent and daily tasks) before anything is created
+      if (this.quotas) {
+        const tenant = this.quotas.getTenant(req.caller?.id, metadata);
+        const decision = await this.quotas.reserve(tenant, taskId);
+        if (!decision.allowed) {
+          await this.rollbackCreation(taskId, keyClaimed ? idempotencyKey : undefined);
+          keyClaimed = false;
+          res.setHeader("Retry-After", String(decision.retryAfterSeconds));
+          res.status(429).json({
+            error: decision.reason,
+            tenant: decision.tenant,
+            limit: decision.limit,
+            retryAfterSeconds: decision.retryAfterSeconds
+          });
+          return;
+        }
+        reservation = decision.reservation;
+      }
 
-      // 5. Register task in registry for cancellation support
-      try {
-        this.registry.register(taskId, executionName, 'async');
-        logger.debug(`[TASK ${taskId}] Task registered in registry`);
-      } catch (error: any) {
-        logger.error(`[TASK ${taskId}] Failed to register task:`, error.message);
-        // Continue anyway - registration is for cancellation only
+      // 3. Store the task (metadata, encrypted payload) and queue it - an existing task is never overwritten
+      const response = await this.tasks.createTask(taskId, req.body, {
+        createdBy: req.caller?.id,
+        tenant: this.quotas?.getTenant(req.caller?.id, metadata),
+        quotaSlot: reservation?.slotPath
+      });
+
+      if (!response) {
+        const existing = await this.gcsLogger.readMetadata(taskId);
+        logger.warn(`[TASK ${taskId}] Task already exists (status: ${existing?.status}) - not creating it again`);
+        await this.rollbackCreation(taskId, keyClaimed ? idempotencyKey : undefined, reservation);
+        keyClaimed = false;
+        reservation = undefined;
+        res.status(409).json({
+          error: `Task ${taskId} already exists`,
+          taskId,
+          status: existing?.status
+        });
+        return;
       }
+      reservation = undefined; // Queued tasks hold their slot - it is released when the task ends
 
-      // 6. Return immediately to client
-      const logsPath = this.gcsLogger.getLogsPath(taskId);
-      const response: AsyncRunResponse = {
-        taskId,
-        status: 'pending',
-        logsPath,
-        createdAt,
-        executionName // Optional: for tracking job execution
-      };
+      // Duplicates of this request get the same response
+      if (keyClaimed) {
+        try {
+          await this.idempotency.complete(idempotencyKey!, response);
+        } catch (error: any) {
+          logger.warn(`[TASK ${taskId}] Failed to store response for Idempotency-Key:`, error.message);
+        }
+      }
 
       logger.info(`[TASK ${taskId}] Task created, returning 202 Accepted`);
       res.status(202).json(response);
@@ -185,10 +200,61 @@ export class AsyncClaudeController {
     } catch (error: any) {
       logger.error(`[TASK ${taskId}] Error creating async task:`, error.message, error.stack);
 
+      // The task wasn't queued - undo the task creation so the request can be retried
+      await this.rollbackCreation(taskId, keyClaimed ? idempotencyKey : undefined, reservation);
+
       // If headers not sent yet, send error response
       if (!res.headersSent) {
         res.status(500).json({ error: error.message });
       }
     }
   }
+
+  /**
+   * Answer a request whose Idempotency-Key was already used
+   */
+  private respondToDuplicate(record: IdempotencyRecord, requestHash: string, res: Response): void {
+    if (record.requestHash !== requestHash) {
+      logger.error(`Idempotency-Key reused with a different request (task ${record.taskId})`);
+      res.status(422).json({
+        error: "Idempotency-Key was already used for a different request",
+        taskId: record.taskId
+      });
+      return;
+    }
+
+    if (!record.response) {
+      logger.warn(`[TASK ${record.taskId}] Duplicate request while the original is still being processed`);
+      res.status(409).json({
+        error: "A request with this Idempotency-Key is still being processed",
+        taskId: record.taskId
+      });
+      return;
+    }
+
+    logger.info(`[TASK ${record.taskId}] Duplicate request (Idempotency-Key) - returning original response`);
+    res.setHeader("Idempotent-Replayed", "true");
+    res.status(202).json(record.response);
+  }
+
+  /**
+   * Release what a failed task creation claimed (best effort) - the task itself is removed by AsyncTaskService
+   */
+  private async rollbackCreation(
+    taskId: string,
+    idempotencyKey?: string,
+    reservation?: QuotaReservation
+  ): Promise<void> {
+    if (reservation) {
+      await this.quotas?.cancel(reservation);
+    }
+
+    try {
+      if (idempotencyKey !== undefined) {
+        await this.idempotency.release(idempotencyKey, taskId);
+      }
+    } catch (error: any) {
+      logger.warn(`[TASK ${taskId}] Failed to roll back task creation:`, error.message);
+    }
+  }
 }
@@ -1,5 +1,10 @@
 import { Request, Response } from "express";
 import { TaskRegistry } from "../services/task-registry.service.js";
+import { canManageTask } from "../services/auth.service.js";
+import { GCSLoggerService } from "../services/gcs.service.js";
+import { QuotaService } from "../services/quota.service.js";
+import { TaskQueue } from "../services/task-queue.service.js";
+import { AsyncTaskMetadata, AsyncTaskStatus, CancelTaskResponse } from "../types/async-task.types.js";
 import { logger } from "../../utils/logger.js";
 
 /**
@@ -8,18 +13,28 @@ import { logger } from "../../utils/logger.js";
  */
 export class CancelController {
   private registry: TaskRegistry;
+  private queue: TaskQueue;
+  private gcsLogger: GCSLoggerService;
+  private quotas?: QuotaService;
 
   constructor() {
     this.registry = TaskRegistry.getInstance();
+    this.queue = TaskQueue.getInstance();
+    this.gcsLogger = new GCSLoggerService();
+    this.quotas = QuotaService.fromEnv(this.gcsLogger);
   }
 
   /**
    * POST /cancel/:taskId
-   * Cancel a running async task
+   * Cancel a running or queued async task
+   * With service-level authentication, only the caller that created the task or an admin may cancel it.
    *
    * Returns:
-   * - 200: Task cancelled successfully
+   * - 200: Task cancelled (queued tasks, or the job execution was stopped)
+   * - 202: Cancellation requested - the worker stops the task shortly (status: cancelling)
    * - 404: Task not found (not running or doesn't exist)
+   * - 403: Caller is not allowed to cancel the task
+   * - 409: Task already finished (with its final status), or queued task is being started right now (retry shortly)
    * - 400: Invalid task ID
    * - 500: Internal error
    */
@@ -47,9 +62,23 @@ export class CancelController {
       logger.info(`Cancellation requested for task: ${taskId}`);
 
       // Check if task exists in registry
-      const taskInfo = this.registry.getTask(taskId);
+      const taskInfo = await this.registry.getTask(taskId);
 
       if (!taskInfo) {
+        const queued = await this.queue.getEntry(taskId);
+        if (queued) {
+          await this.cancelQueuedTask(req, res, taskId, queued.createdBy);
+          return;
+        }
+
+        // Finished tasks get their final status instead of a 404
+        const metadata: AsyncTaskMetadata | null = await this.gcsLogger.readMetadata(taskId);
+        if (metadata && ['completed', 'failed', 'cancelled'].includes(metadata.status)
+          && canManageTask(req.caller, metadata.createdBy)) {
+          this.sendFinished(res, taskId, metadata.status);
+          return;
+        }
+
         logger.warn(`Task not found or already completed: ${taskId}`);
         res.status(404).json({
           error: 'Task not found',
@@ -59,34 +88,57 @@ export class CancelController {
         return;
       }
 
-      // Check if already cancelling
-      if (taskInfo.cancelling) {
-        logger.info(`Task already being cancelled: ${taskId}`);
-        res.status(200).json({
-          message: 'Task is already being cancelled',
-          taskId,
-          status: 'cancelling'
+      if (!canManageTask(req.caller, taskInfo.createdBy)) {
+        logger.warn(`Cancel of task ${taskId} by ${req.caller?.id} denied (created by ${taskInfo.createdBy || 'unknown'})`);
+        res.status(403).json({
+          error: 'Forbidden',
+          message: 'Only the caller that created the task or an admin can cancel it',
+          taskId
         });
         return;
       }
 
-      // Cancel the task
-      const cancelled = await this.registry.cancelTask(taskId);
+      // Cancel the task - the worker is asked to stop, the request doesn't wait for it
+      const outcome = await this.registry.cancelTask(taskId, req.caller?.id);
 
-      if (cancelled) {
-        logger.info(`Task cancelled successfully: ${taskId}`);
-        res.status(200).json({
-          message: 'Task cancelled successfully',
-          taskId,
-          status: 'cancelled'
-        });
-      } else {
-        logger.error(`Failed to cancel task: ${taskId}`);
-        res.status(500).json({
-          error: 'Failed to cancel task',
-          message: 'Task cancellation initiated but encountered an error',
-          taskId
-        });
+      switch (outcome.result) {
+        case 'cancelling': {
+          const response: CancelTaskResponse = {
+            message: outcome.alreadyCancelling ? 'Task is already being cancelled' : 'Cancellation requested',
+            taskId,
+            status: 'cancelling'
+          };
+          res.status(202).json(response);
+          break;
+        }
+        case 'cancelled': {
+          logger.info(`Task cancelled successfully: ${taskId}`);
+          const response: CancelTaskResponse = {
+            message: 'Task cancelled successfully',
+            taskId,
+            status: 'cancelled'
+          };
+          res.status(200).json(response);
+          break;
+        }
+        case 'finished':
+          this.sendFinished(res, taskId, outcome.status);
+          break;
+        case 'not-found':
+          res.status(404).json({
+            error: 'Task not found',
+            message: `Task ${taskId} is not currently running or has already completed`,
+            taskId
+          });
+          break;
+        case 'failed':
+          logger.error(`Failed to cancel task: ${taskId}`);
+          res.status(500).json({
+            error: 'Failed to cancel task',
+            message: 'The job execution could not be stopped',
+            taskId
+          });
+          break;
       }
     } catch (error: any) {
       logger.error(`Error cancelling task ${taskId}:`, error.message, error.stack);
@@ -98,15 +150,74 @@ export class CancelController {
     }
   }
 
+  /**
+   * 409 for a task that already ended - there is nothing to cancel
+   */
+  private sendFinished(res: Response, taskId: string, status: AsyncTaskStatus): void {
+    logger.info(`Cancel of task ${taskId} refused: already ${status}`);
+    res.status(409).json({
+      error: 'Task already finished',
+      message: `Task ${taskId} already finished with status ${status}`,
+      taskId,
+      status
+    });
+  }
+
+  /**
+   * Cancel a task that is still waiting in the queue (no job execution to stop)
+   */
+  private async cancelQueuedTask(req: Request, res: Response, taskId: string, createdBy: string | undefined): Promise<void> {
+    if (!canManageTask(req.caller, createdBy)) {
+      logger.warn(`Cancel of queued task ${taskId} by ${req.caller?.id} denied (created by ${createdBy || 'unknown'})`);
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'Only the caller that created the task or an admin can cancel it',
+        taskId
+      });
+      return;
+    }
+
+    const result = await this.queue.cancel(taskId, req.caller?.id);
+    if (result !== 'cancelled') {
+      logger.warn(`Queued task ${taskId} is being started - cannot cancel it yet`);
+      res.status(409).json({
+        error: 'Task is being started',
+        message: 'The task is leaving the queue; retry the cancellation in a few seconds',
+        taskId
+      });
+      return;
+    }
+
+    logger.info(`Queued task cancelled: ${taskId}`);
+    const response: CancelTaskResponse = {
+      message: 'Task cancelled successfully',
+      taskId,
+      status: 'cancelled'
+    };
+    res.status(200).json(response);
+  }
+
   /**
    * GET /tasks/status
-   * Get status of all active tasks (for debugging/monitoring)
+   * Get status of all active tasks (for debugging/monitoring), with queue length and quota usage per tenant
    */
   async getTasksStatus(req: Request, res: Response): Promise<void> {
     try {
-      const stats = this.registry.getStats();
+      const stats = await this.registry.getStats();
+      stats.max = this.queue.maxRunningTasks;
+      stats.queued = await this.queue.getLength();
       logger.debug('Task status requested', stats);
 
+      if (this.quotas) {
+        const runningByTenant: Record<string, number> = {};
+        for (const task of stats.tasks) {
+          if (task.tenant) {
+            runningByTenant[task.tenant] = (runningByTenant[task.tenant] || 0) + 1;
+          }
+        }
+        stats.quotas = await this.quotas.getUsage(runningByTenant);
+      }
+
       res.status(200).json(stats);
     } catch (error: any) {
       logger.error('Error getting task status:', error.message);
@@ -1,11 +1,15 @@
 import { Request, Response } from "express";
 import crypto from "crypto";
-import { GCSLoggerService } from "../services/gcs.service.js";
+import { ClaudeSessionStore } from "../services/claude-session.service.js";
+import { GCSLoggerService, LogPosition } from "../services/gcs.service.js";
 import { EncryptionService } from "../services/encryption.service.js";
 import { JobTriggerService } from "../services/job-trigger.service.js";
 import { TaskRegistry } from "../services/task-registry.service.js";
+import { QuotaReservation, QuotaService } from "../services/quota.service.js";
+import { validateTaskRequest } from "../services/request-validation.js";
 import { RunRequest } from "../types/request.types.js";
 import { logger } from "../../utils/logger.js";
+import { writeEvent, writeLogEvent } from "../../utils/sse.js";
 
 /**
  * Claude Controller
@@ -22,12 +26,14 @@ export class ClaudeController {
   private encryptionService: EncryptionService;
   private jobTrigger: JobTriggerService;
   private registry: TaskRegistry;
+  private quotas?: QuotaService;
 
   constructor() {
     this.gcsService = new GCSLoggerService();
     this.encryptionService = new EncryptionService();
     this.jobTrigger = new JobTriggerService();
     this.registry = TaskRegistry.getInstance();
+    this.quotas = QuotaService.fromEnv(this.gcsService);
   }
 
   async runClaude(req: Request<{}, {}, RunRequest>, res: Response): Promise<void> {
@@ -36,27 +42,21 @@ export class ClaudeController {
     const {
       prompt,
       anthropicApiKey,
-      anthropicOAuthToken
+      anthropicOAuthToken,
+      onDisconnect = "cancel"
     } = req.body || {};
 
     logger.debug("Request body:", {
       prompt: prompt?.substring(0, 50) + "...",
       hasAnthropicApiKey: !!anthropicApiKey,
-      hasAnthropicOAuthToken: !!anthropicOAuthToken
+      hasAnthropicOAuthToken: !!anthropicOAuthToken,
+      onDisconnect
     });
 
-    // Validate required fields
-    if (!prompt) {
-      logger.error("Missing prompt in request");
-      res.status(400).json({ error: "prompt is required" });
-      return;
-    }
-
-    if (!anthropicApiKey && !anthropicOAuthToken) {
-      logger.error("Missing authentication - need either anthropicApiKey or anthropicOAuthToken");
-      res.status(400).json({
-        error: "Either anthropicApiKey or anthropicOAuthToken is required"
-      });
+    // Validate the request up front, before a job is started
+    const invalid = validateTaskRequest(req.body, 'sync');
+    if (invalid) {
+      res.status(400).json(invalid);
       return;
     }
 
@@ -67,6 +67,21 @@ export class ClaudeController {
       return;
     }
 
+    // The task being continued must have finished with a saved session the caller may use
+    if (req.body.resumeFromTaskId) {
+      try {
+        const rejection = await new ClaudeSessionStore(this.gcsService).checkResumable(req.body.resumeFromTaskId, req.caller);
+        if (rejection) {
+          res.status(rejection.status).json(rejection.body);
+          return;
+        }
+      } catch (error: any) {
+        logger.error(`Error checking resumeFromTaskId ${req.body.resumeFromTaskId}:`, error.message);
+        res.status(500).json({ error: 'Internal server error', message: error.message });
+        return;
+      }
+    }
+
     // Generate task ID for sync request
     const taskId = `sync-${crypto.randomUUID()}`;
     const logPrefix = `[TASK ${taskId}]`;
@@ -75,23 +90,52 @@ export class ClaudeController {
 
     let executionName: string | undefined;
     let registered = false;
+    let detached = false;
+    let reservation: QuotaReservation | undefined;
+    const tenant = this.quotas?.getTenant(req.caller?.id, req.body.metadata);
 
     try {
+      // Check the tenant's quotas (concurrent and daily tasks) while an error can still be a plain response
+      if (this.quotas && tenant) {
+        const decision = await this.quotas.reserve(tenant, taskId);
+        if (!decision.allowed) {
+          res.setHeader("Retry-After", String(decision.retryAfterSeconds));
+          res.status(429).json({
+            error: decision.reason,
+            tenant: decision.tenant,
+            limit: decision.limit,
+            retryAfterSeconds: decision.retryAfterSeconds
+          });
+          return;
+        }
+        reservation = decision.reservation;
+      }
+
       // Set up SSE headers
       logger.debug(`${logPrefix} Setting up SSE headers`);
       res.setHeader("Content-Type", "text/event-stream");
       res.setHeader("Cache-Control", "no-cache");
       res.setHeader("Connection", "keep-alive");
 
+      // First event: task ID so the client can re-attach (GET /tasks/:taskId/stream) or fetch results later
+      writeEvent(res, "task", { taskId, onDisconnect });
+
       // Handle client disconnect
       let clientDisconnected = false;
       req.on("close", () => {
         logger.debug(`${logPrefix} Client disconnected`);
         clientDisconnected = true;
 
+        if (onDisconnect === "continue") {
+          // Detached mode - job keeps running and unregisters itself when it finishes
+          logger.info(`${logPrefix} Client disconnected, job continues (onDisconnect: continue)`);
+          detached = true;
+          return;
+        }
+
         // Try to cancel the job if client disconnects
         if (registered && executionName) {
-          this.registry.cancelTask(taskId)
+          this.registry.cancelTask(taskId, req.caller?.id)
             .catch(error => logger.error(`${logPrefix} Failed to cancel on disconnect:`, error.message));
         }
       });
@@ -110,18 +154,30 @@ export class ClaudeController {
         taskId,
         status: 'pending',
         createdAt: new Date().toISOString(),
+        createdBy: req.caller?.id,
+        resumedFromTaskId: req.body.resumeFromTaskId,
         encryptedPayloadPath: payloadPath,
-        executionMode: 'sync' // Mark as sync execution
+        executionMode: 'sync', // Mark as sync execution
+        metadata: req.body.metadata || {}
       });
 
       // 4. Trigger Cloud Run Job
       logger.info(`${logPrefix} Triggering Cloud Run Job`);
       executionName = await this.jobTrigger.triggerJobExecution(taskId, payloadPath);
       logger.info(`${logPrefix} Job execution triggered: ${executionName}`);
+      const quotaSlot = reservation?.slotPath;
+      reservation = undefined; // The job runs - the slot is released when it unregisters
+
+      // Record execution name so GET /tasks/:taskId can report it
+      try {
+        await this.gcsService.updateMetadata(taskId, { executionName });
+      } catch (error: any) {
+        logger.warn(`${logPrefix} Failed to record execution name in metadata:`, error.message);
+      }
 
       // 5. Register task in registry for cancellation support
       try {
-        this.registry.register(taskId, executionName, 'sync');
+        await this.registry.register(taskId, executionName, 'sync', { createdBy: req.caller?.id, tenant, quotaSlot });
         registered = true;
         logger.debug(`${logPrefix} Task registered in registry`);
       } catch (error: any) {
@@ -132,7 +188,7 @@ export class ClaudeController {
       // 6. Poll GCS logs and stream to SSE
       logger.info(`${logPrefix} Starting log polling and SSE streaming`);
 
-      const onData = (line: string) => {
+      const onData = (line: string, position: LogPosition) => {
         if (clientDisconnected) return;
 
         // Log Claude output
@@ -140,18 +196,8 @@ export class ClaudeController {
           logger.info(`${logPrefix} [CLAUDE OUTPUT]`, line);
         }
 
-        try {
-          // Try to parse as JSON
-          const message = JSON.parse(line);
-          res.write(`data: ${JSON.stringify(message)}\n\n`);
-          (res as any).flush?.();
-        } catch (e) {
-          // If not JSON, send as text
-          if (line.trim()) {
-            res.write(`data: ${JSON.stringify({ type: "text", content: line })}\n\n`);
-            (res as any).flush?.();
-          }
-        }
+        // Event ID lets the client resume via GET /tasks/:taskId/stream
+        writeLogEvent(res, line, position);
       };
 
       // 7. Wait for job completion (with 55 minute timeout)
@@ -159,18 +205,28 @@ export class ClaudeController {
         taskId,
         onData,
         55 * 60 * 1000, // 55 minutes (Cloud Run max is 60)
-        2000 // Poll every 2 seconds
+        2000, // Poll every 2 seconds
+        { shouldStop: () => detached }
       );
 
+      if (detached) {
+        logger.info(`${logPrefix} Stopped following detached job`);
+        return;
+      }
+
       logger.info(`${logPrefix} Job completed with status: ${metadata.status}`);
 
       // Check if cancelled
-      if (registered && this.registry.isCancelling(taskId)) {
+      if (metadata.status === 'cancelled' || (registered && await this.registry.isCancelling(taskId))) {
         logger.info(`${logPrefix} Task was cancelled by user`);
         res.write(`event: cancelled\ndata: ${JSON.stringify({ message: 'Task cancelled by user' })}\n\n`);
       } else if (metadata.status === 'failed') {
         logger.error(`${logPrefix} Task failed: ${metadata.error}`);
-        res.write(`event: error\ndata: ${JSON.stringify({ error: metadata.error || 'Task failed' })}\n\n`);
+        res.write(`event: error\ndata: ${JSON.stringify({
+          error: metadata.error || 'Task failed',
+          errorCode: metadata.errorCode,
+          failurePhase: metadata.failurePhase
+        })}\n\n`);
       }
 
       // End SSE stream
@@ -187,10 +243,19 @@ export class ClaudeController {
         res.end();
       }
     } finally {
-      // Unregister task from registry
-      if (registered) {
-        this.registry.unregister(taskId);
-        logger.debug(`${logPrefix} Task unregistered from registry`);
+      // The job was never started - give back its quota
+      if (reservation) {
+        await this.quotas?.cancel(reservation);
+      }
+
+      // Unregister task from registry - a detached job is still running and unregisters itself
+      if (registered && !detached) {
+        try {
+          await this.registry.unregister(taskId);
+          logger.debug(`${logPrefix} Task unregistered from registry`);
+        } catch (error: any) {
+          logger.error(`${logPrefix} Failed to unregister task:`, error.message);
+        }
       }
 
       logger.info(`${logPrefix} Sync request completed`);
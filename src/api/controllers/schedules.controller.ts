@@ -0,0 +1,178 @@
+import { Request, Response } from "express";
+import { canManageTask } from "../services/auth.service.js";
+import { ScheduleService } from "../services/schedule.service.js";
+import { CreateScheduleRequest, ScheduleListResponse } from "../types/schedule.types.js";
+import { logger } from "../../utils/logger.js";
+
+/**
+ * Schedules Controller
+ * Manages cron schedules that create async tasks from a stored request template
+ */
+export class SchedulesController {
+  private schedules: ScheduleService;
+
+  constructor() {
+    this.schedules = ScheduleService.getInstance();
+  }
+
+  /**
+   * POST /schedules
+   * Create a schedule - its request template is validated like a /run-async request and stored KMS-encrypted
+   *
+   * Returns:
+   * - 201: The schedule (without the request template)
+   * - 400: Invalid request, cron expression or time zone
+   * - 409: A schedule with this scheduleId already exists
+   * - 500: Internal error
+   */
+  async createSchedule(req: Request<{}, {}, CreateScheduleRequest>, res: Response): Promise<void> {
+    logger.debug("POST /schedules - Request received");
+
+    const invalid = ScheduleService.validate(req.body);
+    if (invalid) {
+      res.status(400).json(invalid);
+      return;
+    }
+
+    try {
+      const schedule = await this.schedules.create(req.body, req.caller?.id);
+      if (!schedule) {
+        logger.warn(`Schedule ${req.body.scheduleId} already exists`);
+        res.status(409).json({
+          error: `Schedule ${req.body.scheduleId} already exists`,
+          scheduleId: req.body.scheduleId
+        });
+        return;
+      }
+
+      res.status(201).json(schedule);
+    } catch (error: any) {
+      logger.error('Error creating schedule:', error.message);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error.message
+      });
+    }
+  }
+
+  /**
+   * GET /schedules
+   * List schedules - with service-level authentication, callers other than admins only see their own
+   */
+  async listSchedules(req: Request, res: Response): Promise<void> {
+    try {
+      const schedules = (await this.schedules.list())
+        .filter(schedule => canManageTask(req.caller, schedule.createdBy));
+      const response: ScheduleListResponse = { schedules };
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Error listing schedules:', error.message);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error.message
+      });
+    }
+  }
+
+  /**
+   * GET /schedules/:scheduleId
+   * Get a schedule with its next run time and run history
+   *
+   * Returns:
+   * - 200: The schedule
+   * - 403: Caller is not allowed to see the schedule
+   * - 404: Schedule not found
+   * - 400: Invalid schedule ID
+   * - 500: Internal error
+   */
+  async getSchedule(req: Request, res: Response): Promise<void> {
+    const { scheduleId } = req.params;
+    if (!this.checkScheduleId(scheduleId, res)) {
+      return;
+    }
+
+    try {
+      const schedule = await this.schedules.get(scheduleId);
+      if (!schedule) {
+        res.status(404).json({ error: 'Schedule not found', scheduleId });
+        return;
+      }
+
+      if (!canManageTask(req.caller, schedule.createdBy)) {
+        logger.warn(`Access to schedule ${scheduleId} by ${req.caller?.id} denied (created by ${schedule.createdBy || 'unknown'})`);
+        res.status(403).json({
+          error: 'Forbidden',
+          message: 'Only the caller that created the schedule or an admin can access it',
+          scheduleId
+        });
+        return;
+      }
+
+      res.status(200).json(schedule);
+    } catch (error: any) {
+      logger.error(`Error reading schedule ${scheduleId}:`, error.message);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error.message,
+        scheduleId
+      });
+    }
+  }
+
+  /**
+   * DELETE /schedules/:scheduleId
+   * Delete a schedule - tasks it already created keep running
+   *
+   * Returns:
+   * - 204: Schedule deleted
+   * - 403: Caller is not allowed to delete the schedule
+   * - 404: Schedule not found
+   * - 400: Invalid schedule ID
+   * - 500: Internal error
+   */
+  async deleteSchedule(req: Request, res: Response): Promise<void> {
+    const { scheduleId } = req.params;
+    if (!this.checkScheduleId(scheduleId, res)) {
+      return;
+    }
+
+    try {
+      const schedule = await this.schedules.get(scheduleId);
+      if (!schedule) {
+        res.status(404).json({ error: 'Schedule not found', scheduleId });
+        return;
+      }
+
+      if (!canManageTask(req.caller, schedule.createdBy)) {
+        logger.warn(`Delete of schedule ${scheduleId} by ${req.caller?.id} denied (created by ${schedule.createdBy || 'unknown'})`);
+        res.status(403).json({
+          error: 'Forbidden',
+          message: 'Only the caller that created the schedule or an admin can delete it',
+          scheduleId
+        });
+        return;
+      }
+
+      await this.schedules.delete(scheduleId);
+      res.status(204).end();
+    } catch (error: any) {
+      logger.error(`Error deleting schedule ${scheduleId}:`, error.message);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error.message,
+        scheduleId
+      });
+    }
+  }
+
+  private checkScheduleId(scheduleId: string, res: Response): boolean {
+    if (!scheduleId || !/^[a-zA-Z0-9_-]{1,100}$/.test(scheduleId)) {
+      logger.warn(`Schedule request with invalid scheduleId format: ${scheduleId}`);
+      res.status(400).json({
+        error: 'Invalid scheduleId format. Must be alphanumeric with underscores and hyphens only.'
+      });
+      return false;
+    }
+    return true;
+  }
+}
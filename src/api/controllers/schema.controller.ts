@@ -0,0 +1,25 @@
+import { Request, Response } from "express";
+import { requestSchema } from "../schemas/request.schema.js";
+import { openApiDocument } from "../schemas/openapi.js";
+
+/**
+ * Schema Controller
+ * Publishes the JSON Schema of the /run and /run-async request bodies and the OpenAPI document
+ */
+export class SchemaController {
+  /**
+   * GET /schema
+   * Request body schemas as one JSON Schema document (RunRequest and AsyncRunRequest under $defs)
+   */
+  async getSchema(req: Request, res: Response): Promise<void> {
+    res.status(200).json(requestSchema);
+  }
+
+  /**
+   * GET /openapi.json
+   * OpenAPI 3.1 description of all endpoints, built from the request and response schemas
+   */
+  async getOpenApi(req: Request, res: Response): Promise<void> {
+    res.status(200).json(openApiDocument);
+  }
+}
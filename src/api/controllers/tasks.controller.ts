@@ -0,0 +1,289 @@
+import { Request, Response } from "express";
+import { GCSLoggerService } from "../services/gcs.service.js";
+import { TaskQueryService } from "../services/task-query.service.js";
+import { TaskQueue } from "../services/task-queue.service.js";
+import {
+  AsyncTaskMetadata,
+  AsyncTaskStatus,
+  TaskListQuery,
+  TaskStatusResponse
+} from "../types/async-task.types.js";
+import { logger } from "../../utils/logger.js";
+import { parseEventId, writeEvent, writeLogEvent } from "../../utils/sse.js";
+
+/**
+ * Tasks Controller
+ * Serves task state from GCS metadata so it works for any task, including
+ * finished ones that are no longer in the TaskRegistry
+ */
+export class TasksController {
+  private gcsLogger: GCSLoggerService;
+  private taskQuery: TaskQueryService;
+  private queue: TaskQueue;
+
+  constructor() {
+    this.gcsLogger = new GCSLoggerService();
+    this.taskQuery = new TaskQueryService(this.gcsLogger);
+    this.queue = TaskQueue.getInstance();
+  }
+
+  /**
+   * GET /tasks
+   * List tasks from GCS metadata with filters and cursor-based pagination
+   *
+   * Query parameters:
+   * - status: Comma-separated statuses (e.g. running,failed)
+   * - createdAfter / createdBefore: ISO timestamps
+   * - executionMode: sync | async
+   * - metadata.<key>=<value> (or metadata[<key>]=<value>): user metadata matches
+   * - order: asc | desc (by createdAt, default: desc)
+   * - limit: Page size (default: 50, max: 200)
+   * - cursor: nextCursor from the previous page
+   */
+  async listTasks(req: Request, res: Response): Promise<void> {
+    const { query, error } = this.parseListQuery(req.query);
+
+    if (error) {
+      logger.warn(`Invalid task list query: ${error}`);
+      res.status(400).json({ error });
+      return;
+    }
+
+    try {
+      const response = await this.taskQuery.listTasks(query);
+      res.status(200).json(response);
+    } catch (listError: any) {
+      logger.error('Error listing tasks:', listError.message);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: listError.message
+      });
+    }
+  }
+
+  /**
+   * GET /tasks/:taskId
+   * Get the status and metadata of a task (sync or async), with its queue position while queued
+   *
+   * Returns:
+   * - 200: Task metadata
+   * - 404: No metadata exists for the task
+   * - 400: Invalid task ID
+   * - 500: Internal error
+   */
+  async getTask(req: Request, res: Response): Promise<void> {
+    const { taskId } = req.params;
+
+    if (!taskId || !/^[a-zA-Z0-9_-]+$/.test(taskId)) {
+      logger.warn(`Task status request with invalid taskId format: ${taskId}`);
+      res.status(400).json({
+        error: 'Invalid taskId format. Must be alphanumeric with underscores and hyphens only.'
+      });
+      return;
+    }
+
+    try {
+      const metadata: AsyncTaskMetadata | null = await this.gcsLogger.readMetadata(taskId);
+
+      if (!metadata) {
+        logger.debug(`Task metadata not found: ${taskId}`);
+        res.status(404).json({
+          error: 'Task not found',
+          message: `No metadata found for task ${taskId}`,
+          taskId
+        });
+        return;
+      }
+
+      const chunks = await this.gcsLogger.listLogChunks(taskId);
+
+      const response: TaskStatusResponse = {
+        ...metadata,
+        taskId,
+        logsPath: this.gcsLogger.getLogsPath(taskId),
+        logChunkCount: chunks.length
+      };
+      if (metadata.status === 'queued') {
+        response.queuePosition = await this.queue.getPosition(taskId);
+      }
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error(`Error reading task ${taskId}:`, error.message);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error.message,
+        taskId
+      });
+    }
+  }
+
+  /**
+   * GET /tasks/:taskId/stream
+   * Stream a task's logs via Server-Sent Events (SSE)
+   *
+   * Replays the JSONL log chunks written so far, then follows new chunks until the
+   * task reaches a final state. Every log event carries an ID (`<chunk>:<line>`);
+   * reconnecting clients send it back as `Last-Event-ID` (or the `lastEventId`
+   * query parameter) to resume right after the last line they received.
+   *
+   * Disconnecting from this endpoint never cancels the task.
+   */
+  async streamTask(req: Request, res: Response): Promise<void> {
+    const { taskId } = req.params;
+
+    if (!taskId || !/^[a-zA-Z0-9_-]+$/.test(taskId)) {
+      logger.warn(`Stream request with invalid taskId format: ${taskId}`);
+      res.status(400).json({
+        error: 'Invalid taskId format. Must be alphanumeric with underscores and hyphens only.'
+      });
+      return;
+    }
+
+    const logPrefix = `[TASK ${taskId}]`;
+
+    try {
+      const metadata = await this.gcsLogger.readMetadata(taskId);
+      if (!metadata) {
+        res.status(404).json({
+          error: 'Task not found',
+          message: `No metadata found for task ${taskId}`,
+          taskId
+        });
+        return;
+      }
+
+      const lastEventId = req.header('Last-Event-ID') || (req.query.lastEventId as string | undefined);
+      const resumeAfter = parseEventId(lastEventId);
+      logger.info(`${logPrefix} Streaming logs${resumeAfter ? ` from event ${lastEventId}` : ''}`);
+
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache");
+      res.setHeader("Connection", "keep-alive");
+      res.flushHeaders();
+
+      let clientDisconnected = false;
+      req.on("close", () => {
+        logger.debug(`${logPrefix} Stream client disconnected`);
+        clientDisconnected = true;
+      });
+
+      const finalMetadata = await this.gcsLogger.waitForCompletion(
+        taskId,
+        (line, position) => {
+          if (!clientDisconnected) {
+            writeLogEvent(res, line, position);
+          }
+        },
+        55 * 60 * 1000, // 55 minutes (Cloud Run request max is 60)
+        2000,
+        {
+          resumeAfter,
+          shouldStop: () => clientDisconnected
+        }
+      );
+
+      if (clientDisconnected) {
+        return;
+      }
+
+      if (finalMetadata?.status === 'cancelled') {
+        writeEvent(res, 'cancelled', { message: 'Task cancelled by user' });
+      } else if (finalMetadata?.status === 'failed') {
+        writeEvent(res, 'error', {
+          error: finalMetadata.error || 'Task failed',
+          errorCode: finalMetadata.errorCode,
+          failurePhase: finalMetadata.failurePhase
+        });
+      }
+
+      // Tell EventSource clients not to reconnect
+      writeEvent(res, 'complete', { taskId, status: finalMetadata?.status });
+      res.end();
+    } catch (error: any) {
+      logger.error(`${logPrefix} Error streaming task logs:`, error.message);
+
+      if (!res.headersSent) {
+        res.status(500).json({ error: error.message, taskId });
+      } else {
+        writeEvent(res, 'error', { error: error.message });
+        res.end();
+      }
+    }
+  }
+
+  /**
+   * Parse and validate GET /tasks query parameters
+   */
+  private parseListQuery(raw: Request['query']): { query: TaskListQuery; error?: string } {
+    const query: TaskListQuery = {};
+    const validStatuses: AsyncTaskStatus[] = ['queued', 'pending', 'running', 'completed', 'failed', 'cancelled'];
+
+    if (raw.status !== undefined) {
+      const statuses = String(raw.status).split(',').map(s => s.trim()).filter(Boolean);
+      const invalid = statuses.filter(s => !validStatuses.includes(s as AsyncTaskStatus));
+      if (invalid.length > 0) {
+        return { query, error: `Invalid status: ${invalid.join(', ')}. Must be one of: ${validStatuses.join(', ')}` };
+      }
+      query.status = statuses as AsyncTaskStatus[];
+    }
+
+    for (const key of ['createdAfter', 'createdBefore'] as const) {
+      if (raw[key] !== undefined) {
+        const value = String(raw[key]);
+        if (isNaN(Date.parse(value))) {
+          return { query, error: `${key} must be an ISO timestamp` };
+        }
+        query[key] = value;
+      }
+    }
+
+    if (raw.executionMode !== undefined) {
+      if (raw.executionMode !== 'sync' && raw.executionMode !== 'async') {
+        return { query, error: 'executionMode must be "sync" or "async"' };
+      }
+      query.executionMode = raw.executionMode;
+    }
+
+    if (raw.order !== undefined) {
+      if (raw.order !== 'asc' && raw.order !== 'desc') {
+        return { query, error: 'order must be "asc" or "desc"' };
+      }
+      query.order = raw.order;
+    }
+
+    if (raw.limit !== undefined) {
+      const limit = Number(raw.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > 200) {
+        return { query, error: 'limit must be an integer between 1 and 200' };
+      }
+      query.limit = limit;
+    }
+
+    if (raw.cursor !== undefined) {
+      const cursor = String(raw.cursor);
+      if (!this.taskQuery.isValidCursor(cursor)) {
+        return { query, error: 'Invalid cursor' };
+      }
+      query.cursor = cursor;
+    }
+
+    // Metadata filters: metadata.<key>=<value> or metadata[<key>]=<value>
+    const metadata: Record<string, string> = {};
+    for (const [key, value] of Object.entries(raw)) {
+      if (key.startsWith('metadata.') && key.length > 'metadata.'.length) {
+        metadata[key.substring('metadata.'.length)] = String(value);
+      }
+    }
+    if (raw.metadata && typeof raw.metadata === 'object' && !Array.isArray(raw.metadata)) {
+      for (const [key, value] of Object.entries(raw.metadata)) {
+        metadata[key] = String(value);
+      }
+    }
+    if (Object.keys(metadata).length > 0) {
+      query.metadata = metadata;
+    }
+
+    return { query };
+  }
+}
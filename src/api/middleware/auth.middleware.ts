@@ -0,0 +1,31 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { AuthService } from "../services/auth.service.js";
+import { logger } from "../../utils/logger.js";
+
+/**
+ * Authenticate every request except the given public paths and set req.caller
+ * Unauthenticated requests get a 401.
+ */
+export function createAuthMiddleware(authService: AuthService, publicPaths: string[] = []): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (publicPaths.includes(req.path)) {
+      next();
+      return;
+    }
+
+    try {
+      const result = await authService.authenticate(req);
+      if ("error" in result) {
+        res.status(401).json({ error: result.error });
+        return;
+      }
+
+      req.caller = result.caller;
+      logger.debug(`${req.method} ${req.path} by ${result.caller.id} (${result.caller.method})`);
+      next();
+    } catch (error: any) {
+      logger.error("Authentication error:", error.message);
+      res.status(500).json({ error: "Authentication failed", message: error.message });
+    }
+  };
+}
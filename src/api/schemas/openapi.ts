@@ -0,0 +1,328 @@
+import { JsonSchema } from "../../utils/json-schema.js";
+import { requestSchema } from "./request.schema.js";
+import { responseSchemas } from "./response.schema.js";
+
+/**
+ * OpenAPI 3.1 document for the service, served at GET /openapi.json
+ * Component schemas are the request schemas (request.schema.ts) and response schemas
+ * (response.schema.ts), which are both type-checked against the TypeScript types.
+ */
+
+type OpenApiObject = Record<string, unknown>;
+
+const json = (schema: JsonSchema): OpenApiObject => ({
+  "application/json": { schema }
+});
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/$defs/${name}` });
+
+const jsonResponse = (description: string, name: string): OpenApiObject => ({
+  description,
+  content: json(ref(name))
+});
+
+const errorResponse = (description: string): OpenApiObject => jsonResponse(description, "ErrorResponse");
+
+const eventStream = (description: string): OpenApiObject => ({
+  description,
+  content: {
+    "text/event-stream": {
+      schema: { type: "string" },
+      description:
+        "Unnamed events carry Claude's stream-json messages (and proxy/network events) with an " +
+        "`id` of the form `<chunk>:<line>`. Named events: `task` ({ taskId, onDisconnect }, /run only), " +
+        "`cancelled` ({ message }), `error` ({ error }), `complete` ({ taskId, status }, /tasks/{taskId}/stream only)."
+    }
+  }
+});
+
+const quotaExceeded: OpenApiObject = {
+  ...errorResponse("The tenant's concurrent or daily task quota is exhausted (TASK_QUOTAS)"),
+  headers: { "Retry-After": { description: "Seconds until a retry may succeed", schema: { type: "integer" } } }
+};
+
+const taskIdParameter: OpenApiObject = {
+  name: "taskId",
+  in: "path",
+  required: true,
+  schema: { type: "string", pattern: "^[a-zA-Z0-9_-]+$" }
+};
+
+const scheduleIdParameter: OpenApiObject = {
+  name: "scheduleId",
+  in: "path",
+  required: true,
+  schema: { type: "string", pattern: "^[a-zA-Z0-9_-]{1,100}$" }
+};
+
+const paths: OpenApiObject = {
+  "/run": {
+    post: {
+      operationId: "run",
+      summary: "Run Claude Code and stream its output",
+      requestBody: { required: true, content: json(ref("RunRequest")) },
+      responses: {
+        "200": eventStream("Claude's output as Server-Sent Events"),
+        "400": errorResponse("Invalid request, or resumeFromTaskId has no saved Claude session"),
+        "403": errorResponse("Only the caller that created the resumeFromTaskId task or an admin can resume it"),
+        "404": errorResponse("resumeFromTaskId task not found"),
+        "409": errorResponse("resumeFromTaskId task hasn't finished yet"),
+        "429": quotaExceeded,
+        "500": errorResponse("Internal error (before streaming started)")
+      }
+    }
+  },
+  "/run-async": {
+    post: {
+      operationId: "runAsync",
+      summary: "Queue a background task; the result is POSTed to callbackUrl",
+      parameters: [
+        {
+          name: "Idempotency-Key",
+          in: "header",
+          required: false,
+          description: "Retries with the same key return the original response instead of creating another task",
+          schema: { type: "string", minLength: 1, maxLength: 255 }
+        }
+      ],
+      requestBody: { required: true, content: json(ref("AsyncRunRequest")) },
+      callbacks: {
+        result: {
+          "{$request.body#/callbackUrl}": {
+            post: {
+              summary: "Task result webhook",
+              parameters: [
+                {
+                  name: "X-Webhook-Signature",
+                  in: "header",
+                  required: true,
+                  description: "sha256=<hex HMAC-SHA256 of `<timestamp>.<body>` keyed with CLOUDRUN_CALLBACK_SECRET>",
+                  schema: { type: "string" }
+                },
+                {
+                  name: "X-Webhook-Timestamp",
+                  in: "header",
+                  required: true,
+                  description: "Unix time (seconds) the webhook was signed",
+                  schema: { type: "string" }
+                }
+              ],
+              requestBody: { required: true, content: json(ref("AsyncTaskResult")) },
+              responses: { "200": { description: "Webhook received" } }
+            }
+          }
+        }
+      },
+      responses: {
+        "202": jsonResponse("Task queued (or the original response, with Idempotent-Replayed: true)", "AsyncRunResponse"),
+        "400": errorResponse("Invalid request, or resumeFromTaskId has no saved Claude session"),
+        "403": errorResponse("Only the caller that created the resumeFromTaskId task or an admin can resume it"),
+        "404": errorResponse("resumeFromTaskId task not found"),
+        "409": errorResponse("taskId already exists, the Idempotency-Key's request is still in progress, or resumeFromTaskId hasn't finished yet"),
+        "422": errorResponse("Idempotency-Key was already used for a different request"),
+        "429": quotaExceeded,
+        "500": errorResponse("Internal error")
+      }
+    }
+  },
+  "/cancel/{taskId}": {
+    post: {
+      operationId: "cancelTask",
+      summary: "Cancel a running or queued task",
+      parameters: [taskIdParameter],
+      responses: {
+        "200": jsonResponse("Task cancelled (queued task, or its job execution was stopped)", "CancelTaskResponse"),
+        "202": jsonResponse("Cancellation requested (or already in progress) - the worker stops the task shortly", "CancelTaskResponse"),
+        "400": errorResponse("Invalid task ID"),
+        "403": errorResponse("Only the caller that created the task or an admin can cancel it"),
+        "404": errorResponse("Task is not running or queued"),
+        "409": errorResponse("The task already finished (status: its final status), or the queued task is being started - retry shortly"),
+        "500": errorResponse("Internal error")
+      }
+    }
+  },
+  "/tasks": {
+    get: {
+      operationId: "listTasks",
+      summary: "List tasks",
+      parameters: [
+        { name: "status", in: "query", description: "Comma-separated statuses", schema: { type: "string" } },
+        { name: "createdAfter", in: "query", schema: { type: "string" } },
+        { name: "createdBefore", in: "query", schema: { type: "string" } },
+        { name: "executionMode", in: "query", schema: { type: "string", enum: ["sync", "async"] } },
+        {
+          name: "metadata",
+          in: "query",
+          description: "User metadata matches, as metadata[<key>]=<value>",
+          style: "deepObject",
+          explode: true,
+          schema: { type: "object", additionalProperties: { type: "string" } }
+        },
+        { name: "order", in: "query", schema: { type: "string", enum: ["asc", "desc"], default: "desc" } },
+        { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 200, default: 50 } },
+        { name: "cursor", in: "query", schema: { type: "string" } }
+      ],
+      responses: {
+        "200": jsonResponse("Matching tasks, newest first by default", "TaskListResponse"),
+        "400": errorResponse("Invalid query"),
+        "500": errorResponse("Internal error")
+      }
+    }
+  },
+  "/tasks/status": {
+    get: {
+      operationId: "getActiveTasks",
+      summary: "Tasks currently running on the service, and the queue length",
+      responses: {
+        "200": jsonResponse("Active tasks", "ActiveTasksResponse"),
+        "500": errorResponse("Internal error")
+      }
+    }
+  },
+  "/tasks/{taskId}": {
+    get: {
+      operationId: "getTask",
+      summary: "Get a task's status and metadata",
+      parameters: [taskIdParameter],
+      responses: {
+        "200": jsonResponse("Task status", "TaskStatusResponse"),
+        "400": errorResponse("Invalid task ID"),
+        "404": errorResponse("Task not found"),
+        "500": errorResponse("Internal error")
+      }
+    }
+  },
+  "/tasks/{taskId}/stream": {
+    get: {
+      operationId: "streamTask",
+      summary: "Stream a task's logs (replay, then follow until it finishes)",
+      parameters: [
+        taskIdParameter,
+        { name: "Last-Event-ID", in: "header", description: "Resume after this event", schema: { type: "string" } },
+        { name: "lastEventId", in: "query", description: "Same as Last-Event-ID", schema: { type: "string" } }
+      ],
+      responses: {
+        "200": eventStream("The task's log as Server-Sent Events"),
+        "400": errorResponse("Invalid task ID"),
+        "404": errorResponse("Task not found"),
+        "500": errorResponse("Internal error")
+      }
+    }
+  },
+  "/schedules": {
+    post: {
+      operationId: "createSchedule",
+      summary: "Create a cron schedule that queues a task from a request template",
+      requestBody: { required: true, content: json(ref("CreateScheduleRequest")) },
+      responses: {
+        "201": jsonResponse("Schedule created", "Schedule"),
+        "400": errorResponse("Invalid request, cron expression or time zone"),
+        "409": errorResponse("scheduleId already exists"),
+        "500": errorResponse("Internal error")
+      }
+    },
+    get: {
+      operationId: "listSchedules",
+      summary: "List schedules (callers other than admins only see their own)",
+      responses: {
+        "200": jsonResponse("Schedules, oldest first", "ScheduleListResponse"),
+        "500": errorResponse("Internal error")
+      }
+    }
+  },
+  "/schedules/{scheduleId}": {
+    get: {
+      operationId: "getSchedule",
+      summary: "Get a schedule with its next run and run history",
+      parameters: [scheduleIdParameter],
+      responses: {
+        "200": jsonResponse("Schedule", "Schedule"),
+        "400": errorResponse("Invalid schedule ID"),
+        "403": errorResponse("Only the caller that created the schedule or an admin can access it"),
+        "404": errorResponse("Schedule not found"),
+        "500": errorResponse("Internal error")
+      }
+    },
+    delete: {
+      operationId: "deleteSchedule",
+      summary: "Delete a schedule (tasks it created are not affected)",
+      parameters: [scheduleIdParameter],
+      responses: {
+        "204": { description: "Schedule deleted" },
+        "400": errorResponse("Invalid schedule ID"),
+        "403": errorResponse("Only the caller that created the schedule or an admin can delete it"),
+        "404": errorResponse("Schedule not found"),
+        "500": errorResponse("Internal error")
+      }
+    }
+  },
+  "/schema": {
+    get: {
+      operationId: "getSchema",
+      summary: "JSON Schema of the request bodies",
+      responses: { "200": { description: "JSON Schema document", content: json({ type: "object" }) } }
+    }
+  },
+  "/openapi.json": {
+    get: {
+      operationId: "getOpenApi",
+      summary: "This document",
+      responses: { "200": { description: "OpenAPI document", content: json({ type: "object" }) } }
+    }
+  },
+  "/health": {
+    get: {
+      operationId: "healthCheck",
+      summary: "Health check (?verbose=true for details)",
+      security: [],
+      parameters: [{ name: "verbose", in: "query", schema: { type: "boolean" } }],
+      responses: { "200": { description: "Healthy" } }
+    }
+  }
+};
+
+// With service-level authentication (AUTH_METHODS), every endpoint except health checks may return 401
+for (const operations of Object.values(paths) as Record<string, OpenApiObject>[]) {
+  for (const operation of Object.values(operations)) {
+    if (!Array.isArray(operation.security) || operation.security.length > 0) {
+      operation.responses = { ...(operation.responses as OpenApiObject), "401": errorResponse("Not authenticated") };
+    }
+  }
+}
+
+/**
+ * Point `#/$defs/...` references at `#/components/schemas/...`
+ */
+function toComponentRefs<T>(value: T): T {
+  return JSON.parse(
+    JSON.stringify(value).replace(/"#\/\$defs\//g, '"#/components/schemas/')
+  );
+}
+
+export const openApiDocument: OpenApiObject = toComponentRefs({
+  openapi: "3.1.0",
+  info: {
+    title: "Claude Code on Cloud Run",
+    version: "1.0.0",
+    description:
+      "Runs Claude Code in Cloud Run Jobs. Requests need a Google identity token as a Bearer token " +
+      "(Cloud Run IAM or AUTH_METHODS=google), an API key or an HMAC signature, depending on the deployment."
+  },
+  security: [{ bearerAuth: [] }, { apiKeyAuth: [] }, { hmacAuth: [] }],
+  paths,
+  components: {
+    schemas: { ...requestSchema.$defs, ...responseSchemas },
+    securitySchemes: {
+      bearerAuth: { type: "http", scheme: "bearer", description: "Google identity token" },
+      apiKeyAuth: { type: "apiKey", in: "header", name: "X-API-Key" },
+      hmacAuth: {
+        type: "apiKey",
+        in: "header",
+        name: "X-Auth-Signature",
+        description:
+          "sha256=<hex HMAC-SHA256 of `<timestamp>.<METHOD>.<path with query>.<raw body>`>, " +
+          "sent with X-Auth-Key-Id and X-Auth-Timestamp (Unix seconds)"
+      }
+    }
+  }
+});
@@ -0,0 +1,281 @@
+import { JsonSchema, SchemaValidationError, validateJsonSchema } from "../../utils/json-schema.js";
+import { RunRequest, TaskStage } from "../types/request.types.js";
+import { AsyncRunRequest } from "../types/async-task.types.js";
+import { CreateScheduleRequest } from "../types/schedule.types.js";
+
+/**
+ * Request body schemas for /run, /run-async and /schedules
+ * Served at GET /schema and checked by the controllers before a job is started.
+ * The property maps are type-checked against RunRequest / AsyncRunRequest / CreateScheduleRequest, so adding
+ * a field to the types without describing it here fails the build.
+ */
+
+const stringArray: JsonSchema = { type: "array", items: { type: "string", minLength: 1 } };
+const stringMap: JsonSchema = { type: "object", additionalProperties: { type: "string" } };
+
+const runRequestProperties = {
+  prompt: { type: "string", minLength: 1, description: "The prompt for Claude (required unless stages are given)" },
+  stages: {
+    type: "array",
+    items: { $ref: "#/$defs/TaskStage" },
+    minItems: 1,
+    description: "Prompts run one after another in the same workspace, instead of prompt (at most 10)"
+  },
+  anthropicApiKey: { type: "string", minLength: 1, description: "Anthropic API key" },
+  anthropicOAuthToken: { type: "string", minLength: 1, description: "Claude OAuth token (alternative to anthropicApiKey)" },
+  systemPrompt: { type: "string", description: "Replaces the default system prompt" },
+  appendSystemPrompt: { type: "string", description: "Appended to the default system prompt" },
+  allowedTools: { ...stringArray, description: "Tools Claude may use" },
+  disallowedTools: { ...stringArray, description: "Tools Claude may not use" },
+  permissionMode: { type: "string", enum: ["default", "acceptEdits", "bypassPermissions", "plan"] },
+  maxTurns: { type: "integer", minimum: 1, default: 6 },
+  model: { type: "string", minLength: 1 },
+  fallbackModel: { type: "string", minLength: 1 },
+  cwdRelative: { type: "string", description: "Working directory relative to the workspace root" },
+  useNamedPipe: { type: "boolean", default: true },
+  gitRepo: { type: "string", minLength: 1, description: "Repository to clone (HTTPS or SSH URL)" },
+  gitBranch: { type: "string", minLength: 1, default: "main" },
+  gitDepth: { type: "integer", minimum: 1, description: "Shallow clone depth" },
+  timeoutMinutes: { type: "number", exclusiveMinimum: 0 },
+  preExecutionCommands: { ...stringArray, description: "Shell commands run before Claude starts" },
+  postExecutionActions: { $ref: "#/$defs/PostExecutionActions" },
+  environmentSecrets: { ...stringMap, description: "Environment variables for Claude and its tools" },
+  sshKey: { type: "string", minLength: 1, description: "Private SSH key for git operations" },
+  metadata: { type: "object", description: "Free-form metadata returned with the task" },
+  mcpConfig: { $ref: "#/$defs/McpConfig" },
+  slashCommands: { type: "object", additionalProperties: { $ref: "#/$defs/SlashCommand" } },
+  subagents: { type: "object", additionalProperties: { $ref: "#/$defs/Subagent" } },
+  onDisconnect: { type: "string", enum: ["cancel", "continue"], default: "cancel", description: "/run only" },
+  budget: { $ref: "#/$defs/TaskBudget" },
+  recordApiCalls: { type: "boolean", default: false },
+  provider: { type: "string", enum: ["anthropic", "vertex", "bedrock"], default: "anthropic" },
+  vertex: { $ref: "#/$defs/VertexConfig" },
+  bedrock: { $ref: "#/$defs/BedrockConfig" },
+  upstreamUrl: { type: "string", minLength: 1, description: "Must be listed in ALLOWED_UPSTREAM_URLS" },
+  networkPolicy: { $ref: "#/$defs/NetworkPolicy" },
+  retryPolicy: { $ref: "#/$defs/RetryPolicy" },
+  resumeFromTaskId: {
+    type: "string",
+    pattern: "^[a-zA-Z0-9_-]+$",
+    description: "Finished task whose Claude session (conversation) this task continues"
+  }
+} satisfies Record<keyof RunRequest, JsonSchema>;
+
+const asyncRunRequestProperties = {
+  ...runRequestProperties,
+  callbackUrl: { type: "string", minLength: 1, description: "Receives the result webhook (http or https)" },
+  taskId: { type: "string", pattern: "^[a-zA-Z0-9_-]+$", description: "Custom task ID (default: UUID)" },
+  priority: { type: "integer", minimum: 0, maximum: 100, default: 50, description: "Queue priority - higher starts first" }
+} satisfies Record<keyof AsyncRunRequest, JsonSchema>;
+
+const createScheduleRequestProperties = {
+  scheduleId: { type: "string", pattern: "^[a-zA-Z0-9_-]{1,100}$", description: "Custom schedule ID (default: UUID)" },
+  cron: { type: "string", minLength: 1, description: "Cron expression (minute hour day-of-month month day-of-week) or @daily, @hourly, ..." },
+  timezone: { type: "string", minLength: 1, default: "UTC", description: "IANA time zone of the cron expression" },
+  description: { type: "string" },
+  request: { $ref: "#/$defs/AsyncRunRequest", description: "/run-async request created on every run (without taskId)" }
+} satisfies Record<keyof CreateScheduleRequest, JsonSchema>;
+
+export const requestSchema: JsonSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "Claude Code on Cloud Run request bodies",
+  $defs: {
+    RunRequest: {
+      type: "object",
+      description: "POST /run",
+      properties: runRequestProperties,
+      anyOf: [{ required: ["prompt"] }, { required: ["stages"] }],
+      additionalProperties: false
+    },
+    AsyncRunRequest: {
+      type: "object",
+      description: "POST /run-async",
+      properties: asyncRunRequestProperties,
+      required: ["callbackUrl"],
+      anyOf: [{ required: ["prompt"] }, { required: ["stages"] }],
+      additionalProperties: false
+    },
+    CreateScheduleRequest: {
+      type: "object",
+      description: "POST /schedules",
+      properties: createScheduleRequestProperties,
+      required: ["cron", "request"],
+      additionalProperties: false
+    },
+    PostExecutionActions: {
+      type: "object",
+      properties: {
+        git: {
+          type: "object",
+          properties: {
+            commit: { type: "boolean" },
+            commitMessage: { type: "string" },
+            push: { type: "boolean" },
+            branch: { type: "string", minLength: 1 },
+            files: stringArray,
+            conflictStrategy: { type: "string", enum: ["auto", "fail"], default: "auto" }
+          },
+          required: ["commit", "push"],
+          additionalProperties: false
+        },
+        uploadFiles: {
+          type: "object",
+          properties: {
+            globPatterns: { ...stringArray, minItems: 1 },
+            gcsPrefix: {
+              type: "string",
+              pattern: "^[a-zA-Z0-9_-][a-zA-Z0-9._-]*(/[a-zA-Z0-9_-][a-zA-Z0-9._-]*)*$",
+              description: "Subfolder of the task's files/{taskId}/ folder (no leading /, . or .. segments)"
+            }
+          },
+          required: ["globPatterns"],
+          additionalProperties: false
+        }
+      },
+      additionalProperties: false
+    },
+    McpConfig: {
+      type: "object",
+      description: "Contents of .mcp.json",
+      properties: {
+        mcpServers: { type: "object", additionalProperties: { $ref: "#/$defs/McpServer" } }
+      },
+      required: ["mcpServers"]
+    },
+    McpServer: {
+      type: "object",
+      description: "A local (command) or remote (url) MCP server",
+      properties: {
+        type: { type: "string", enum: ["stdio", "sse", "http"] },
+        command: { type: "string", minLength: 1 },
+        args: { type: "array", items: { type: "string" } },
+        env: stringMap,
+        url: { type: "string", minLength: 1 },
+        headers: stringMap
+      },
+      anyOf: [{ required: ["command"] }, { required: ["url"] }]
+    },
+    SlashCommand: {
+      type: "object",
+      properties: {
+        frontmatter: { type: "object" },
+        content: { type: "string" }
+      },
+      required: ["content"],
+      additionalProperties: false
+    },
+    Subagent: {
+      type: "object",
+      properties: {
+        frontmatter: { type: "object" },
+        content: { type: "string" }
+      },
+      required: ["frontmatter", "content"],
+      additionalProperties: false
+    },
+    TaskBudget: {
+      type: "object",
+      properties: {
+        maxTokens: { type: "integer", exclusiveMinimum: 0 },
+        maxCostUsd: { type: "number", exclusiveMinimum: 0 }
+      },
+      minProperties: 1,
+      additionalProperties: false
+    },
+    VertexConfig: {
+      type: "object",
+      properties: {
+        projectId: { type: "string", minLength: 1 },
+        region: { type: "string", minLength: 1 }
+      },
+      required: ["projectId", "region"],
+      additionalProperties: false
+    },
+    BedrockConfig: {
+      type: "object",
+      properties: {
+        region: { type: "string", minLength: 1 },
+        apiKey: { type: "string", minLength: 1 },
+        accessKeyId: { type: "string", minLength: 1 },
+        secretAccessKey: { type: "string", minLength: 1 },
+        sessionToken: { type: "string", minLength: 1 }
+      },
+      required: ["region"],
+      additionalProperties: false
+    },
+    NetworkPolicy: {
+      type: "object",
+      properties: {
+        allowedHosts: stringArray
+      },
+      required: ["allowedHosts"],
+      additionalProperties: false
+    },
+    TaskStage: {
+      type: "object",
+      properties: {
+        name: { type: "string", minLength: 1 },
+        prompt: { type: "string", minLength: 1, description: "{{previousResult}} is replaced with the previous stage's final result" },
+        model: { type: "string", minLength: 1 },
+        allowedTools: stringArray,
+        disallowedTools: stringArray,
+        maxTurns: { type: "integer", minimum: 1 },
+        systemPrompt: { type: "string" },
+        appendSystemPrompt: { type: "string" }
+      } satisfies Record<keyof TaskStage, JsonSchema>,
+      required: ["prompt"],
+      additionalProperties: false
+    },
+    RetryPolicy: {
+      type: "object",
+      description: "/run-async only",
+      properties: {
+        maxAttempts: { type: "integer", minimum: 1, maximum: 10, description: "Including the first attempt" },
+        backoffSeconds: { type: "number", minimum: 0, default: 30, description: "Delay before the second attempt" },
+        backoffMultiplier: { type: "number", minimum: 1, default: 2 },
+        maxBackoffSeconds: { type: "number", minimum: 0, default: 900 },
+        retryOn: {
+          type: "array",
+          items: { type: "string", enum: ["git", "overloaded", "infrastructure"] },
+          minItems: 1,
+          description: "Failure classes to retry (default: all)"
+        }
+      },
+      required: ["maxAttempts"],
+      additionalProperties: false
+    }
+  }
+};
+
+/**
+ * Validate a /run request body
+ * @returns Validation errors (empty if valid)
+ */
+export function validateRunRequest(body: unknown): SchemaValidationError[] {
+  return validateJsonSchema({ $ref: "#/$defs/RunRequest" }, body, requestSchema);
+}
+
+/**
+ * Validate a /run-async request body
+ * @returns Validation errors (empty if valid)
+ */
+export function validateAsyncRunRequest(body: unknown): SchemaValidationError[] {
+  return validateJsonSchema({ $ref: "#/$defs/AsyncRunRequest" }, body, requestSchema);
+}
+
+/**
+ * Validate a /schedules request body
+ * @returns Validation errors (empty if valid)
+ */
+export function validateCreateScheduleRequest(body: unknown): SchemaValidationError[] {
+  return validateJsonSchema({ $ref: "#/$defs/CreateScheduleRequest" }, body, requestSchema);
+}
+
+/**
+ * Summarize validation errors for the `error` field of a 400 response
+ */
+export function formatValidationErrors(errors: SchemaValidationError[]): string {
+  const [first] = errors;
+  const summary = first.path ? `${first.path} ${first.message}` : `Request body ${first.message}`;
+  return errors.length > 1 ? `Invalid request: ${summary} (and ${errors.length - 1} more)` : `Invalid request: ${summary}`;
+}
@@ -0,0 +1,325 @@
+import { JsonSchema } from "../../utils/json-schema.js";
+import {
+  ActiveTasksResponse,
+  AsyncRunResponse,
+  AsyncTaskMetadata,
+  AsyncTaskResult,
+  CancelTaskResponse,
+  ErrorResponse,
+  TaskListResponse,
+  StageSummary,
+  TaskAttempt,
+  TaskStatusResponse,
+  TaskUsage
+} from "../types/async-task.types.js";
+import { Schedule, ScheduleListResponse, ScheduleRun } from "../types/schedule.types.js";
+
+/**
+ * Response body schemas (published in the OpenAPI document)
+ * Like the request schemas, the property maps are type-checked against the response types.
+ * Responses may gain fields, so unknown properties are allowed.
+ */
+
+const timestamp: JsonSchema = { type: "string", description: "ISO 8601 timestamp" };
+const taskStatus: JsonSchema = { $ref: "#/$defs/AsyncTaskStatus" };
+const taskErrorCode: JsonSchema = { $ref: "#/$defs/TaskErrorCode" };
+const failurePhase: JsonSchema = { type: "string", enum: ["setup", "execution", "post-execution"] };
+
+const taskUsageProperties = {
+  model: { type: "string" },
+  inputTokens: { type: "integer" },
+  outputTokens: { type: "integer" },
+  cacheCreationInputTokens: { type: "integer" },
+  cacheReadInputTokens: { type: "integer" },
+  totalCostUsd: { type: "number" },
+  toolCalls: { type: "object", additionalProperties: { type: "integer" }, description: "Tool calls by tool name" }
+} satisfies Record<keyof TaskUsage, JsonSchema>;
+
+const taskSummaryProperties = {
+  durationMs: { type: "integer" },
+  turns: { type: "integer" },
+  errors: { type: "integer" },
+  startedAt: timestamp,
+  completedAt: timestamp,
+  cancelledAt: timestamp,
+  usage: { $ref: "#/$defs/TaskUsage" }
+} satisfies Record<keyof AsyncTaskResult["summary"], JsonSchema>;
+
+const asyncTaskResultProperties = {
+  taskId: { type: "string" },
+  status: { type: "string", enum: ["completed", "failed", "cancelled"] },
+  exitCode: { type: "integer" },
+  logsPath: { type: "string" },
+  summary: {
+    type: "object",
+    properties: taskSummaryProperties,
+    required: ["durationMs", "startedAt", "completedAt"]
+  },
+  error: { type: "string" },
+  errorCode: taskErrorCode,
+  failurePhase,
+  metadata: { type: "object" },
+  uploadedFiles: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        originalPath: { type: "string" },
+        gcsPath: { type: "string" },
+        sizeBytes: { type: "integer" }
+      },
+      required: ["originalPath", "gcsPath", "sizeBytes"]
+    }
+  },
+  gitCommit: {
+    type: "object",
+    properties: {
+      sha: { type: "string" },
+      message: { type: "string" },
+      pushed: { type: "boolean" },
+      branch: { type: "string" },
+      recovery: {
+        type: "object",
+        properties: {
+          method: { type: "string", enum: ["rebase", "force-with-lease"] },
+          remoteSha: { type: "string" },
+          conflictFiles: { type: "array", items: { type: "string" } }
+        },
+        required: ["method", "remoteSha"]
+      }
+    },
+    required: ["sha", "message", "pushed"]
+  },
+  attempts: { type: "array", items: { $ref: "#/$defs/TaskAttempt" }, description: "Tasks with a retryPolicy" },
+  stages: { type: "array", items: { $ref: "#/$defs/StageSummary" }, description: "Multi-stage tasks" }
+} satisfies Record<keyof AsyncTaskResult, JsonSchema>;
+
+const asyncTaskMetadataProperties = {
+  taskId: { type: "string" },
+  status: taskStatus,
+  callbackUrl: { type: "string" },
+  createdAt: timestamp,
+  createdBy: { type: "string", description: "Caller that created the task" },
+  scheduleId: { type: "string", description: "Schedule that created the task" },
+  startedAt: timestamp,
+  completedAt: timestamp,
+  cancelledAt: timestamp,
+  cancelledBy: { type: "string", description: "Caller that cancelled the task" },
+  error: { type: "string" },
+  errorCode: taskErrorCode,
+  failurePhase,
+  metadata: { type: "object" },
+  executionName: { type: "string" },
+  priority: { type: "integer" },
+  triggerAttempts: { type: "integer" },
+  lastTriggerError: { type: "string" },
+  attempts: { type: "array", items: { $ref: "#/$defs/TaskAttempt" }, description: "Tasks with a retryPolicy" },
+  nextAttemptAt: { ...timestamp, description: "When a retried task is started again" },
+  stages: { type: "array", items: { $ref: "#/$defs/StageSummary" }, description: "Multi-stage tasks" },
+  claudeSessionId: { type: "string", description: "Saved Claude session - continue it with resumeFromTaskId" },
+  resumedFromTaskId: { type: "string", description: "Task whose Claude session this task continued" },
+  executionMode: { type: "string", enum: ["sync", "async"] },
+  encryptedPayloadPath: { type: "string" },
+  usage: { $ref: "#/$defs/TaskUsage" }
+} satisfies Record<keyof AsyncTaskMetadata, JsonSchema>;
+
+const taskStatusResponseProperties = {
+  ...asyncTaskMetadataProperties,
+  logsPath: { type: "string" },
+  logChunkCount: { type: "integer" },
+  queuePosition: { type: "integer", minimum: 1 }
+} satisfies Record<keyof TaskStatusResponse, JsonSchema>;
+
+const scheduleProperties = {
+  scheduleId: { type: "string" },
+  cron: { type: "string" },
+  timezone: { type: "string" },
+  description: { type: "string" },
+  createdAt: timestamp,
+  createdBy: { type: "string", description: "Caller that created the schedule" },
+  callbackUrl: { type: "string" },
+  metadata: { type: "object" },
+  nextRunAt: { ...timestamp, description: "Next run (missed runs are not made up)" },
+  lastRunAt: timestamp,
+  runs: { type: "array", items: { $ref: "#/$defs/ScheduleRun" }, description: "Most recent runs, newest first" }
+} satisfies Record<keyof Schedule, JsonSchema>;
+
+export const responseSchemas: Record<string, JsonSchema> = {
+  AsyncTaskStatus: {
+    type: "string",
+    enum: ["queued", "pending", "running", "completed", "failed", "cancelled"]
+  },
+  TaskErrorCode: {
+    type: "string",
+    enum: [
+      "PAYLOAD_DECRYPT", "SETUP", "GIT_CLONE", "PRE_EXECUTION_COMMAND", "JOB_START", "QUEUE_EXPIRED", "INTERRUPTED",
+      "CLAUDE_TIMEOUT", "CLAUDE_EXIT", "MODEL_API", "BUDGET_EXCEEDED",
+      "GIT_COMMIT", "GIT_PUSH", "GIT_PUSH_CONFLICT", "UPLOAD", "INTERNAL"
+    ]
+  },
+  AsyncRunResponse: {
+    type: "object",
+    properties: {
+      taskId: { type: "string" },
+      status: { type: "string", const: "queued" },
+      logsPath: { type: "string" },
+      createdAt: timestamp
+    } satisfies Record<keyof AsyncRunResponse, JsonSchema>,
+    required: ["taskId", "status", "logsPath", "createdAt"]
+  },
+  TaskUsage: {
+    type: "object",
+    properties: taskUsageProperties,
+    required: ["inputTokens", "outputTokens", "cacheCreationInputTokens", "cacheReadInputTokens", "toolCalls"]
+  },
+  AsyncTaskResult: {
+    type: "object",
+    description: "Webhook payload POSTed to callbackUrl",
+    properties: asyncTaskResultProperties,
+    required: ["taskId", "status", "exitCode", "logsPath", "summary"]
+  },
+  AsyncTaskMetadata: {
+    type: "object",
+    properties: asyncTaskMetadataProperties,
+    required: ["taskId", "status", "createdAt"]
+  },
+  TaskStatusResponse: {
+    type: "object",
+    properties: taskStatusResponseProperties,
+    required: ["taskId", "status", "createdAt", "logsPath", "logChunkCount"]
+  },
+  TaskListResponse: {
+    type: "object",
+    properties: {
+      tasks: { type: "array", items: { $ref: "#/$defs/AsyncTaskMetadata" } },
+      nextCursor: { type: "string" }
+    } satisfies Record<keyof TaskListResponse, JsonSchema>,
+    required: ["tasks"]
+  },
+  CancelTaskResponse: {
+    type: "object",
+    properties: {
+      message: { type: "string" },
+      taskId: { type: "string" },
+      status: { type: "string", enum: ["cancelled", "cancelling"] }
+    } satisfies Record<keyof CancelTaskResponse, JsonSchema>,
+    required: ["message", "taskId", "status"]
+  },
+  ActiveTasksResponse: {
+    type: "object",
+    properties: {
+      active: { type: "integer" },
+      max: { type: "integer" },
+      queued: { type: "integer" },
+      tasks: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            taskId: { type: "string" },
+            type: { type: "string", enum: ["sync", "async"] },
+            executionName: { type: "string" },
+            startedAt: timestamp,
+            cancelling: { type: "boolean" },
+            createdBy: { type: "string" },
+            tenant: { type: "string" }
+          } satisfies Record<keyof ActiveTasksResponse["tasks"][number], JsonSchema>,
+          required: ["taskId", "type", "executionName", "startedAt", "cancelling"]
+        }
+      },
+      quotas: {
+        type: "array",
+        description: "Quota usage per tenant (when TASK_QUOTAS is set)",
+        items: {
+          type: "object",
+          properties: {
+            tenant: { type: "string" },
+            running: { type: "integer" },
+            maxConcurrentTasks: { type: "integer" },
+            dailyTasks: { type: "integer", description: "Tasks created today (UTC)" },
+            maxDailyTasks: { type: "integer" }
+          } satisfies Record<keyof NonNullable<ActiveTasksResponse["quotas"]>[number], JsonSchema>,
+          required: ["tenant", "running"]
+        }
+      }
+    } satisfies Record<keyof ActiveTasksResponse, JsonSchema>,
+    required: ["active", "tasks"]
+  },
+  TaskAttempt: {
+    type: "object",
+    properties: {
+      attempt: { type: "integer", minimum: 1 },
+      executionName: { type: "string" },
+      startedAt: timestamp,
+      endedAt: timestamp,
+      status: { type: "string", enum: ["completed", "failed", "cancelled"] },
+      error: { type: "string" },
+      errorCode: taskErrorCode,
+      failure: { type: "string", enum: ["git", "overloaded", "infrastructure"] }
+    } satisfies Record<keyof TaskAttempt, JsonSchema>,
+    required: ["attempt", "startedAt", "endedAt", "status"]
+  },
+  StageSummary: {
+    type: "object",
+    properties: {
+      stage: { type: "integer", minimum: 1 },
+      name: { type: "string" },
+      status: { type: "string", enum: ["completed", "failed", "cancelled"] },
+      exitCode: { type: "integer" },
+      durationMs: { type: "integer" },
+      turns: { type: "integer" },
+      costUsd: { type: "number" },
+      result: { type: "string", description: "Claude's final result (truncated to 10,000 characters)" },
+      error: { type: "string" }
+    } satisfies Record<keyof StageSummary, JsonSchema>,
+    required: ["stage", "status", "exitCode", "durationMs"]
+  },
+  ScheduleRun: {
+    type: "object",
+    properties: {
+      scheduledFor: timestamp,
+      taskId: { type: "string" },
+      status: { type: "string", enum: ["queued", "skipped", "failed"] },
+      error: { type: "string" }
+    } satisfies Record<keyof ScheduleRun, JsonSchema>,
+    required: ["scheduledFor", "taskId", "status"]
+  },
+  Schedule: {
+    type: "object",
+    properties: scheduleProperties,
+    required: ["scheduleId", "cron", "timezone", "createdAt", "callbackUrl", "runs"]
+  },
+  ScheduleListResponse: {
+    type: "object",
+    properties: {
+      schedules: { type: "array", items: { $ref: "#/$defs/Schedule" } }
+    } satisfies Record<keyof ScheduleListResponse, JsonSchema>,
+    required: ["schedules"]
+  },
+  ErrorResponse: {
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      message: { type: "string" },
+      taskId: { type: "string" },
+      scheduleId: { type: "string" },
+      tenant: { type: "string", description: "429: tenant whose quota is exhausted" },
+      limit: { type: "integer", description: "429: the exceeded limit" },
+      retryAfterSeconds: { type: "integer", description: "429: when to retry (also sent as Retry-After)" },
+      status: { type: "string", enum: ["completed", "failed", "cancelled"], description: "409 from /cancel: final status of the task" },
+      details: {
+        type: "array",
+        description: "Schema validation errors (400 from /run, /run-async and /schedules)",
+        items: {
+          type: "object",
+          properties: {
+            path: { type: "string" },
+            message: { type: "string" }
+          },
+          required: ["path", "message"]
+        }
+      }
+    } satisfies Record<keyof ErrorResponse, JsonSchema>,
+    required: ["error"]
+  }
+};
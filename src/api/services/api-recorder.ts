@@ -0,0 +1,184 @@
+import http from 'http';
+import fs from 'fs';
+import { createModuleLogger } from '../../utils/logger.js';
+
+const logger = createModuleLogger('proxy');
+
+/**
+ * Headers that carry credentials - never written to a recording
+ */
+const REDACTED_HEADERS = ['x-api-key', 'authorization', 'proxy-authorization', 'cookie', 'set-cookie'];
+
+/**
+ * Response headers that describe the original transfer, not the body
+ * (dropped on replay because the body is re-sent in one piece)
+ */
+const HOP_BY_HOP_HEADERS = ['content-length', 'content-encoding', 'transfer-encoding', 'connection', 'keep-alive'];
+
+/**
+ * One request/response pair forwarded by the proxy
+ */
+export interface RecordedExchange {
+  /** Order in which the request was received (starts at 1) */
+  sequence: number;
+
+  /** When the request was received */
+  timestamp: string;
+
+  /** Time until the response finished (or the request failed) */
+  durationMs: number;
+
+  request: {
+    method: string;
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+  };
+
+  /** Absent if the upstream request failed */
+  response?: {
+    statusCode: number;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+  };
+
+  /** Upstream error message (when there is no response) */
+  error?: string;
+}
+
+/**
+ * Copy headers with credential values replaced
+ */
+export function redactHeaders(headers: http.IncomingHttpHeaders): http.IncomingHttpHeaders {
+  const redacted: http.IncomingHttpHeaders = {};
+  for (const [name, value] of Object.entries(headers)) {
+    redacted[name] = REDACTED_HEADERS.includes(name.toLowerCase()) ? '[REDACTED]' : value;
+  }
+  return redacted;
+}
+
+/**
+ * ApiRecorder
+ * Collects the proxy's request/response pairs in memory, as NDJSON (one exchange per line)
+ */
+export class ApiRecorder {
+  private exchanges: RecordedExchange[] = [];
+  private sequence = 0;
+
+  /**
+   * Reserve the sequence number for a new request
+   */
+  nextSequence(): number {
+    return ++this.sequence;
+  }
+
+  /**
+   * Add a finished exchange (headers are redacted here)
+   */
+  add(exchange: RecordedExchange): void {
+    this.exchanges.push({
+      ...exchange,
+      request: { ...exchange.request, headers: redactHeaders(exchange.request.headers) },
+      response: exchange.response && {
+        ...exchange.response,
+        headers: redactHeaders(exchange.response.headers)
+      }
+    });
+  }
+
+  getCount(): number {
+    return this.exchanges.length;
+  }
+
+  /**
+   * Serialize the recording, ordered by sequence
+   */
+  toNdjson(): string {
+    return [...this.exchanges]
+      .sort((a, b) => a.sequence - b.sequence)
+      .map(exchange => JSON.stringify(exchange))
+      .join('\n') + '\n';
+  }
+}
+
+/**
+ * ApiReplayer
+ * Serves responses from a recording instead of calling the API
+ *
+ * Each recorded exchange is served once. A request is matched to the first unused
+ * exchange with the same method, path and model, so background calls (e.g. a
+ * different model generating titles) don't shift the main conversation.
+ */
+export class ApiReplayer {
+  private used = new Set<number>();
+
+  private constructor(private exchanges: RecordedExchange[]) {}
+
+  /**
+   * Load a recording (NDJSON, as written by ApiRecorder)
+   * @throws Error if the file can't be read or contains invalid lines
+   */
+  static async fromFile(filePath: string): Promise<ApiReplayer> {
+    const content = await fs.promises.readFile(filePath, 'utf-8');
+    const exchanges: RecordedExchange[] = content
+      .split('\n')
+      .filter(line => line.trim())
+      .map((line, index) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          throw new Error(`Invalid recording ${filePath}: line ${index + 1} is not valid JSON`);
+        }
+      })
+      .sort((a, b) => a.sequence - b.sequence);
+
+    logger.info(`[Proxy] Loaded ${exchanges.length} recorded exchanges from ${filePath}`);
+    return new ApiReplayer(exchanges);
+  }
+
+  /**
+   * Take the next recorded exchange matching a request
+   * @returns undefined if the recording has no unused match
+   */
+  take(method: string, path: string, body: string): RecordedExchange | undefined {
+    const model = this.getModel(body);
+
+    const candidates = this.exchanges.filter(exchange =>
+      exchange.response &&
+      !this.used.has(exchange.sequence) &&
+      exchange.request.method === method &&
+      exchange.request.path === path
+    );
+
+    const match = candidates.find(exchange => this.getModel(exchange.request.body) === model) || candidates[0];
+    if (match) {
+      this.used.add(match.sequence);
+    }
+    return match;
+  }
+
+  /**
+   * Write a recorded response to the client
+   */
+  static writeResponse(exchange: RecordedExchange, res: http.ServerResponse): void {
+    const response = exchange.response!;
+    const headers: http.OutgoingHttpHeaders = {};
+    for (const [name, value] of Object.entries(response.headers)) {
+      if (!HOP_BY_HOP_HEADERS.includes(name.toLowerCase()) && value !== undefined) {
+        headers[name] = value;
+      }
+    }
+    headers['content-length'] = Buffer.byteLength(response.body);
+
+    res.writeHead(response.statusCode, headers);
+    res.end(response.body);
+  }
+
+  private getModel(body: string): string | undefined {
+    try {
+      return JSON.parse(body).model;
+    } catch {
+      return undefined;
+    }
+  }
+}
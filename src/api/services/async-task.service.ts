@@ -0,0 +1,103 @@
+import { GCSLoggerService } from "./gcs.service.js";
+import { EncryptionService } from "./encryption.service.js";
+import { TaskQueue } from "./task-queue.service.js";
+import { TaskRegistration } from "./task-registry.service.js";
+import {
+  AsyncRunRequest,
+  AsyncRunResponse,
+  AsyncTaskMetadata
+} from "../types/async-task.types.js";
+import { logger } from "../../utils/logger.js";
+
+/**
+ * Ownership and origin of a new task
+ */
+export interface AsyncTaskOptions extends TaskRegistration {
+  /** Schedule that created the task */
+  scheduleId?: string;
+}
+
+/**
+ * AsyncTaskService
+ * Creates async tasks - metadata, KMS-encrypted payload and queue entry -
+ * for POST /run-async and for schedules
+ */
+export class AsyncTaskService {
+  constructor(
+    private gcsLogger: GCSLoggerService,
+    private encryptionService: EncryptionService = new EncryptionService(),
+    private queue: TaskQueue = TaskQueue.getInstance()
+  ) {}
+
+  /**
+   * Store a new task and queue it for execution
+   * A task's quota slot (options.quotaSlot) belongs to the queue once this returns.
+   * @returns undefined if a task with this ID already exists (it is never overwritten)
+   * @throws Error if the task couldn't be stored or queued - nothing is left behind
+   */
+  async createTask(taskId: string, request: AsyncRunRequest, options: AsyncTaskOptions = {}): Promise<AsyncRunResponse | undefined> {
+    const createdAt = new Date().toISOString();
+    const priority = request.priority ?? TaskQueue.DEFAULT_PRIORITY;
+    const payloadPath = this.gcsLogger.getEncryptedPayloadPath(taskId);
+
+    // 1. Save non-sensitive metadata - only if the task ID is new, so an existing task is never overwritten
+    const metadata: AsyncTaskMetadata = {
+      taskId,
+      status: 'queued',
+      callbackUrl: request.callbackUrl,
+      createdAt,
+      createdBy: options.createdBy,
+      scheduleId: options.scheduleId,
+      resumedFromTaskId: request.resumeFromTaskId,
+      encryptedPayloadPath: payloadPath,
+      executionMode: 'async',
+      priority,
+      metadata: request.metadata || {}
+    };
+    if (!(await this.gcsLogger.createMetadata(taskId, metadata))) {
+      return undefined;
+    }
+    logger.debug(`[TASK ${taskId}] Metadata saved`);
+
+    try {
+      // 2. Encrypt the entire payload (contains secrets) and store it in GCS
+      logger.info(`[TASK ${taskId}] Encrypting payload with Cloud KMS`);
+      const encryptedPayload = await this.encryptionService.encryptPayload(request);
+      logger.debug(`[TASK ${taskId}] Payload encrypted (${encryptedPayload.length} bytes)`);
+
+      await this.gcsLogger.storeEncryptedPayload(taskId, encryptedPayload);
+      logger.info(`[TASK ${taskId}] Encrypted payload stored at: ${payloadPath}`);
+
+      // 3. Queue the task - the dispatcher starts its job (only passing task ID and path)
+      await this.queue.enqueue({
+        taskId,
+        priority,
+        createdAt,
+        encryptedPayloadPath: payloadPath,
+        callbackUrl: request.callbackUrl,
+        metadata: request.metadata,
+        createdBy: options.createdBy,
+        tenant: options.tenant,
+        quotaSlot: options.quotaSlot
+      });
+    } catch (error) {
+      // The task wasn't queued - remove it so the task ID can be used again
+      try {
+        await this.gcsLogger.deleteMetadata(taskId);
+        await this.gcsLogger.deleteEncryptedPayload(taskId);
+      } catch (cleanupError: any) {
+        logger.warn(`[TASK ${taskId}] Failed to roll back task creation:`, cleanupError.message);
+      }
+      throw error;
+    }
+
+    this.queue.kick();
+
+    return {
+      taskId,
+      status: 'queued',
+      logsPath: this.gcsLogger.getLogsPath(taskId),
+      createdAt
+    };
+  }
+}
@@ -0,0 +1,267 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { OAuth2Client } from 'google-auth-library';
+import { AuthMethod, CallerIdentity } from '../types/auth.types.js';
+import { createModuleLogger } from '../../utils/logger.js';
+
+const logger = createModuleLogger('auth');
+
+/**
+ * Outcome of checking one authentication method
+ */
+export type AuthResult =
+  | { outcome: 'skipped' } // The request carries no credentials for this method
+  | { outcome: 'authenticated'; id: string }
+  | { outcome: 'rejected'; reason: string };
+
+/**
+ * One authentication method
+ */
+export interface Authenticator {
+  readonly method: AuthMethod;
+  authenticate(req: Request): Promise<AuthResult>;
+}
+
+/**
+ * Google-signed ID tokens (Authorization: Bearer <token>)
+ * The caller ID is the token's email.
+ */
+export class GoogleIdTokenAuthenticator implements Authenticator {
+  readonly method = 'google' as const;
+  private client = new OAuth2Client();
+
+  /**
+   * @param audiences - Accepted token audiences (usually the service URL)
+   * @param allowedEmails - Accepted emails, or `*@domain` patterns (default: any)
+   */
+  constructor(private audiences: string[], private allowedEmails: string[] = []) {}
+
+  async authenticate(req: Request): Promise<AuthResult> {
+    const match = req.header('Authorization')?.match(/^Bearer\s+(.+)$/i);
+    if (!match) {
+      return { outcome: 'skipped' };
+    }
+
+    let email: string | undefined;
+    try {
+      const ticket = await this.client.verifyIdToken({ idToken: match[1], audience: this.audiences });
+      const payload = ticket.getPayload();
+      email = payload?.email_verified ? payload.email?.toLowerCase() : undefined;
+    } catch (error: any) {
+      logger.debug(`ID token verification failed: ${error.message}`);
+      return { outcome: 'rejected', reason: 'Invalid ID token' };
+    }
+
+    if (!email) {
+      return { outcome: 'rejected', reason: 'ID token has no verified email' };
+    }
+    if (this.allowedEmails.length > 0 && !this.allowedEmails.some(allowed => matchesEmail(allowed, email!))) {
+      return { outcome: 'rejected', reason: `${email} is not allowed to use this service` };
+    }
+    return { outcome: 'authenticated', id: email };
+  }
+}
+
+/**
+ * Static API keys (X-API-Key: <key>)
+ * The caller ID is the name the key is configured under.
+ */
+export class ApiKeyAuthenticator implements Authenticator {
+  readonly method = 'api-key' as const;
+  private keys: Array<{ id: string; digest: Buffer }>;
+
+  /**
+   * @param keys - Caller ID -> API key
+   */
+  constructor(keys: Record<string, string>) {
+    this.keys = Object.entries(keys).map(([id, key]) => ({ id, digest: sha256(key) }));
+  }
+
+  async authenticate(req: Request): Promise<AuthResult> {
+    const key = req.header('X-API-Key');
+    if (key === undefined) {
+      return { outcome: 'skipped' };
+    }
+
+    // Compare digests in constant time, checking every key so timing doesn't reveal which matched
+    const digest = sha256(key);
+    let id: string | undefined;
+    for (const entry of this.keys) {
+      if (crypto.timingSafeEqual(entry.digest, digest)) {
+        id = entry.id;
+      }
+    }
+    return id ? { outcome: 'authenticated', id } : { outcome: 'rejected', reason: 'Invalid API key' };
+  }
+}
+
+/**
+ * HMAC-signed requests
+ *
+ * Headers: X-Auth-Key-Id (caller ID), X-Auth-Timestamp (Unix seconds) and
+ * X-Auth-Signature: sha256=<hex HMAC-SHA256 of `${timestamp}.${METHOD}.${path}.${body}`>,
+ * where path includes the query string and body is the raw request body ("" if none).
+ */
+export class HmacAuthenticator implements Authenticator {
+  readonly method = 'hmac' as const;
+
+  /**
+   * @param secrets - Caller ID -> signing secret
+   * @param toleranceSeconds - Maximum clock difference / request age
+   */
+  constructor(private secrets: Record<string, string>, private toleranceSeconds: number = 300) {}
+
+  /**
+   * Signature header value for a request (used by clients)
+   */
+  static sign(secret: string, timestamp: string, method: string, path: string, body: string | Buffer = ''): string {
+    const digest = crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${method.toUpperCase()}.${path}.`)
+      .update(body)
+      .digest('hex');
+    return `sha256=${digest}`;
+  }
+
+  async authenticate(req: Request): Promise<AuthResult> {
+    const keyId = req.header('X-Auth-Key-Id');
+    const timestamp = req.header('X-Auth-Timestamp');
+    const signature = req.header('X-Auth-Signature');
+    if (keyId === undefined && signature === undefined) {
+      return { outcome: 'skipped' };
+    }
+
+    if (!keyId || !signature || !timestamp || !/^\d+$/.test(timestamp)) {
+      return { outcome: 'rejected', reason: 'X-Auth-Key-Id, X-Auth-Timestamp and X-Auth-Signature are required' };
+    }
+    if (Math.abs(Date.now() / 1000 - parseInt(timestamp, 10)) > this.toleranceSeconds) {
+      return { outcome: 'rejected', reason: 'Request timestamp is outside the allowed window' };
+    }
+
+    const secret = Object.hasOwn(this.secrets, keyId) ? this.secrets[keyId] : undefined;
+    if (secret === undefined) {
+      return { outcome: 'rejected', reason: 'Invalid request signature' };
+    }
+
+    const expected = Buffer.from(HmacAuthenticator.sign(secret, timestamp, req.method, req.originalUrl, req.rawBody));
+    const received = Buffer.from(signature);
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      return { outcome: 'rejected', reason: 'Invalid request signature' };
+    }
+    return { outcome: 'authenticated', id: keyId };
+  }
+}
+
+/**
+ * AuthService
+ * Identifies the caller of each request with the configured authentication methods.
+ *
+ * Methods are tried in AUTH_METHODS order; the first whose credentials are present decides.
+ * Without AUTH_METHODS, authentication is left to Cloud Run IAM and callers are anonymous.
+ */
+export class AuthService {
+  private admins: Set<string>;
+
+  constructor(private authenticators: Authenticator[], admins: string[] = []) {
+    this.admins = new Set(admins.map(admin => admin.toLowerCase()));
+  }
+
+  /**
+   * Configure authentication from the environment
+   * @returns undefined if AUTH_METHODS is not set
+   * @throws Error if the configuration is incomplete or invalid
+   */
+  static fromEnv(): AuthService | undefined {
+    const methods = parseList(process.env.AUTH_METHODS);
+    if (methods.length === 0) {
+      return undefined;
+    }
+
+    const authenticators = methods.map((method): Authenticator => {
+      switch (method) {
+        case 'google': {
+          const audiences = parseList(process.env.AUTH_GOOGLE_AUDIENCE);
+          if (audiences.length === 0) {
+            throw new Error('AUTH_GOOGLE_AUDIENCE is required for google authentication');
+          }
+          return new GoogleIdTokenAuthenticator(audiences, parseList(process.env.AUTH_GOOGLE_ALLOWED_EMAILS).map(email => email.toLowerCase()));
+        }
+        case 'api-key':
+          return new ApiKeyAuthenticator(parseCredentials('AUTH_API_KEYS'));
+        case 'hmac':
+          return new HmacAuthenticator(
+            parseCredentials('AUTH_HMAC_KEYS'),
+            parseInt(process.env.AUTH_HMAC_TOLERANCE_SECONDS || '300', 10)
+          );
+        default:
+          throw new Error(`Unknown authentication method in AUTH_METHODS: ${method} (use google, api-key or hmac)`);
+      }
+    });
+
+    logger.info(`Authentication enabled: ${methods.join(', ')}`);
+    return new AuthService(authenticators, parseList(process.env.AUTH_ADMINS));
+  }
+
+  /**
+   * Identify the caller of a request
+   * @returns The caller, or the reason the request is not authenticated
+   */
+  async authenticate(req: Request): Promise<{ caller: CallerIdentity } | { error: string }> {
+    for (const authenticator of this.authenticators) {
+      const result = await authenticator.authenticate(req);
+
+      if (result.outcome === 'authenticated') {
+        return {
+          caller: {
+            id: result.id,
+            method: authenticator.method,
+            admin: this.admins.has(result.id.toLowerCase())
+          }
+        };
+      }
+      if (result.outcome === 'rejected') {
+        logger.warn(`${authenticator.method} authentication failed for ${req.method} ${req.path}: ${result.reason}`);
+        return { error: result.reason };
+      }
+    }
+    return { error: 'Authentication required' };
+  }
+}
+
+/**
+ * Whether a caller may act on (e.g. cancel) a task
+ * Tasks created before authentication was enabled have no owner and can only be managed by admins.
+ */
+export function canManageTask(caller: CallerIdentity | undefined, createdBy: string | undefined): boolean {
+  return !caller || caller.admin || (createdBy !== undefined && caller.id === createdBy);
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse `id:secret,id:secret` (secrets may contain `:`)
+ */
+function parseCredentials(name: string): Record<string, string> {
+  const credentials: Record<string, string> = {};
+  for (const entry of parseList(process.env[name])) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0 || separator === entry.length - 1) {
+      throw new Error(`${name} entries must be <caller-id>:<secret>`);
+    }
+    credentials[entry.slice(0, separator)] = entry.slice(separator + 1);
+  }
+  if (Object.keys(credentials).length === 0) {
+    throw new Error(`${name} is required`);
+  }
+  return credentials;
+}
+
+function matchesEmail(pattern: string, email: string): boolean {
+  return pattern.startsWith('*@') ? email.endsWith(pattern.slice(1)) : pattern === email;
+}
+
+function sha256(value: string): Buffer {
+  return crypto.createHash('sha256').update(value).digest();
+}
@@ -0,0 +1,80 @@
+import { TaskBudget } from "../types/request.types.js";
+import { ApiUsage, estimateCostUsd } from "./model-pricing.js";
+import { createModuleLogger } from "../../utils/logger.js";
+
+const logger = createModuleLogger('proxy');
+
+/**
+ * BudgetTracker
+ * Accumulates token usage and estimated cost of a task's API calls
+ * and reports when the task's budget is exhausted
+ */
+export class BudgetTracker {
+  private totalTokens = 0;
+  private totalCostUsd = 0;
+  private exceededReason?: string;
+
+  constructor(private budget: TaskBudget) {}
+
+  /**
+   * Validate a budget from a request body
+   * @returns Error message, or undefined if valid
+   */
+  static validate(budget: unknown): string | undefined {
+    if (budget === undefined) {
+      return undefined;
+    }
+    if (!budget || typeof budget !== 'object' || Array.isArray(budget)) {
+      return 'budget must be an object';
+    }
+
+    const { maxTokens, maxCostUsd } = budget as TaskBudget;
+    if (maxTokens === undefined && maxCostUsd === undefined) {
+      return 'budget must set maxTokens and/or maxCostUsd';
+    }
+    if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens <= 0)) {
+      return 'budget.maxTokens must be a positive integer';
+    }
+    if (maxCostUsd !== undefined && (typeof maxCostUsd !== 'number' || !(maxCostUsd > 0))) {
+      return 'budget.maxCostUsd must be a positive number';
+    }
+    return undefined;
+  }
+
+  /**
+   * Record the usage of one /v1/messages response
+   */
+  record(model: string | undefined, usage: ApiUsage): void {
+    const tokens = (usage.input_tokens || 0)
+      + (usage.output_tokens || 0)
+      + (usage.cache_creation_input_tokens || 0)
+      + (usage.cache_read_input_tokens || 0);
+
+    this.totalTokens += tokens;
+    this.totalCostUsd += estimateCostUsd(model, usage);
+
+    logger.debug(`[Proxy] Budget usage: ${this.totalTokens} tokens, $${this.totalCostUsd.toFixed(4)} (model: ${model || 'unknown'})`);
+
+    if (this.exceededReason) {
+      return;
+    }
+
+    const { maxTokens, maxCostUsd } = this.budget;
+    if (maxTokens !== undefined && this.totalTokens >= maxTokens) {
+      this.exceededReason = `Task budget exhausted: used ${this.totalTokens} tokens (maxTokens: ${maxTokens})`;
+    } else if (maxCostUsd !== undefined && this.totalCostUsd >= maxCostUsd) {
+      this.exceededReason = `Task budget exhausted: used $${this.totalCostUsd.toFixed(4)} (maxCostUsd: $${maxCostUsd})`;
+    }
+
+    if (this.exceededReason) {
+      logger.warn(`[Proxy] ${this.exceededReason}`);
+    }
+  }
+
+  /**
+   * Reason the budget is exhausted, or undefined while within budget
+   */
+  getExceededReason(): string | undefined {
+    return this.exceededReason;
+  }
+}
@@ -0,0 +1,118 @@
+import fs from "fs";
+import path from "path";
+import { GCSLoggerService } from "./gcs.service.js";
+import { canManageTask } from "./auth.service.js";
+import { AsyncTaskMetadata, ErrorResponse } from "../types/async-task.types.js";
+import { CallerIdentity } from "../types/auth.types.js";
+import { createModuleLogger } from "../../utils/logger.js";
+
+const logger = createModuleLogger('session');
+
+/**
+ * Why a task can't be resumed, as an HTTP response
+ */
+export interface ResumeRejection {
+  status: 400 | 403 | 404 | 409;
+  body: ErrorResponse;
+}
+
+/**
+ * ClaudeSessionStore
+ * Saves the Claude CLI's session files of a finished task so a later task can continue its conversation.
+ *
+ * The CLI keeps a session's transcript in ~/.claude/projects/{cwd with non-alphanumerics as -}/.
+ * When a task finishes, that folder is uploaded to sessions/{taskId}/claude-session/ and the
+ * session ID is recorded in the task's metadata (claudeSessionId). A task with resumeFromTaskId
+ * downloads the files into the folder of its own workspace and starts its first run with
+ * --resume. Only the conversation is restored - the new task gets a fresh workspace.
+ */
+export class ClaudeSessionStore {
+  constructor(private gcsLogger: GCSLoggerService) {}
+
+  /**
+   * The CLI's session folder for a working directory (HOME as passed to the CLI by ClaudeRunner)
+   */
+  public static projectDir(cwd: string): string {
+    return path.join(process.env.HOME || '/root', '.claude', 'projects', cwd.replace(/[^a-zA-Z0-9]/g, '-'));
+  }
+
+  /**
+   * Check that the caller may continue a task's session and that there is one to continue
+   * @returns The error response, or undefined if the task can be resumed
+   */
+  public async checkResumable(taskId: string, caller: CallerIdentity | undefined): Promise<ResumeRejection | undefined> {
+    const metadata: AsyncTaskMetadata | null = await this.gcsLogger.readMetadata(taskId);
+    if (!metadata) {
+      logger.warn(`Resume of unknown task ${taskId}`);
+      return { status: 404, body: { error: 'Task not found', message: `resumeFromTaskId: task ${taskId} does not exist`, taskId } };
+    }
+
+    if (!canManageTask(caller, metadata.createdBy)) {
+      logger.warn(`Resume of task ${taskId} by ${caller?.id} denied (created by ${metadata.createdBy || 'unknown'})`);
+      return {
+        status: 403,
+        body: { error: 'Forbidden', message: 'Only the caller that created the task or an admin can resume it', taskId }
+      };
+    }
+
+    if (!['completed', 'failed', 'cancelled'].includes(metadata.status)) {
+      logger.warn(`Resume of task ${taskId} while it is ${metadata.status}`);
+      return {
+        status: 409,
+        body: { error: `Task ${taskId} is ${metadata.status} - it can be resumed once it has finished`, taskId }
+      };
+    }
+
+    if (!metadata.claudeSessionId) {
+      logger.warn(`Resume of task ${taskId} without a saved session`);
+      return { status: 400, body: { error: `Task ${taskId} has no saved Claude session to resume`, taskId } };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Upload the session files of a run in `cwd` and record the session to continue
+   * @param sessionId - Session of the task's last run (from its result message)
+   */
+  public async save(taskId: string, cwd: string, sessionId: string): Promise<void> {
+    const uploaded = await this.gcsLogger.uploadFilesByGlob(
+      taskId,
+      ClaudeSessionStore.projectDir(cwd),
+      ['**/*'],
+      this.sessionPrefix(taskId)
+    );
+    if (uploaded.length === 0) {
+      throw new Error(`No session files found for session ${sessionId}`);
+    }
+
+    await this.gcsLogger.updateMetadata(taskId, { claudeSessionId: sessionId });
+    logger.info(`[TASK ${taskId}] Saved Claude session ${sessionId} (${uploaded.length} files)`);
+  }
+
+  /**
+   * Download a task's saved session into the session folder of `cwd`
+   * @returns Session ID to pass to the CLI's --resume
+   * @throws Error if the task has no saved session (e.g. it was deleted since the request was accepted)
+   */
+  public async restore(fromTaskId: string, cwd: string, logPrefix: string = ''): Promise<string> {
+    const metadata: AsyncTaskMetadata | null = await this.gcsLogger.readMetadata(fromTaskId);
+    if (!metadata?.claudeSessionId) {
+      throw new Error(`Task ${fromTaskId} has no saved Claude session to resume`);
+    }
+
+    const projectDir = ClaudeSessionStore.projectDir(cwd);
+    await fs.promises.mkdir(projectDir, { recursive: true });
+    const count = await this.gcsLogger.downloadFiles(this.sessionPrefix(fromTaskId), projectDir);
+    if (count === 0) {
+      throw new Error(`The saved Claude session of task ${fromTaskId} no longer exists`);
+    }
+
+    logger.info(`${logPrefix} Restored Claude session ${metadata.claudeSessionId} of task ${fromTaskId} (${count} files)`);
+    return metadata.claudeSessionId;
+  }
+
+  private sessionPrefix(taskId: string): string {
+    return `sessions/${taskId}/claude-session`;
+  }
+}
@@ -7,6 +7,52 @@ import * as path from "path";
 
 const logger = createModuleLogger('gcs');
 
+/**
+ * Position of a log line within a task's chunk files
+ * Used as the SSE event ID so reconnecting clients can resume where they left off
+ */
+export interface LogPosition {
+  /** Chunk number (from the chunk filename, starting at 1) */
+  chunkIndex: number;
+
+  /** Zero-based index of the line within the chunk */
+  lineIndex: number;
+}
+
+/**
+ * One task in the listing index (see writeTaskIndex)
+ */
+export interface TaskIndexEntry {
+  taskId: string;
+  createdAt: string;
+  status: string;
+  executionMode?: 'sync' | 'async';
+
+  /** User metadata - absent if it was too large to index (read the task's metadata.json instead) */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * A page of the listing index
+ */
+export interface TaskIndexPage {
+  entries: TaskIndexEntry[];
+
+  /** Token for the next page of the listing (absent on the last page) */
+  nextPageToken?: string;
+}
+
+/**
+ * Options for waitForCompletion
+ */
+export interface WaitForCompletionOptions {
+  /** Skip all lines up to and including this position (from Last-Event-ID) */
+  resumeAfter?: LogPosition;
+
+  /** Checked before each poll - return true to stop waiting (e.g. client disconnected) */
+  shouldStop?: () => boolean;
+}
+
 /**
  * GCS Logger Service
  * Handles streaming Claude Code JSONL output to Google Cloud Storage
@@ -15,6 +61,12 @@ const logger = createModuleLogger('gcs');
  * where logs are written in batches to separate chunk files that can be read sequentially.
  */
 export class GCSLoggerService {
+  private static readonly MAX_METADATA_UPDATE_ATTEMPTS = 10;
+  private static readonly INDEX_PREFIX = 'index/';
+
+  /** Longer user metadata isn't stored in the index (custom metadata of an object is limited to 8 KiB) */
+  private static readonly MAX_INDEXED_METADATA_LENGTH = 4096;
+
   private storage: Storage;
   private bucket: Bucket;
   private bucketName: string;
@@ -42,9 +94,10 @@ export class GCSLoggerService {
   /**
    * Create a streaming logger for a task
    * Returns a writable stream that buffers and writes JSONL chunks to GCS
+   * @param chunkOffset - Chunks already written (by earlier attempts); numbering continues after them
    */
-  createTaskLogger(taskId: string): TaskLogger {
-    return new TaskLogger(this.bucket, taskId);
+  createTaskLogger(taskId: string, chunkOffset: number = 0): TaskLogger {
+    return new TaskLogger(this.bucket, taskId, chunkOffset);
   }
 
   /**
@@ -67,6 +120,168 @@ export class GCSLoggerService {
       logger.error(`Failed to save metadata for task ${taskId}:`, error.message);
       throw error;
     }
+
+    await this.writeTaskIndex(metadata);
+  }
+
+  /**
+   * Save the metadata of a new task, only if no task with this ID exists yet
+   * @returns false if the task ID is already taken
+   */
+  async createMetadata(taskId: string, metadata: any): Promise<boolean> {
+    const created = await this.writeJsonIfGenerationMatch(`sessions/${taskId}/metadata.json`, metadata, 0);
+    if (created) {
+      logger.debug(`✓ Metadata created for task ${taskId}`);
+      await this.writeTaskIndex(metadata);
+    }
+    return created;
+  }
+
+  /**
+   * Delete task metadata and its index entries (e.g. when task creation failed before the job started)
+   */
+  async deleteMetadata(taskId: string): Promise<void> {
+    const metadata = await this.readMetadata(taskId);
+    await this.deleteObject(`sessions/${taskId}/metadata.json`);
+
+    if (metadata?.createdAt) {
+      for (const order of ['asc', 'desc'] as const) {
+        await this.deleteObject(this.getTaskIndexName(order, metadata.createdAt, taskId));
+      }
+    }
+  }
+
+  /**
+   * Merge fields into existing task metadata
+   * Compare-and-swap on the object's generation, so fields written concurrently by other
+   * writers (worker, queue dispatcher, cancel requests) are never lost - on a conflict the
+   * updates are merged into the latest metadata again.
+   * @param updates - Fields to merge, or a function of the current metadata returning them
+   *   (null leaves the metadata unchanged, e.g. when the task already reached a final status)
+   * @returns The merged metadata that was saved (the current metadata if nothing was written)
+   */
+  async updateMetadata(
+    taskId: string,
+    updates: Record<string, any> | ((current: any | null) => Record<string, any> | null)
+  ): Promise<any> {
+    const metadataPath = `sessions/${taskId}/metadata.json`;
+
+    for (let attempt = 1; attempt <= GCSLoggerService.MAX_METADATA_UPDATE_ATTEMPTS; attempt++) {
+      const existing = await this.readJsonWithGeneration(metadataPath);
+      const changes = typeof updates === 'function' ? updates(existing?.data ?? null) : updates;
+      if (!changes) {
+        return existing?.data ?? null;
+      }
+
+      const merged = { ...(existing?.data || { taskId }), ...changes };
+      if (await this.writeJsonIfGenerationMatch(metadataPath, merged, existing?.generation ?? 0)) {
+        logger.debug(`✓ Metadata updated for task ${taskId}`);
+        if (this.indexFieldsChanged(existing?.data, merged)) {
+          await this.writeTaskIndex(merged);
+        }
+        return merged;
+      }
+
+      logger.debug(`Metadata of task ${taskId} changed concurrently, retrying (attempt ${attempt})`);
+    }
+
+    throw new Error(`Failed to update metadata of task ${taskId}: too many concurrent modifications`);
+  }
+
+  /**
+   * Read a JSON object together with its generation (for compare-and-swap updates)
+   * Returns null if the object doesn't exist
+   */
+  async readJsonWithGeneration(objectPath: string): Promise<{ data: any; generation: string } | null> {
+    try {
+      const [fileMetadata] = await this.bucket.file(objectPath).getMetadata();
+      const generation = String(fileMetadata.generation);
+
+      // Download exactly the generation we looked up
+      const [contents] = await this.bucket.file(objectPath, { generation }).download();
+      return { data: JSON.parse(contents.toString('utf-8')), generation };
+    } catch (error: any) {
+      if (error.code === 404) {
+        return null;
+      }
+      logger.error(`Failed to read ${objectPath}:`, error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Write a JSON object only if its current generation matches
+   * Use generation 0 to create the object only if it doesn't exist yet
+   * @returns false if the precondition failed (object changed concurrently or already exists)
+   */
+  async writeJsonIfGenerationMatch(
+    objectPath: string,
+    data: any,
+    generation: string | number
+  ): Promise<boolean> {
+    try {
+      await this.bucket.file(objectPath).save(JSON.stringify(data, null, 2), {
+        contentType: "application/json",
+        resumable: false,
+        preconditionOpts: { ifGenerationMatch: generation }
+      });
+      return true;
+    } catch (error: any) {
+      if (error.code === 412) {
+        logger.debug(`Generation precondition failed for ${objectPath} (expected ${generation})`);
+        return false;
+      }
+      logger.error(`Failed to write ${objectPath}:`, error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * List and read all JSON objects under a prefix
+   * Objects deleted between listing and reading are skipped
+   */
+  async listJsonObjects(prefix: string): Promise<any[]> {
+    const [files] = await this.bucket.getFiles({ prefix });
+    const results: any[] = [];
+
+    for (const file of files.filter(f => f.name.endsWith('.json'))) {
+      try {
+        const [contents] = await file.download();
+        results.push(JSON.parse(contents.toString('utf-8')));
+      } catch (error: any) {
+        if (error.code !== 404) {
+          logger.error(`Failed to read ${file.name}:`, error.message);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * List object names under a prefix (without downloading them)
+   */
+  async listObjectNames(prefix: string): Promise<string[]> {
+    const [files] = await this.bucket.getFiles({ prefix });
+    return files.map(file => file.name);
+  }
+
+  /**
+   * Delete an object
+   * @param ifGenerationMatch - Only delete this generation of the object
+   * @returns false if the object didn't exist (or has another generation)
+   */
+  async deleteObject(objectPath: string, ifGenerationMatch?: string): Promise<boolean> {
+    try {
+      await this.bucket.file(objectPath).delete(ifGenerationMatch !== undefined ? { ifGenerationMatch } : {});
+      return true;
+    } catch (error: any) {
+      if (error.code === 404 || error.code === 412) {
+        return false;
+      }
+      logger.error(`Failed to delete ${objectPath}:`, error.message);
+      throw error;
+    }
   }
 
   /**
@@ -78,13 +293,14 @@ export class GCSLoggerService {
 
   /**
    * List all log chunks for a task (for retrieval)
+   * Only top-level objects - subfolders (e.g. the saved Claude session) hold other JSONL files
    */
   async listLogChunks(taskId: string): Promise<string[]> {
     const prefix = `sessions/${taskId}/`;
     const [files] = await this.bucket.getFiles({ prefix });
 
     return files
-      .filter(file => file.name.endsWith('.jsonl'))
+      .filter(file => file.name.endsWith('.jsonl') && !file.name.slice(prefix.length).includes('/'))
       .map(file => file.name)
       .sort(); // Chunks are named with timestamps, so sorting gives chronological order
   }
@@ -160,6 +376,34 @@ export class GCSLoggerService {
     }
   }
 
+  /**
+   * Store a schedule's encrypted request template
+   * Path: schedules/{scheduleId}/request.enc
+   */
+  async storeEncryptedScheduleRequest(scheduleId: string, encryptedData: Buffer): Promise<void> {
+    await this.bucket.file(`schedules/${scheduleId}/request.enc`).save(encryptedData, {
+      contentType: 'application/octet-stream',
+      resumable: false
+    });
+    logger.debug(`✓ Encrypted request template stored for schedule ${scheduleId}`);
+  }
+
+  /**
+   * Read a schedule's encrypted request template
+   */
+  async readEncryptedScheduleRequest(scheduleId: string): Promise<Buffer> {
+    const [contents] = await this.bucket.file(`schedules/${scheduleId}/request.enc`).download();
+    return contents;
+  }
+
+  /**
+   * Delete a schedule's encrypted request template
+   * @returns false if it didn't exist
+   */
+  async deleteEncryptedScheduleRequest(scheduleId: string): Promise<boolean> {
+    return this.deleteObject(`schedules/${scheduleId}/request.enc`);
+  }
+
   /**
    * Get encrypted payload GCS path
    */
@@ -167,6 +411,63 @@ export class GCSLoggerService {
     return `gs://${this.bucketName}/tasks/${taskId}/payload.enc`;
   }
 
+  /**
+   * Save a recording of the task's Anthropic API traffic (NDJSON)
+   * Stored next to the log chunks, but not named *.jsonl so log readers skip it
+   * Path: sessions/{taskId}/api-recording.ndjson
+   * @returns GCS URI of the recording
+   */
+  async saveApiRecording(taskId: string, ndjson: string): Promise<string> {
+    const filePath = `sessions/${taskId}/api-recording.ndjson`;
+
+    try {
+      await this.bucket.file(filePath).save(ndjson, {
+        contentType: "application/x-ndjson",
+        resumable: false
+      });
+      logger.debug(`✓ API recording saved for task ${taskId}`);
+      return `gs://${this.bucketName}/${filePath}`;
+    } catch (error: any) {
+      logger.error(`Failed to save API recording for task ${taskId}:`, error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Write the cancel marker for a task
+   * The job worker polls for it and shuts down gracefully (see job-worker.ts)
+   * Path: sessions/{taskId}/cancel-requested.json
+   */
+  async requestCancellation(taskId: string): Promise<void> {
+    const file = this.bucket.file(`sessions/${taskId}/cancel-requested.json`);
+
+    try {
+      await file.save(JSON.stringify({ taskId, requestedAt: new Date().toISOString() }), {
+        contentType: "application/json",
+        resumable: false
+      });
+      logger.debug(`✓ Cancel marker written for task ${taskId}`);
+    } catch (error: any) {
+      logger.error(`Failed to write cancel marker for task ${taskId}:`, error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a task's cancel marker (the cancellation didn't apply)
+   */
+  async clearCancellationRequest(taskId: string): Promise<void> {
+    await this.deleteObject(`sessions/${taskId}/cancel-requested.json`);
+  }
+
+  /**
+   * Check whether cancellation has been requested for a task
+   */
+  async isCancellationRequested(taskId: string): Promise<boolean> {
+    const [exists] = await this.bucket.file(`sessions/${taskId}/cancel-requested.json`).exists();
+    return exists;
+  }
+
   /**
    * Read task metadata from GCS
    * Returns null if metadata doesn't exist yet
@@ -188,19 +489,161 @@ export class GCSLoggerService {
     }
   }
 
+  /**
+   * Read the metadata of all tasks in the bucket (sessions/*\/metadata.json)
+   *
+   * @param updatedSince - Skip metadata files last written before this date without downloading them
+   *                       (a task's createdAt is never later than its metadata's last write)
+   * @param concurrency - Maximum parallel downloads
+   * @returns Metadata objects in no particular order
+   */
+  async listTaskMetadata(updatedSince?: Date, concurrency: number = 20): Promise<any[]> {
+    const [files] = await this.bucket.getFiles({
+      prefix: 'sessions/',
+      matchGlob: 'sessions/*/metadata.json'
+    });
+
+    const candidates = updatedSince
+      ? files.filter(file => !file.metadata.updated || new Date(file.metadata.updated) >= updatedSince)
+      : files;
+
+    logger.debug(`Reading ${candidates.length} of ${files.length} task metadata files`);
+
+    const results: any[] = [];
+    for (let i = 0; i < candidates.length; i += concurrency) {
+      const batch = candidates.slice(i, i + concurrency);
+      const contents = await Promise.all(batch.map(async file => {
+        try {
+          const [data] = await file.download();
+          return JSON.parse(data.toString('utf-8'));
+        } catch (error: any) {
+          // Deleted by lifecycle policy or partially written - skip
+          logger.debug(`Skipping metadata file ${file.name}:`, error.message);
+          return null;
+        }
+      }));
+      results.push(...contents.filter(metadata => metadata !== null));
+    }
+
+    return results;
+  }
+
+  /**
+   * Name of a task's entry in the listing index
+   * Object names sort by (createdAt, taskId): index/asc/{createdAt}_{taskId} ascending, and
+   * index/desc/{inverted createdAt}_{taskId} newest first - GCS only lists in ascending order.
+   */
+  getTaskIndexName(order: 'asc' | 'desc', createdAt: string, taskId: string): string {
+    return `${this.getTaskIndexBound(order, createdAt)}_${taskId}`;
+  }
+
+  /**
+   * Index position of a point in time, for listing ranges (entries created at that time sort after it)
+   */
+  getTaskIndexBound(order: 'asc' | 'desc', time: string): string {
+    const date = new Date(time);
+    return order === 'asc'
+      ? `${GCSLoggerService.INDEX_PREFIX}asc/${date.toISOString()}`
+      : `${GCSLoggerService.INDEX_PREFIX}desc/${String(8640000000000000 - date.getTime()).padStart(16, '0')}`;
+  }
+
+  /**
+   * Write a task's entries in the listing index (used by GET /tasks)
+   * The entries are empty objects whose custom metadata carries the filterable fields, so the index
+   * can be listed and filtered without downloading anything. Best effort - metadata.json stays the
+   * source of truth, and listed tasks are checked against it.
+   */
+  async writeTaskIndex(metadata: any): Promise<void> {
+    if (!metadata?.taskId || !metadata.createdAt) {
+      return;
+    }
+
+    const userMetadata = JSON.stringify(metadata.metadata || {});
+    const fields: Record<string, string> = {
+      taskId: metadata.taskId,
+      createdAt: metadata.createdAt,
+      status: metadata.status || '',
+      executionMode: metadata.executionMode || ''
+    };
+    if (userMetadata.length <= GCSLoggerService.MAX_INDEXED_METADATA_LENGTH) {
+      fields.userMetadata = userMetadata;
+    }
+
+    try {
+      for (const order of ['asc', 'desc'] as const) {
+        await this.bucket.file(this.getTaskIndexName(order, metadata.createdAt, metadata.taskId)).save('', {
+          contentType: 'text/plain',
+          resumable: false,
+          metadata: { metadata: fields }
+        });
+      }
+    } catch (error: any) {
+      logger.error(`Failed to index task ${metadata.taskId}:`, error.message);
+    }
+  }
+
+  /**
+   * List one page of the listing index
+   * @param startOffset - First object name to list (inclusive)
+   * @param endOffset - Object name to stop before (exclusive)
+   */
+  async listTaskIndex(
+    order: 'asc' | 'desc',
+    options: { startOffset?: string; endOffset?: string; pageToken?: string; maxResults: number }
+  ): Promise<TaskIndexPage> {
+    const [files, nextQuery] = await this.bucket.getFiles({
+      prefix: `${GCSLoggerService.INDEX_PREFIX}${order}/`,
+      startOffset: options.startOffset,
+      endOffset: options.endOffset,
+      pageToken: options.pageToken,
+      maxResults: options.maxResults,
+      autoPaginate: false
+    });
+
+    const entries: TaskIndexEntry[] = [];
+    for (const file of files) {
+      const fields = (file.metadata.metadata || {}) as Record<string, string | undefined>;
+      if (!fields.taskId || !fields.createdAt) {
+        continue;
+      }
+      entries.push({
+        taskId: fields.taskId,
+        createdAt: fields.createdAt,
+        status: fields.status || '',
+        executionMode: (fields.executionMode || undefined) as TaskIndexEntry['executionMode'],
+        metadata: fields.userMetadata !== undefined ? JSON.parse(fields.userMetadata) : undefined
+      });
+    }
+
+    return { entries, nextPageToken: (nextQuery as { pageToken?: string } | undefined)?.pageToken };
+  }
+
+  /**
+   * Whether a metadata update changed a field kept in the listing index
+   */
+  private indexFieldsChanged(previous: any, next: any): boolean {
+    return !previous
+      || previous.status !== next.status
+      || previous.createdAt !== next.createdAt
+      || previous.executionMode !== next.executionMode
+      || JSON.stringify(previous.metadata || {}) !== JSON.stringify(next.metadata || {});
+  }
+
   /**
    * Poll for new log chunks and stream lines via callback
    * Returns the index of the last chunk processed
    *
    * @param taskId - Task identifier
    * @param lastChunkIndex - Index of last chunk already processed (0 for start)
-   * @param onData - Callback for each log line
+   * @param onData - Callback for each log line (with its position in the chunk files)
+   * @param resumeAfter - Optional position; lines up to and including it are skipped
    * @returns Index of last chunk processed
    */
   async pollNewLogs(
     taskId: string,
     lastChunkIndex: number,
-    onData: (line: string) => void
+    onData: (line: string, position: LogPosition) => void,
+    resumeAfter?: LogPosition
   ): Promise<number> {
     const chunks = await this.listLogChunks(taskId);
 
@@ -234,17 +677,19 @@ export class GCSLoggerService {
         const [contents] = await file.download();
         const lines = contents.toString('utf-8').split('\n').filter(line => line.trim());
 
-        // Call onData for each line
-        for (const line of lines) {
-          onData(line);
-        }
+        const match = chunkName.match(/\/(\d+)-/);
+        const chunkNum = match ? parseInt(match[1], 10) : 0;
+
+        // Call onData for each line not already delivered
+        lines.forEach((line, lineIndex) => {
+          if (resumeAfter && chunkNum === resumeAfter.chunkIndex && lineIndex <= resumeAfter.lineIndex) {
+            return;
+          }
+          onData(line, { chunkIndex: chunkNum, lineIndex });
+        });
 
         // Update max chunk index
-        const match = chunkName.match(/\/(\d+)-/);
-        if (match) {
-          const chunkNum = parseInt(match[1], 10);
-          maxChunkIndex = Math.max(maxChunkIndex, chunkNum);
-        }
+        maxChunkIndex = Math.max(maxChunkIndex, chunkNum);
 
         logger.debug(`[TASK ${taskId}] Processed chunk: ${chunkName} (${lines.length} lines)`);
       } catch (error: any) {
@@ -260,28 +705,37 @@ export class GCSLoggerService {
    * Wait for task completion by polling metadata and streaming logs
    *
    * @param taskId - Task identifier
-   * @param onData - Callback for each log line
+   * @param onData - Callback for each log line (with its position in the chunk files)
    * @param timeoutMs - Maximum time to wait (default: 3600000 = 1 hour)
    * @param pollIntervalMs - Polling interval (default: 2000 = 2 seconds)
-   * @returns Final metadata when task completes
+   * @param options - Resume position and early-stop check
+   * @returns Final metadata when task completes (or latest metadata if stopped early)
    * @throws Error if timeout exceeded or task fails
    */
   async waitForCompletion(
     taskId: string,
-    onData: (line: string) => void,
+    onData: (line: string, position: LogPosition) => void,
     timeoutMs: number = 3600000,
-    pollIntervalMs: number = 2000
+    pollIntervalMs: number = 2000,
+    options: WaitForCompletionOptions = {}
   ): Promise<any> {
     const startTime = Date.now();
-    let lastChunkIndex = 0;
+    const { resumeAfter, shouldStop } = options;
+    // Re-read the chunk containing the resume position, skipping delivered lines
+    let lastChunkIndex = resumeAfter ? Math.max(resumeAfter.chunkIndex - 1, 0) : 0;
     let metadata: any = null;
 
     logger.info(`[TASK ${taskId}] Waiting for job completion (timeout: ${timeoutMs}ms, poll interval: ${pollIntervalMs}ms)`);
 
     while (Date.now() - startTime < timeoutMs) {
+      if (shouldStop?.()) {
+        logger.info(`[TASK ${taskId}] Stopped waiting for completion`);
+        return metadata;
+      }
+
       try {
         // Poll for new logs
-        lastChunkIndex = await this.pollNewLogs(taskId, lastChunkIndex, onData);
+        lastChunkIndex = await this.pollNewLogs(taskId, lastChunkIndex, onData, resumeAfter);
 
         // Check metadata for completion status
         metadata = await this.readMetadata(taskId);
@@ -294,7 +748,7 @@ export class GCSLoggerService {
             logger.info(`[TASK ${taskId}] Job ${status}`);
 
             // Do one final poll for any remaining logs
-            await this.pollNewLogs(taskId, lastChunkIndex, onData);
+            await this.pollNewLogs(taskId, lastChunkIndex, onData, resumeAfter);
 
             return metadata;
           }
@@ -314,6 +768,22 @@ export class GCSLoggerService {
     throw new Error(`Timeout waiting for task ${taskId} to complete (${timeoutMs}ms exceeded)`);
   }
 
+  /**
+   * Folder a task's uploaded files go to: files/{taskId}/, or a subfolder of it
+   * The bucket also holds control objects (metadata, registry, queue, quotas, ...), so a
+   * caller-supplied subfolder may never point outside the task's own folder.
+   * @throws Error if the subfolder isn't a plain relative path
+   */
+  getUploadPrefix(taskId: string, subfolder?: string): string {
+    if (!subfolder) {
+      return `files/${taskId}`;
+    }
+    if (!/^[a-zA-Z0-9_-][a-zA-Z0-9._-]*(\/[a-zA-Z0-9_-][a-zA-Z0-9._-]*)*$/.test(subfolder)) {
+      throw new Error(`Invalid gcsPrefix ${JSON.stringify(subfolder)}: must be a relative path without . or .. segments`);
+    }
+    return `files/${taskId}/${subfolder}`;
+  }
+
   /**
    * Upload a single file to GCS
    * @param taskId - Task identifier for organizing uploads
@@ -332,6 +802,9 @@ export class GCSLoggerService {
     const relativePath = workspacePath
       ? path.relative(workspacePath, filePath)
       : path.basename(filePath);
+    if (relativePath === '..' || relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath)) {
+      throw new Error(`${filePath} is outside the workspace ${workspacePath}`);
+    }
     const prefix = gcsPrefix || `files/${taskId}`;
     const gcsPath = `${prefix}/${relativePath}`;
     const file = this.bucket.file(gcsPath);
@@ -361,6 +834,24 @@ export class GCSLoggerService {
     }
   }
 
+  /**
+   * Download all objects under a prefix into a local directory (keeping their paths relative to the prefix)
+   * @returns Number of files downloaded
+   */
+  async downloadFiles(gcsPrefix: string, localDir: string): Promise<number> {
+    const prefix = gcsPrefix.endsWith('/') ? gcsPrefix : `${gcsPrefix}/`;
+    const [files] = await this.bucket.getFiles({ prefix });
+
+    for (const file of files) {
+      const localPath = path.join(localDir, file.name.slice(prefix.length));
+      await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
+      await file.download({ destination: localPath });
+    }
+
+    logger.debug(`Downloaded ${files.length} files from gs://${this.bucketName}/${prefix} to ${localDir}`);
+    return files.length;
+  }
+
   /**
    * Upload files matching glob patterns to GCS
    * @param taskId - Task identifier
@@ -447,10 +938,11 @@ export class TaskLogger extends Writable {
   private writePromises: Promise<void>[] = [];
   private flushTimer?: NodeJS.Timeout;
 
-  constructor(bucket: Bucket, taskId: string) {
+  constructor(bucket: Bucket, taskId: string, chunkOffset: number = 0) {
     super({ objectMode: true });
     this.bucket = bucket;
     this.taskId = taskId;
+    this.chunkIndex = chunkOffset;
 
     logger.debug(`TaskLogger created for task: ${taskId}`);
   }
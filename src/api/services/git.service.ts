@@ -1,5 +1,6 @@
 import simpleGit from "simple-git";
 import { logger } from "../../utils/logger.js";
+import { TaskError } from "./task-error.js";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -33,7 +34,7 @@ export class GitService {
     const { gitRepo, targetPath, branch = 'main', depth = 1, sshKeyPath } = options;
 
     if (!this.isValidGitUrl(gitRepo)) {
-      throw new Error("Invalid git repository URL format. Use SSH (git@...) or HTTPS format.");
+      throw new TaskError("Invalid git repository URL format. Use SSH (git@...) or HTTPS format.", 'GIT_CLONE');
     }
 
     const isHttps = gitRepo.startsWith('http://') || gitRepo.startsWith('https://');
@@ -96,7 +97,7 @@ export class GitService {
         errorMessage = 'SSH host key verification failed. This should be handled by StrictHostKeyChecking=no.';
       }
 
-      throw new Error(`Failed to clone repository: ${errorMessage}`);
+      throw new TaskError(`Failed to clone repository: ${errorMessage}`, 'GIT_CLONE', 'git');
     }
   }
 
@@ -251,7 +252,7 @@ export class GitService {
       };
     } catch (error: any) {
       logger.error('Failed to commit changes:', error.message);
-      throw new Error(`Failed to commit: ${error.message}`);
+      throw new TaskError(`Failed to commit: ${error.message}`, 'GIT_COMMIT');
     }
   }
 
@@ -482,7 +483,7 @@ export class GitService {
 
         // If strategy is "fail", throw error immediately
         if (conflictStrategy === "fail") {
-          throw new Error('Push rejected. Remote has changes that are not in local branch. Use conflictStrategy: "auto" to enable automatic recovery.');
+          throw new TaskError('Push rejected. Remote has changes that are not in local branch. Use conflictStrategy: "auto" to enable automatic recovery.', 'GIT_PUSH_CONFLICT');
         }
 
         // Strategy is "auto" - attempt recovery
@@ -557,7 +558,7 @@ export class GitService {
         errorMessage = 'SSH key authentication failed or insufficient permissions.';
       }
 
-      throw new Error(`Failed to push: ${errorMessage}`);
+      throw new TaskError(`Failed to push: ${errorMessage}`, error instanceof TaskError ? error.code : 'GIT_PUSH');
     }
   }
 
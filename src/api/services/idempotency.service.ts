@@ -0,0 +1,162 @@
+import crypto from "crypto";
+import { GCSLoggerService } from "./gcs.service.js";
+import { AsyncRunResponse } from "../types/async-task.types.js";
+import { createModuleLogger } from "../../utils/logger.js";
+
+const logger = createModuleLogger('idempotency');
+
+/**
+ * Stored per Idempotency-Key (idempotency/{sha256(key)}.json)
+ */
+export interface IdempotencyRecord {
+  /** Task created for the key */
+  taskId: string;
+
+  /** Hash of the request body - a key can't be reused for a different request */
+  requestHash: string;
+
+  createdAt: string;
+
+  /** When the request currently processing the key claimed it (a stale claim can be taken over) */
+  claimedAt: string;
+
+  /** Response of the original request (absent while it is still being processed) */
+  response?: AsyncRunResponse;
+}
+
+/**
+ * Outcome of claiming a key
+ */
+export type IdempotencyClaim =
+  | { claimed: true }
+  | { claimed: false; record: IdempotencyRecord };
+
+/**
+ * Idempotency Service
+ * Makes task submission safe to retry: the first request with an Idempotency-Key
+ * claims it, later requests with the same key get the original response.
+ *
+ * Claims are create-only GCS writes (generation match 0), so concurrent retries
+ * on different service instances can't both create a task. A claim without a response
+ * that is older than the claim lease (its request crashed before completing or releasing
+ * it) is taken over with a generation-match write.
+ */
+export class IdempotencyService {
+  private static readonly PREFIX = 'idempotency/';
+  private static readonly MAX_KEY_LENGTH = 255;
+  private static readonly MAX_CLAIM_ATTEMPTS = 3;
+  private static readonly CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+  private ttlMs: number;
+
+  constructor(private gcsLogger: GCSLoggerService) {
+    // Keys are reusable for a new request once their record has expired
+    this.ttlMs = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10) * 60 * 60 * 1000;
+  }
+
+  /**
+   * Validate an Idempotency-Key header value
+   * @returns Error message, or undefined if valid
+   */
+  static validateKey(key: string): string | undefined {
+    if (!key.trim() || key.length > IdempotencyService.MAX_KEY_LENGTH) {
+      return `Idempotency-Key must be 1-${IdempotencyService.MAX_KEY_LENGTH} characters`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Hash a request body (key order doesn't matter)
+   */
+  static hashRequest(body: unknown): string {
+    return crypto.createHash('sha256').update(canonicalJson(body)).digest('hex');
+  }
+
+  /**
+   * Claim a key for a new task
+   * @returns claimed: false with the existing record if the key is already in use
+   */
+  async claim(key: string, requestHash: string, taskId: string): Promise<IdempotencyClaim> {
+    const recordPath = this.recordPath(key);
+    const now = new Date().toISOString();
+    const record: IdempotencyRecord = { taskId, requestHash, createdAt: now, claimedAt: now };
+
+    for (let attempt = 1; attempt <= IdempotencyService.MAX_CLAIM_ATTEMPTS; attempt++) {
+      if (await this.gcsLogger.writeJsonIfGenerationMatch(recordPath, record, 0)) {
+        return { claimed: true };
+      }
+
+      const existing = await this.gcsLogger.readJsonWithGeneration(recordPath);
+      if (!existing) {
+        continue; // Released concurrently - try to create it again
+      }
+
+      const existingRecord = existing.data as IdempotencyRecord;
+      const expired = Date.now() - new Date(existingRecord.createdAt).getTime() >= this.ttlMs;
+      // Records from before claimedAt was stored fall back to createdAt
+      const claimedAt = new Date(existingRecord.claimedAt || existingRecord.createdAt).getTime();
+      const abandoned = !existingRecord.response && Date.now() - claimedAt > IdempotencyService.CLAIM_LEASE_MS;
+      if (!expired && !abandoned) {
+        return { claimed: false, record: existingRecord };
+      }
+
+      // Expired or abandoned - replace it, unless another request just did
+      if (expired) {
+        logger.debug(`Idempotency key for task ${existingRecord.taskId} expired, reusing it`);
+      } else {
+        logger.warn(`Idempotency key claim for task ${existingRecord.taskId} was never completed, taking it over`);
+      }
+      if (await this.gcsLogger.writeJsonIfGenerationMatch(recordPath, record, existing.generation)) {
+        return { claimed: true };
+      }
+    }
+
+    throw new Error('Failed to claim Idempotency-Key: too many concurrent requests');
+  }
+
+  /**
+   * Store the response of the request that claimed the key
+   * Does nothing if the claim was taken over by another request meanwhile.
+   */
+  async complete(key: string, response: AsyncRunResponse): Promise<void> {
+    const recordPath = this.recordPath(key);
+    const existing = await this.gcsLogger.readJsonWithGeneration(recordPath);
+    if (!existing || existing.data.taskId !== response.taskId) {
+      return;
+    }
+    await this.gcsLogger.writeJsonIfGenerationMatch(recordPath, { ...existing.data, response }, existing.generation);
+  }
+
+  /**
+   * Release a key whose request failed, so a retry can create the task
+   * Does nothing if the claim was taken over by another request meanwhile.
+   */
+  async release(key: string, taskId: string): Promise<void> {
+    const recordPath = this.recordPath(key);
+    const existing = await this.gcsLogger.readJsonWithGeneration(recordPath);
+    if (existing?.data.taskId === taskId) {
+      await this.gcsLogger.deleteObject(recordPath, existing.generation);
+    }
+  }
+
+  private recordPath(key: string): string {
+    const keyHash = crypto.createHash('sha256').update(key).digest('hex');
+    return `${IdempotencyService.PREFIX}${keyHash}.json`;
+  }
+}
+
+/**
+ * JSON with object keys sorted at every level
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
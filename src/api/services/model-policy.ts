@@ -0,0 +1,144 @@
+import { createModuleLogger } from "../../utils/logger.js";
+
+const logger = createModuleLogger('proxy');
+
+/**
+ * Model tiers, cheapest first
+ */
+const MODEL_TIERS = ['haiku', 'sonnet', 'opus'] as const;
+
+export type ModelTier = typeof MODEL_TIERS[number];
+
+/**
+ * Per-deployment model rules (MODEL_POLICY, JSON)
+ * Model patterns match the whole model ID, with `*` as a wildcard.
+ */
+export interface ModelPolicyConfig {
+  /** Rewrite requested models before the other rules, e.g. { "claude-opus-*": "claude-sonnet-4-5" } */
+  modelMap?: Record<string, string>;
+
+  /** Only models matching one of these patterns may be called */
+  allowedModels?: string[];
+
+  /** Most expensive tier that may be called (models of unknown tier are rejected) */
+  maxTier?: ModelTier;
+}
+
+/**
+ * Outcome of applying the policy to one model call
+ */
+export type ModelPolicyDecision =
+  | { allowed: true; model: string; rewrittenFrom?: string }
+  | { allowed: false; reason: string };
+
+/**
+ * ModelPolicy
+ * Decides which model a call may use, independent of what the CLI requested
+ */
+export class ModelPolicy {
+  constructor(private config: ModelPolicyConfig) {}
+
+  /**
+   * Load the policy from MODEL_POLICY
+   * @returns undefined if no policy is configured
+   * @throws Error if MODEL_POLICY is not a valid policy
+   */
+  static fromEnv(): ModelPolicy | undefined {
+    const raw = process.env.MODEL_POLICY;
+    if (!raw?.trim()) {
+      return undefined;
+    }
+
+    let config: unknown;
+    try {
+      config = JSON.parse(raw);
+    } catch {
+      throw new Error('MODEL_POLICY is not valid JSON');
+    }
+
+    const error = ModelPolicy.validate(config);
+    if (error) {
+      throw new Error(`Invalid MODEL_POLICY: ${error}`);
+    }
+    return new ModelPolicy(config as ModelPolicyConfig);
+  }
+
+  /**
+   * Validate a policy configuration
+   * @returns Error message, or undefined if valid
+   */
+  static validate(config: unknown): string | undefined {
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      return 'policy must be an object';
+    }
+
+    const { modelMap, allowedModels, maxTier } = config as ModelPolicyConfig;
+    if (modelMap !== undefined) {
+      if (!modelMap || typeof modelMap !== 'object' || Array.isArray(modelMap)) {
+        return 'modelMap must be an object';
+      }
+      if (Object.values(modelMap).some(model => typeof model !== 'string' || !model)) {
+        return 'modelMap values must be model IDs';
+      }
+    }
+    if (allowedModels !== undefined
+      && (!Array.isArray(allowedModels) || allowedModels.some(pattern => typeof pattern !== 'string'))) {
+      return 'allowedModels must be an array of model patterns';
+    }
+    if (maxTier !== undefined && !MODEL_TIERS.includes(maxTier)) {
+      return `maxTier must be one of ${MODEL_TIERS.join(', ')}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Apply the rules to a requested model: rewrite it (modelMap), then check it
+   * against allowedModels and maxTier
+   */
+  apply(requestedModel: string): ModelPolicyDecision {
+    let model = requestedModel;
+
+    for (const [pattern, replacement] of Object.entries(this.config.modelMap || {})) {
+      if (matchesModelPattern(model, pattern)) {
+        model = replacement;
+        break;
+      }
+    }
+
+    const { allowedModels, maxTier } = this.config;
+    if (allowedModels && !allowedModels.some(pattern => matchesModelPattern(model, pattern))) {
+      return { allowed: false, reason: `Model ${model} is not allowed by the model policy` };
+    }
+
+    if (maxTier) {
+      const tier = getModelTier(model);
+      if (!tier) {
+        return { allowed: false, reason: `Model ${model} has an unknown tier (model policy maxTier: ${maxTier})` };
+      }
+      if (MODEL_TIERS.indexOf(tier) > MODEL_TIERS.indexOf(maxTier)) {
+        return { allowed: false, reason: `Model ${model} exceeds the model policy's maximum tier (${maxTier})` };
+      }
+    }
+
+    if (model !== requestedModel) {
+      logger.debug(`[Proxy] Model policy rewrote ${requestedModel} to ${model}`);
+      return { allowed: true, model, rewrittenFrom: requestedModel };
+    }
+    return { allowed: true, model };
+  }
+}
+
+/**
+ * Tier of a model ID (Anthropic, Vertex or Bedrock naming)
+ */
+export function getModelTier(model: string): ModelTier | undefined {
+  return MODEL_TIERS.find(tier => model.toLowerCase().includes(tier));
+}
+
+function matchesModelPattern(model: string, pattern: string): boolean {
+  const regex = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}$`).test(model);
+}
@@ -0,0 +1,47 @@
+/**
+ * Token counts as reported in the `usage` object of Anthropic API responses
+ */
+export interface ApiUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+/**
+ * Price per million tokens in USD
+ */
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices by model family, matched in order against the model ID
+ * Cache writes cost 1.25x the input price, cache reads 0.1x.
+ */
+const MODEL_PRICES: Array<{ pattern: RegExp; price: ModelPrice }> = [
+  { pattern: /opus-4-[5-9]/, price: { input: 5, output: 25 } },
+  { pattern: /opus/, price: { input: 15, output: 75 } },
+  { pattern: /haiku-4/, price: { input: 1, output: 5 } },
+  { pattern: /3-5-haiku|haiku-3-5/, price: { input: 0.8, output: 4 } },
+  { pattern: /haiku/, price: { input: 0.25, output: 1.25 } },
+  { pattern: /sonnet/, price: { input: 3, output: 15 } }
+];
+
+/** Unknown models are priced like Sonnet */
+const DEFAULT_PRICE: ModelPrice = { input: 3, output: 15 };
+
+/**
+ * Estimate the cost in USD of one API response's usage
+ */
+export function estimateCostUsd(model: string | undefined, usage: ApiUsage): number {
+  const price = MODEL_PRICES.find(p => model && p.pattern.test(model))?.price || DEFAULT_PRICE;
+
+  const inputCost = (usage.input_tokens || 0) * price.input
+    + (usage.cache_creation_input_tokens || 0) * price.input * 1.25
+    + (usage.cache_read_input_tokens || 0) * price.input * 0.1;
+  const outputCost = (usage.output_tokens || 0) * price.output;
+
+  return (inputCost + outputCost) / 1_000_000;
+}
@@ -0,0 +1,362 @@
+import http from 'http';
+import crypto from 'crypto';
+import { URL } from 'url';
+import { GoogleAuth } from 'google-auth-library';
+import { BedrockConfig, RunRequest, VertexConfig } from '../types/request.types.js';
+import { createModuleLogger } from '../../utils/logger.js';
+
+const logger = createModuleLogger('proxy');
+
+/**
+ * ModelProvider
+ * Everything the proxy needs to know about a model backend:
+ * how the CLI is pointed at the proxy, where requests go, and how they are authenticated.
+ * The CLI itself never sees real credentials.
+ */
+export interface ModelProvider {
+  readonly name: string;
+
+  /**
+   * Environment variables that point the Claude CLI at the proxy
+   */
+  getClaudeEnv(proxyPort: number): Record<string, string>;
+
+  /**
+   * Upstream URL for a request path received by the proxy
+   * @param baseUrl - Gateway that replaces the provider's endpoint (upstreamUrl / UPSTREAM_BASE_URL)
+   */
+  getUpstreamUrl(requestUrl: string, baseUrl?: string): URL;
+
+  /**
+   * Whether a request is a model call (usage is read from its response)
+   */
+  isMessagesRequest(method: string, pathname: string): boolean;
+
+  /**
+   * Model requested by a model call (in the body or the URL path, depending on the backend)
+   */
+  getRequestModel(url: URL, body: Buffer): string | undefined;
+
+  /**
+   * Rewrite a model call to use another model
+   */
+  setRequestModel(url: URL, body: Buffer, model: string): { url: URL; body: Buffer };
+
+  /**
+   * Add credentials to an outgoing request
+   * Called before every attempt (tokens may be refreshed, signatures are time-bound)
+   */
+  authorize(method: string, url: URL, headers: http.OutgoingHttpHeaders, body: Buffer): Promise<void>;
+}
+
+/**
+ * Anthropic API (api.anthropic.com) with an API key or OAuth token
+ */
+export class AnthropicProvider implements ModelProvider {
+  readonly name = 'anthropic';
+
+  constructor(private apiKey?: string, private oauthToken?: string) {
+    if (!apiKey && !oauthToken) {
+      throw new Error('Either API key or OAuth token is required for proxy');
+    }
+  }
+
+  getClaudeEnv(proxyPort: number): Record<string, string> {
+    const env: Record<string, string> = {
+      // Use ANTHROPIC_BASE_URL to only intercept Anthropic API traffic
+      ANTHROPIC_BASE_URL: `http://127.0.0.1:${proxyPort}`
+    };
+
+    // SECURITY: Pass dummy credential that matches the type we have
+    // Proxy will replace it with the real credential
+    if (this.apiKey) {
+      env.ANTHROPIC_API_KEY = 'dummy-api-key-proxy-will-replace';
+    } else {
+      env.CLAUDE_CODE_OAUTH_TOKEN = 'dummy-oauth-token-proxy-will-replace';
+    }
+
+    return env;
+  }
+
+  getUpstreamUrl(requestUrl: string, baseUrl?: string): URL {
+    // Claude SDK sends requests like GET http://localhost:8765/v1/messages
+    // which are forwarded to https://api.anthropic.com/v1/messages
+    return resolveUpstreamUrl(requestUrl, baseUrl || 'https://api.anthropic.com');
+  }
+
+  isMessagesRequest(method: string, pathname: string): boolean {
+    return method === 'POST' && pathname === '/v1/messages';
+  }
+
+  getRequestModel(_url: URL, body: Buffer): string | undefined {
+    return parseJsonBody(body)?.model;
+  }
+
+  setRequestModel(url: URL, body: Buffer, model: string): { url: URL; body: Buffer } {
+    return { url, body: Buffer.from(JSON.stringify({ ...parseJsonBody(body), model })) };
+  }
+
+  async authorize(_method: string, _url: URL, headers: http.OutgoingHttpHeaders): Promise<void> {
+    // Inject authentication based on what header Claude sent
+    // This allows Claude to determine the auth type based on env vars
+    if (headers['x-api-key']) {
+      // Claude sent x-api-key (from ANTHROPIC_API_KEY env var)
+      if (this.apiKey) {
+        headers['x-api-key'] = this.apiKey;
+        logger.debug(`[Proxy] Replacing x-api-key with real API key: ${this.apiKey.substring(0, 20)}...`);
+      } else {
+        logger.error('[Proxy] WARNING: Claude sent x-api-key but we have no API key to inject!');
+      }
+      delete headers['authorization']; // Ensure no conflicting auth
+    } else if (headers['authorization']) {
+      // Claude sent authorization header (from CLAUDE_CODE_OAUTH_TOKEN env var)
+      if (this.oauthToken) {
+        headers['authorization'] = `Bearer ${this.oauthToken}`;
+        logger.debug(`[Proxy] Replacing authorization with real OAuth token: ${this.oauthToken.substring(0, 30)}...`);
+      } else {
+        logger.error('[Proxy] WARNING: Claude sent authorization but we have no OAuth token to inject!');
+      }
+      delete headers['x-api-key']; // Ensure no conflicting auth
+    } else {
+      logger.error('[Proxy] WARNING: Claude sent neither x-api-key nor authorization header!');
+    }
+  }
+}
+
+/**
+ * Claude on Vertex AI, authenticated with the job's service account
+ */
+export class VertexProvider implements ModelProvider {
+  readonly name = 'vertex';
+  private auth = new GoogleAuth({ scopes: ['https://www.googleapis.com/auth/cloud-platform'] });
+
+  constructor(private config: VertexConfig) {}
+
+  getClaudeEnv(proxyPort: number): Record<string, string> {
+    return {
+      CLAUDE_CODE_USE_VERTEX: '1',
+      CLAUDE_CODE_SKIP_VERTEX_AUTH: '1', // The proxy adds the access token
+      ANTHROPIC_VERTEX_BASE_URL: `http://127.0.0.1:${proxyPort}/v1`,
+      ANTHROPIC_VERTEX_PROJECT_ID: this.config.projectId,
+      CLOUD_ML_REGION: this.config.region
+    };
+  }
+
+  getUpstreamUrl(requestUrl: string, baseUrl?: string): URL {
+    const host = this.config.region === 'global'
+      ? 'aiplatform.googleapis.com'
+      : `${this.config.region}-aiplatform.googleapis.com`;
+    return resolveUpstreamUrl(requestUrl, baseUrl || `https://${host}`);
+  }
+
+  isMessagesRequest(method: string, pathname: string): boolean {
+    return method === 'POST' && /:(stream)?rawPredict$/i.test(pathname);
+  }
+
+  // Path: /v1/projects/{project}/locations/{region}/publishers/anthropic/models/{model}:rawPredict
+  getRequestModel(url: URL): string | undefined {
+    const match = url.pathname.match(/\/models\/([^/:]+):/);
+    return match ? decodeURIComponent(match[1]) : undefined;
+  }
+
+  setRequestModel(url: URL, body: Buffer, model: string): { url: URL; body: Buffer } {
+    const rewritten = new URL(url);
+    rewritten.pathname = url.pathname.replace(/\/models\/[^/:]+:/, `/models/${encodeURIComponent(model)}:`);
+    return { url: rewritten, body };
+  }
+
+  async authorize(_method: string, _url: URL, headers: http.OutgoingHttpHeaders): Promise<void> {
+    // google-auth-library caches the token and refreshes it before expiry
+    const client = await this.auth.getClient();
+    const accessToken = await client.getAccessToken();
+    if (!accessToken.token) {
+      throw new Error('Failed to obtain Vertex AI access token');
+    }
+
+    delete headers['x-api-key'];
+    headers['authorization'] = `Bearer ${accessToken.token}`;
+  }
+}
+
+/**
+ * Claude on Amazon Bedrock, with a Bedrock API key or SigV4-signed requests
+ */
+export class BedrockProvider implements ModelProvider {
+  readonly name = 'bedrock';
+
+  constructor(private config: BedrockConfig) {}
+
+  getClaudeEnv(proxyPort: number): Record<string, string> {
+    return {
+      CLAUDE_CODE_USE_BEDROCK: '1',
+      CLAUDE_CODE_SKIP_BEDROCK_AUTH: '1', // The proxy signs requests
+      ANTHROPIC_BEDROCK_BASE_URL: `http://127.0.0.1:${proxyPort}`,
+      AWS_REGION: this.config.region
+    };
+  }
+
+  getUpstreamUrl(requestUrl: string, baseUrl?: string): URL {
+    return resolveUpstreamUrl(requestUrl, baseUrl || `https://bedrock-runtime.${this.config.region}.amazonaws.com`);
+  }
+
+  isMessagesRequest(method: string, pathname: string): boolean {
+    return method === 'POST' && /^\/model\/[^/]+\/invoke(-with-response-stream)?$/.test(pathname);
+  }
+
+  // Path: /model/{modelId}/invoke[-with-response-stream]
+  getRequestModel(url: URL): string | undefined {
+    const match = url.pathname.match(/^\/model\/([^/]+)\//);
+    return match ? decodeURIComponent(match[1]) : undefined;
+  }
+
+  setRequestModel(url: URL, body: Buffer, model: string): { url: URL; body: Buffer } {
+    const rewritten = new URL(url);
+    rewritten.pathname = url.pathname.replace(/^\/model\/[^/]+\//, `/model/${encodeURIComponent(model)}/`);
+    return { url: rewritten, body };
+  }
+
+  async authorize(method: string, url: URL, headers: http.OutgoingHttpHeaders, body: Buffer): Promise<void> {
+    delete headers['x-api-key'];
+    delete headers['authorization'];
+
+    if (this.config.apiKey) {
+      headers['authorization'] = `Bearer ${this.config.apiKey}`;
+      return;
+    }
+
+    this.signV4(method, url, headers, body);
+  }
+
+  /**
+   * AWS Signature Version 4 (service: bedrock)
+   */
+  private signV4(method: string, url: URL, headers: http.OutgoingHttpHeaders, body: Buffer): void {
+    const { accessKeyId, secretAccessKey, sessionToken, region } = this.config;
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const dateStamp = amzDate.slice(0, 8);
+
+    headers['host'] = url.host;
+    headers['x-amz-date'] = amzDate;
+    if (sessionToken) {
+      headers['x-amz-security-token'] = sessionToken;
+    } else {
+      delete headers['x-amz-security-token'];
+    }
+
+    // Path segments are URI-encoded twice for every service except S3
+    const canonicalUri = url.pathname
+      .split('/')
+      .map(segment => encodeRfc3986(encodeRfc3986(decodeURIComponent(segment))))
+      .join('/');
+    const canonicalQuery = [...url.searchParams.entries()]
+      .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+      .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1))
+      .map(([key, value]) => `${key}=${value}`)
+      .join('&');
+
+    const signedHeaderNames = ['content-type', 'host', 'x-amz-date', 'x-amz-security-token']
+      .filter(name => headers[name] !== undefined);
+    const canonicalHeaders = signedHeaderNames
+      .map(name => `${name}:${String(headers[name]).trim().replace(/\s+/g, ' ')}\n`)
+      .join('');
+    const signedHeaders = signedHeaderNames.join(';');
+
+    const canonicalRequest = [
+      method,
+      canonicalUri,
+      canonicalQuery,
+      canonicalHeaders,
+      signedHeaders,
+      sha256Hex(body)
+    ].join('\n');
+
+    const scope = `${dateStamp}/${region}/bedrock/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const kDate = hmac(`AWS4${secretAccessKey}`, dateStamp);
+    const kRegion = hmac(kDate, region);
+    const kService = hmac(kRegion, 'bedrock');
+    const kSigning = hmac(kService, 'aws4_request');
+    const signature = hmac(kSigning, stringToSign).toString('hex');
+
+    headers['authorization'] = `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  }
+}
+
+/**
+ * Append a request path (with its query) to a base URL, keeping the base URL's own path
+ * (e.g. https://llm-gateway.corp.example/anthropic + /v1/messages)
+ */
+function resolveUpstreamUrl(requestUrl: string, baseUrl: string): URL {
+  return new URL(baseUrl.replace(/\/+$/, '') + requestUrl);
+}
+
+function parseJsonBody(body: Buffer): any {
+  try {
+    return JSON.parse(body.toString('utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Validate the provider settings of a request
+ * @returns Error message, or undefined if valid
+ */
+export function validateProviderConfig(request: Partial<RunRequest>): string | undefined {
+  const provider = request.provider || 'anthropic';
+
+  switch (provider) {
+    case 'anthropic':
+      if (!request.anthropicApiKey && !request.anthropicOAuthToken) {
+        return 'Either anthropicApiKey or anthropicOAuthToken is required';
+      }
+      return undefined;
+
+    case 'vertex':
+      if (!request.vertex?.projectId || !request.vertex?.region) {
+        return 'vertex.projectId and vertex.region are required when provider is "vertex"';
+      }
+      return undefined;
+
+    case 'bedrock': {
+      const bedrock = request.bedrock;
+      if (!bedrock?.region) {
+        return 'bedrock.region is required when provider is "bedrock"';
+      }
+      if (!bedrock.apiKey && !(bedrock.accessKeyId && bedrock.secretAccessKey)) {
+        return 'bedrock.apiKey or bedrock.accessKeyId and bedrock.secretAccessKey are required when provider is "bedrock"';
+      }
+      return undefined;
+    }
+
+    default:
+      return 'provider must be "anthropic", "vertex" or "bedrock"';
+  }
+}
+
+/**
+ * Create the model provider for a (validated) request
+ */
+export function createModelProvider(request: RunRequest): ModelProvider {
+  switch (request.provider || 'anthropic') {
+    case 'vertex':
+      return new VertexProvider(request.vertex!);
+    case 'bedrock':
+      return new BedrockProvider(request.bedrock!);
+    default:
+      return new AnthropicProvider(request.anthropicApiKey, request.anthropicOAuthToken);
+  }
+}
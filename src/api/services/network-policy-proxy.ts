@@ -0,0 +1,330 @@
+import http from 'http';
+import net from 'net';
+import dns from 'dns';
+import { URL } from 'url';
+import { NetworkPolicy } from '../types/request.types.js';
+import { createModuleLogger } from '../../utils/logger.js';
+
+const logger = createModuleLogger('proxy');
+
+/**
+ * Structured event emitted into the task log when a connection is refused
+ */
+export interface NetworkPolicyEvent {
+  type: 'network';
+  event: 'denied';
+  method: string;
+  host: string;
+  port: number;
+  timestamp: string;
+  reason: string;
+}
+
+/**
+ * Where an allowed connection goes (a resolved address when allowed by CIDR,
+ * so the checked address is the one connected to)
+ */
+interface ConnectTarget {
+  address: string;
+  port: number;
+}
+
+/**
+ * NetworkPolicyProxy - A local forward proxy that only lets the Claude CLI and its tools
+ * reach the hosts in the task's network policy.
+ *
+ * HTTPS goes through CONNECT tunnels (TLS stays end-to-end), plain HTTP through
+ * absolute-URI requests. Hosts are allowed by name (exact or *.domain) or, for IP
+ * addresses and names resolving into an allowed CIDR, by address.
+ *
+ * Enforcement relies on programs honouring HTTP_PROXY/HTTPS_PROXY - raw sockets
+ * (e.g. SSH) are not intercepted.
+ */
+export class NetworkPolicyProxy {
+  private server?: http.Server;
+  private port: number = 0;
+  private hostnames: string[] = [];
+  private domainSuffixes: string[] = [];
+  private addresses = new net.BlockList();
+  private hasAddressRules = false;
+  private sockets = new Set<net.Socket>();
+  private deniedCount = 0;
+
+  constructor(policy: NetworkPolicy, private onEvent?: (event: NetworkPolicyEvent) => void) {
+    for (const entry of policy.allowedHosts.map(host => host.trim().toLowerCase())) {
+      const [address, prefix] = entry.split('/');
+      const family = net.isIP(address);
+
+      if (family) {
+        const type = family === 6 ? 'ipv6' : 'ipv4';
+        if (prefix !== undefined) {
+          this.addresses.addSubnet(address, parseInt(prefix, 10), type);
+        } else {
+          this.addresses.addAddress(address, type);
+        }
+        this.hasAddressRules = true;
+      } else if (entry.startsWith('*.')) {
+        this.domainSuffixes.push(entry.slice(1)); // ".example.com"
+      } else {
+        this.hostnames.push(entry);
+      }
+    }
+  }
+
+  /**
+   * Validate a network policy from a request body
+   * @returns Error message, or undefined if valid
+   */
+  static validate(policy: unknown): string | undefined {
+    if (policy === undefined) {
+      return undefined;
+    }
+    if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+      return 'networkPolicy must be an object';
+    }
+
+    const { allowedHosts } = policy as NetworkPolicy;
+    if (!Array.isArray(allowedHosts)) {
+      return 'networkPolicy.allowedHosts must be an array';
+    }
+
+    for (const entry of allowedHosts) {
+      if (typeof entry !== 'string' || !entry.trim()) {
+        return 'networkPolicy.allowedHosts entries must be non-empty strings';
+      }
+
+      const [address, prefix] = entry.trim().split('/');
+      const family = net.isIP(address);
+      if (prefix !== undefined) {
+        const maxPrefix = family === 6 ? 128 : 32;
+        if (!family || !/^\d+$/.test(prefix) || parseInt(prefix, 10) > maxPrefix) {
+          return `networkPolicy.allowedHosts: invalid CIDR ${entry}`;
+        }
+      } else if (!family && !/^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/i.test(address)) {
+        return `networkPolicy.allowedHosts: invalid hostname ${entry}`;
+      }
+    }
+    return undefined;
+  }
+
+  async start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server = http.createServer((clientReq, clientRes) => {
+        this.handleRequest(clientReq, clientRes).catch((err) => {
+          logger.error('[NetworkPolicy] Unexpected error:', err.message);
+          if (!clientRes.headersSent) {
+            clientRes.writeHead(502);
+            clientRes.end('Bad Gateway');
+          }
+        });
+      });
+
+      this.server.on('connect', (req: http.IncomingMessage, clientSocket: net.Socket, head: Buffer) => {
+        this.handleConnect(req, clientSocket, head).catch((err) => {
+          logger.error('[NetworkPolicy] Unexpected error:', err.message);
+          clientSocket.destroy();
+        });
+      });
+
+      this.server.on('connection', (socket: net.Socket) => {
+        this.sockets.add(socket);
+        socket.on('close', () => this.sockets.delete(socket));
+      });
+
+      this.server.listen(0, '127.0.0.1', () => {
+        const address = this.server!.address();
+        if (typeof address === 'object' && address) {
+          this.port = address.port;
+        }
+        logger.debug(`[NetworkPolicy] ✓ Started on 127.0.0.1:${this.port}`);
+        resolve();
+      });
+
+      this.server.on('error', (err) => {
+        logger.error('[NetworkPolicy] Server error:', err);
+        reject(err);
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    // Open tunnels would keep the server from closing
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+
+    return new Promise((resolve) => {
+      this.server!.close(() => {
+        logger.debug('[NetworkPolicy] ✓ Stopped');
+        resolve();
+      });
+    });
+  }
+
+  getPort(): number {
+    return this.port;
+  }
+
+  /**
+   * Number of connections refused so far
+   */
+  getDeniedCount(): number {
+    return this.deniedCount;
+  }
+
+  /**
+   * Environment variables that route the Claude CLI's and tools' HTTP(S) traffic through this proxy
+   * Local traffic (the credential proxy) is excluded.
+   */
+  getClaudeEnv(): Record<string, string> {
+    const proxyUrl = `http://127.0.0.1:${this.port}`;
+    return {
+      HTTP_PROXY: proxyUrl,
+      HTTPS_PROXY: proxyUrl,
+      http_proxy: proxyUrl,
+      https_proxy: proxyUrl,
+      NO_PROXY: '127.0.0.1,localhost',
+      no_proxy: '127.0.0.1,localhost',
+      // Telemetry and update checks would only show up as denied connections
+      CLAUDE_CODE_DISABLE_NONESSENTIAL_TRAFFIC: '1'
+    };
+  }
+
+  /**
+   * HTTPS (and any other TCP) traffic: CONNECT host:port
+   */
+  private async handleConnect(req: http.IncomingMessage, clientSocket: net.Socket, head: Buffer): Promise<void> {
+    const { hostname, port } = new URL(`http://${req.url}`);
+    const host = hostname.replace(/^\[|\]$/g, '');
+    const targetPort = parseInt(port, 10) || 443;
+
+    const target = await this.check('CONNECT', host, targetPort);
+    if (!target) {
+      clientSocket.end('HTTP/1.1 403 Forbidden\r\ncontent-type: text/plain\r\n\r\nBlocked by network policy\n');
+      return;
+    }
+
+    const upstream = net.connect(target.port, target.address, () => {
+      clientSocket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      if (head.length > 0) {
+        upstream.write(head);
+      }
+      upstream.pipe(clientSocket);
+      clientSocket.pipe(upstream);
+    });
+
+    upstream.on('error', (err) => {
+      logger.warn(`[NetworkPolicy] CONNECT ${host}:${targetPort} failed: ${err.message}`);
+      if (clientSocket.writable) {
+        clientSocket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+      }
+    });
+    clientSocket.on('error', () => upstream.destroy());
+    clientSocket.on('close', () => upstream.destroy());
+  }
+
+  /**
+   * Plain HTTP: GET http://host/path
+   */
+  private async handleRequest(clientReq: http.IncomingMessage, clientRes: http.ServerResponse): Promise<void> {
+    let targetUrl: URL;
+    try {
+      targetUrl = new URL(clientReq.url || '');
+    } catch {
+      clientRes.writeHead(400);
+      clientRes.end('Bad Request: absolute URL required');
+      return;
+    }
+
+    const method = clientReq.method || 'GET';
+    const host = targetUrl.hostname.replace(/^\[|\]$/g, '');
+    const target = await this.check(method, host, parseInt(targetUrl.port, 10) || 80);
+    if (!target) {
+      clientReq.resume();
+      clientRes.writeHead(403, { 'content-type': 'text/plain' });
+      clientRes.end('Blocked by network policy\n');
+      return;
+    }
+
+    const headers: http.OutgoingHttpHeaders = { ...clientReq.headers };
+    delete headers['proxy-connection'];
+    delete headers['proxy-authorization'];
+
+    const proxyReq = http.request({
+      host: target.address,
+      port: target.port,
+      path: targetUrl.pathname + targetUrl.search,
+      method,
+      headers
+    }, (proxyRes) => {
+      clientRes.writeHead(proxyRes.statusCode || 502, proxyRes.headers);
+      proxyRes.pipe(clientRes);
+    });
+
+    proxyReq.on('error', (err) => {
+      logger.warn(`[NetworkPolicy] ${method} ${targetUrl.host} failed: ${err.message}`);
+      if (!clientRes.headersSent) {
+        clientRes.writeHead(502);
+        clientRes.end('Bad Gateway');
+      }
+    });
+
+    clientReq.pipe(proxyReq);
+  }
+
+  /**
+   * Check a destination against the policy
+   * @returns Where to connect, or undefined if denied (the denial is logged and emitted)
+   */
+  private async check(method: string, host: string, port: number): Promise<ConnectTarget | undefined> {
+    const name = host.toLowerCase();
+    const family = net.isIP(name);
+
+    if (family) {
+      if (this.addresses.check(name, family === 6 ? 'ipv6' : 'ipv4')) {
+        return { address: name, port };
+      }
+    } else {
+      if (this.hostnames.includes(name) || this.domainSuffixes.some(suffix => name.endsWith(suffix))) {
+        return { address: name, port };
+      }
+
+      // Names are allowed if they resolve into an allowed CIDR
+      if (this.hasAddressRules) {
+        try {
+          const resolved = await dns.promises.lookup(name, { all: true });
+          const allowed = resolved.find(({ address, family }) =>
+            this.addresses.check(address, family === 6 ? 'ipv6' : 'ipv4')
+          );
+          if (allowed) {
+            return { address: allowed.address, port };
+          }
+        } catch (err: any) {
+          logger.debug(`[NetworkPolicy] Could not resolve ${name}: ${err.message}`);
+        }
+      }
+    }
+
+    const reason = `${host} is not in the network policy's allowedHosts`;
+    this.deniedCount++;
+    logger.warn(`[NetworkPolicy] Denied ${method} ${host}:${port} - ${reason}`);
+    try {
+      this.onEvent?.({
+        type: 'network',
+        event: 'denied',
+        method,
+        host,
+        port,
+        timestamp: new Date().toISOString(),
+        reason
+      });
+    } catch (err: any) {
+      logger.error('[NetworkPolicy] Event handler failed:', err.message);
+    }
+    return undefined;
+  }
+}
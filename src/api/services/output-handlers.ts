@@ -3,7 +3,10 @@ import axios from "axios";
 import { ClaudeRunResult } from "../../claude-runner.js";
 import { GCSLoggerService, TaskLogger } from "./gcs.service.js";
 import { GitService } from "./git.service.js";
-import { AsyncTaskResult, AsyncTaskMetadata } from "../types/async-task.types.js";
+import { UsageTracker } from "./usage-tracker.js";
+import { TaskRetry } from "./task-retry.service.js";
+import { TaskError, TaskFailure } from "./task-error.js";
+import { AsyncTaskResult, AsyncTaskMetadata, StageSummary, TaskErrorCode } from "../types/async-task.types.js";
 import { logger } from "../../utils/logger.js";
 
 /**
@@ -23,8 +26,14 @@ export interface OutputHandler {
 
   /**
    * Called when Claude execution completes
+   * @param failure - Classified cause of a failure (errorCode, failurePhase, retryable)
    */
-  onComplete(result: ClaudeRunResult, durationMs: number): Promise<void>;
+  onComplete(result: ClaudeRunResult, durationMs: number, failure?: TaskFailure): Promise<void>;
+
+  /**
+   * Called after each stage of a multi-stage task (before onComplete/onCancel)
+   */
+  onStageComplete?(stage: StageSummary): Promise<void>;
 
   /**
    * Called when task is cancelled
@@ -86,7 +95,14 @@ export class SSEOutputHandler implements OutputHandler {
     (this.res as any).flush?.();
   }
 
-  async onComplete(result: ClaudeRunResult, _durationMs: number): Promise<void> {
+  async onStageComplete(stage: StageSummary): Promise<void> {
+    if (this.connectionClosed) return;
+
+    this.res.write(`event: stage\ndata: ${JSON.stringify(stage)}\n\n`);
+    (this.res as any).flush?.();
+  }
+
+  async onComplete(result: ClaudeRunResult, _durationMs: number, failure?: TaskFailure): Promise<void> {
     if (this.connectionClosed) return;
 
     logger.debug(`Claude process completed with exit code: ${result.exitCode}`);
@@ -94,7 +110,9 @@ export class SSEOutputHandler implements OutputHandler {
     if (result.exitCode !== 0) {
       this.res.write(`event: error\ndata: ${JSON.stringify({
         error: `Claude process exited with code ${result.exitCode}`,
-        stderr: result.error
+        stderr: result.error,
+        errorCode: failure?.errorCode,
+        failurePhase: failure?.failurePhase
       })}\n\n`);
     }
 
@@ -131,8 +149,10 @@ export class GCSOutputHandler implements OutputHandler {
   private taskLogger: TaskLogger;
   private turnCount = 0;
   private errorCount = 0;
+  private usageTracker = new UsageTracker();
   private startedAt: string;
   private configFiles?: string[]; // Track dynamically created config files for git exclusion
+  private stages?: StageSummary[]; // Multi-stage tasks
 
   constructor(
     private taskId: string,
@@ -154,28 +174,29 @@ export class GCSOutputHandler implements OutputHandler {
         globPatterns: string[];
         gcsPrefix?: string;
       };
-    }
+    },
+    private retry?: TaskRetry // Tasks with a retryPolicy
   ) {
     this.startedAt = new Date().toISOString();
-    this.taskLogger = gcsLogger.createTaskLogger(taskId);
+    this.taskLogger = gcsLogger.createTaskLogger(taskId, retry?.logChunkOffset);
     logger.debug(`[TASK ${taskId}] GCS output handler initialized (mode: ${callbackUrl ? 'async' : 'sync'})`);
 
-    // Save initial metadata (only for async tasks with callback URL)
-    if (callbackUrl) {
-      const initialMetadata: AsyncTaskMetadata = {
-        taskId,
-        status: 'running',
-        callbackUrl,
-        createdAt: this.startedAt,
-        startedAt: this.startedAt,
-        metadata: this.metadata
-      };
-
-      this.gcsLogger.saveMetadata(taskId, initialMetadata)
-        .catch(error => {
-          logger.error(`[TASK ${taskId}] Failed to save initial metadata:`, error.message);
-        });
-    }
+    // Mark task as running (merged so createdAt/executionName from the service are kept)
+    const initialMetadata: Partial<AsyncTaskMetadata> = {
+      taskId,
+      status: 'running',
+      callbackUrl,
+      startedAt: this.startedAt,
+      metadata: this.metadata
+    };
+
+    // Skipped if the task was already stopped (e.g. hard-cancelled before the worker got here)
+    this.gcsLogger.updateMetadata(taskId, current =>
+      current && ['completed', 'failed', 'cancelled'].includes(current.status) ? null : initialMetadata
+    )
+      .catch(error => {
+        logger.error(`[TASK ${taskId}] Failed to save initial metadata:`, error.message);
+      });
   }
 
   /**
@@ -208,6 +229,7 @@ export class GCSOutputHandler implements OutputHandler {
         } else if (message.type === 'error') {
           this.errorCount++;
         }
+        this.usageTracker.track(message);
       } catch (e) {
         // Not JSON or parsing failed - that's ok
       }
@@ -224,32 +246,69 @@ export class GCSOutputHandler implements OutputHandler {
     this.errorCount++;
   }
 
-  async onComplete(result: ClaudeRunResult, durationMs: number): Promise<void> {
+  async onStageComplete(stage: StageSummary): Promise<void> {
+    logger.info(`[TASK ${this.taskId}] Stage ${stage.stage}${stage.name ? ` (${stage.name})` : ''} ${stage.status} in ${stage.durationMs}ms`);
+    this.stages = [...(this.stages || []), stage];
+
+    const { result, ...logged } = stage;
+    this.taskLogger.write(JSON.stringify({
+      type: 'stage',
+      ...logged,
+      timestamp: new Date().toISOString()
+    }));
+
+    try {
+      await this.gcsLogger.updateMetadata(this.taskId, { stages: this.stages });
+    } catch (error: any) {
+      logger.error(`[TASK ${this.taskId}] Failed to save stage summary:`, error.message);
+    }
+  }
+
+  async onComplete(result: ClaudeRunResult, durationMs: number, failure?: TaskFailure): Promise<void> {
     logger.info(`[TASK ${this.taskId}] Claude process completed with exit code: ${result.exitCode}`);
 
-    const completedAt = new Date().toISOString();
+    const status = result.exitCode === 0 ? 'completed' : 'failed';
+    const outcome = {
+      status,
+      startedAt: this.startedAt,
+      error: result.error,
+      errorCode: failure?.errorCode,
+      failure: failure?.retryable
+    } as const;
+
+    // A transient failure with attempts left: the task is queued again, this isn't its final outcome
+    if (status === 'failed' && this.retry && await this.retry.scheduleRetry(outcome)) {
+      return;
+    }
 
-    // Save final metadata (only for async tasks with callback URL)
-    if (this.callbackUrl) {
-      const finalMetadata: AsyncTaskMetadata = {
-        taskId: this.taskId,
-        status: result.exitCode === 0 ? 'completed' : 'failed',
-        callbackUrl: this.callbackUrl,
-        createdAt: this.startedAt,
-        startedAt: this.startedAt,
-        completedAt,
-        error: result.error,
-        metadata: this.metadata
-      };
+    const completedAt = new Date().toISOString();
+    const usage = this.usageTracker.getUsage();
+    const attempts = await this.retry?.getAttempts(outcome);
+
+    // Save final metadata (sync tasks are polled on it, async tasks are queried via GET /tasks/:taskId)
+    const finalMetadata: Partial<AsyncTaskMetadata> = {
+      status,
+      startedAt: this.startedAt,
+      completedAt,
+      error: result.error,
+      errorCode: failure?.errorCode,
+      failurePhase: failure?.failurePhase,
+      metadata: this.metadata,
+      usage,
+      attempts,
+      nextAttemptAt: undefined,
+      stages: this.stages
+    };
 
-      try {
-        await this.gcsLogger.saveMetadata(this.taskId, finalMetadata);
-      } catch (error: any) {
-        logger.error(`[TASK ${this.taskId}] Failed to save final metadata:`, error.message);
-      }
+    try {
+      await this.gcsLogger.updateMetadata(this.taskId, finalMetadata);
+    } catch (error: any) {
+      logger.error(`[TASK ${this.taskId}] Failed to save final metadata:`, error.message);
     }
 
     // Execute post-execution actions (if requested and task succeeded)
+    // Their failures don't fail the task, but are reported with its result
+    let postExecutionError: { error: string; errorCode: TaskErrorCode } | undefined;
     let uploadedFiles: Array<{ originalPath: string; gcsPath: string; sizeBytes: number }> | undefined;
     let gitCommit: {
       sha: string;
@@ -272,11 +331,12 @@ export class GCSOutputHandler implements OutputHandler {
             this.taskId,
             this.workspaceRoot,
             this.postExecutionActions.uploadFiles.globPatterns,
-            this.postExecutionActions.uploadFiles.gcsPrefix
+            this.gcsLogger.getUploadPrefix(this.taskId, this.postExecutionActions.uploadFiles.gcsPrefix)
           );
           logger.info(`[TASK ${this.taskId}] Uploaded ${uploadedFiles.length} files to GCS`);
         } catch (uploadError: any) {
           logger.error(`[TASK ${this.taskId}] Failed to upload files:`, uploadError.message);
+          postExecutionError = { error: `Failed to upload files: ${uploadError.message}`, errorCode: 'UPLOAD' };
           // Continue - don't fail task if upload fails
         }
       }
@@ -369,9 +429,21 @@ export class GCSOutputHandler implements OutputHandler {
         } catch (gitError: any) {
           logger.error(`[TASK ${this.taskId}] Failed to perform git operations:`, gitError.message);
           logger.error(`[TASK ${this.taskId}] Git error details:`, gitError.stack || gitError);
+          postExecutionError ??= {
+            error: gitError.message,
+            errorCode: gitError instanceof TaskError ? gitError.code : 'GIT_COMMIT'
+          };
           // Continue - don't fail task if git operations fail
         }
       }
+
+      if (postExecutionError) {
+        try {
+          await this.gcsLogger.updateMetadata(this.taskId, { ...postExecutionError, failurePhase: 'post-execution' });
+        } catch (error: any) {
+          logger.error(`[TASK ${this.taskId}] Failed to save post-execution error:`, error.message);
+        }
+      }
     }
 
     // Call webhook (only for async tasks with callback URL)
@@ -379,20 +451,25 @@ export class GCSOutputHandler implements OutputHandler {
       // Prepare callback payload
       const callbackPayload: AsyncTaskResult = {
         taskId: this.taskId,
-        status: result.exitCode === 0 ? 'completed' : 'failed',
+        status,
         exitCode: result.exitCode,
         logsPath: this.gcsLogger.getLogsPath(this.taskId),
         summary: {
           durationMs,
-          turns: this.turnCount > 0 ? this.turnCount : undefined,
+          turns: this.getTurns(),
           errors: this.errorCount > 0 ? this.errorCount : undefined,
           startedAt: this.startedAt,
-          completedAt
+          completedAt,
+          usage
         },
-        error: result.error,
+        error: postExecutionError?.error ?? result.error,
+        errorCode: postExecutionError?.errorCode ?? failure?.errorCode,
+        failurePhase: postExecutionError ? 'post-execution' : failure?.failurePhase,
         metadata: this.metadata,
         uploadedFiles,
-        gitCommit
+        gitCommit,
+        attempts,
+        stages: this.stages
       };
 
       // Call webhook
@@ -406,27 +483,34 @@ export class GCSOutputHandler implements OutputHandler {
     logger.info(`[TASK ${this.taskId}] Task cancelled by user`);
 
     const cancelledAt = new Date().toISOString();
+    const usage = this.usageTracker.getUsage();
+    const attempts = await this.retry?.getAttempts({
+      status: 'cancelled',
+      startedAt: this.startedAt,
+      error: 'Task cancelled by user'
+    });
+
+    // Save cancellation metadata
+    const cancelMetadata: Partial<AsyncTaskMetadata> = {
+      status: 'cancelled',
+      startedAt: this.startedAt,
+      completedAt: cancelledAt,
+      cancelledAt,
+      error: 'Task cancelled by user',
+      metadata: this.metadata,
+      usage,
+      attempts,
+      stages: this.stages
+    };
 
-    // Save cancellation metadata (only for async tasks with callback URL)
-    if (this.callbackUrl) {
-      const cancelMetadata: AsyncTaskMetadata = {
-        taskId: this.taskId,
-        status: 'cancelled',
-        callbackUrl: this.callbackUrl,
-        createdAt: this.startedAt,
-        startedAt: this.startedAt,
-        completedAt: cancelledAt,
-        cancelledAt,
-        error: 'Task cancelled by user',
-        metadata: this.metadata
-      };
-
-      try {
-        await this.gcsLogger.saveMetadata(this.taskId, cancelMetadata);
-      } catch (error: any) {
-        logger.error(`[TASK ${this.taskId}] Failed to save cancellation metadata:`, error.message);
-      }
+    try {
+      await this.gcsLogger.updateMetadata(this.taskId, cancelMetadata);
+    } catch (error: any) {
+      logger.error(`[TASK ${this.taskId}] Failed to save cancellation metadata:`, error.message);
+    }
 
+    // Call webhook (only for async tasks with callback URL)
+    if (this.callbackUrl) {
       // Prepare callback payload
       const callbackPayload: AsyncTaskResult = {
         taskId: this.taskId,
@@ -435,14 +519,17 @@ export class GCSOutputHandler implements OutputHandler {
         logsPath: this.gcsLogger.getLogsPath(this.taskId),
         summary: {
           durationMs,
-          turns: this.turnCount > 0 ? this.turnCount : undefined,
+          turns: this.getTurns(),
           errors: this.errorCount > 0 ? this.errorCount : undefined,
           startedAt: this.startedAt,
           completedAt: cancelledAt,
-          cancelledAt
+          cancelledAt,
+          usage
         },
         error: 'Task cancelled by user',
-        metadata: this.metadata
+        metadata: this.metadata,
+        attempts,
+        stages: this.stages
       };
 
       // Call webhook
@@ -467,6 +554,13 @@ export class GCSOutputHandler implements OutputHandler {
     }
   }
 
+  /**
+   * Turn count from turn_complete messages, falling back to the result message's num_turns
+   */
+  private getTurns(): number | undefined {
+    return this.turnCount > 0 ? this.turnCount : this.usageTracker.getTurns();
+  }
+
   private async callWebhook(payload: AsyncTaskResult): Promise<void> {
     // This method should only be called when callbackUrl is defined
     if (!this.callbackUrl) {
@@ -474,50 +568,58 @@ export class GCSOutputHandler implements OutputHandler {
       return;
     }
 
-    logger.info(`[TASK ${this.taskId}] Calling webhook: ${this.callbackUrl}`);
-
-    try {
-      const secret = process.env.CLOUDRUN_CALLBACK_SECRET;
-
-      if (!secret) {
-        logger.error(`[TASK ${this.taskId}] CLOUDRUN_CALLBACK_SECRET not set - cannot sign webhook`);
-        throw new Error('CLOUDRUN_CALLBACK_SECRET is required for webhook authentication');
-      }
-
-      // Current timestamp (seconds since epoch)
-      const timestamp = Math.floor(Date.now() / 1000).toString();
-
-      // Serialize payload (consistent JSON stringification)
-      const payloadString = JSON.stringify(payload);
+    await sendWebhook(this.callbackUrl, payload);
+  }
+}
 
-      // Create signature: HMAC-SHA256(secret, timestamp + "." + payload)
-      const crypto = await import('crypto');
-      const signature = crypto
-        .createHmac('sha256', secret)
-        .update(`${timestamp}.${payloadString}`)
-        .digest('hex');
+/**
+ * POST a signed AsyncTaskResult to a task's callback URL
+ * Failures are logged, not thrown - the task's outcome is already recorded in its metadata.
+ */
+export async function sendWebhook(callbackUrl: string, payload: AsyncTaskResult): Promise<void> {
+  logger.info(`[TASK ${payload.taskId}] Calling webhook: ${callbackUrl}`);
 
-      logger.debug(`[TASK ${this.taskId}] Generated webhook signature`);
+  try {
+    const secret = process.env.CLOUDRUN_CALLBACK_SECRET;
 
-      const response = await axios.post(this.callbackUrl, payload, {
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Webhook-Signature': `sha256=${signature}`,
-          'X-Webhook-Timestamp': timestamp,
-          'User-Agent': 'cloudrun-claude-code/async-task'
-        },
-        timeout: 30000, // 30 second timeout
-        validateStatus: () => true // Don't throw on any status code
-      });
+    if (!secret) {
+      logger.error(`[TASK ${payload.taskId}] CLOUDRUN_CALLBACK_SECRET not set - cannot sign webhook`);
+      throw new Error('CLOUDRUN_CALLBACK_SECRET is required for webhook authentication');
+    }
 
-      if (response.status >= 200 && response.status < 300) {
-        logger.info(`[TASK ${this.taskId}] Webhook called successfully (status: ${response.status})`);
-      } else {
-        logger.warn(`[TASK ${this.taskId}] Webhook returned non-2xx status: ${response.status}`, response.data);
-      }
-    } catch (error: any) {
-      logger.error(`[TASK ${this.taskId}] Failed to call webhook:`, error.message);
-      // Don't throw - we've already completed the task, webhook failure shouldn't crash the service
+    // Current timestamp (seconds since epoch)
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    // Serialize payload (consistent JSON stringification)
+    const payloadString = JSON.stringify(payload);
+
+    // Create signature: HMAC-SHA256(secret, timestamp + "." + payload)
+    const crypto = await import('crypto');
+    const signature = crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${payloadString}`)
+      .digest('hex');
+
+    logger.debug(`[TASK ${payload.taskId}] Generated webhook signature`);
+
+    const response = await axios.post(callbackUrl, payload, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Signature': `sha256=${signature}`,
+        'X-Webhook-Timestamp': timestamp,
+        'User-Agent': 'cloudrun-claude-code/async-task'
+      },
+      timeout: 30000, // 30 second timeout
+      validateStatus: () => true // Don't throw on any status code
+    });
+
+    if (response.status >= 200 && response.status < 300) {
+      logger.info(`[TASK ${payload.taskId}] Webhook called successfully (status: ${response.status})`);
+    } else {
+      logger.warn(`[TASK ${payload.taskId}] Webhook returned non-2xx status: ${response.status}`, response.data);
     }
+  } catch (error: any) {
+    logger.error(`[TASK ${payload.taskId}] Failed to call webhook:`, error.message);
+    // Don't throw - we've already completed the task, webhook failure shouldn't crash the service
   }
 }
@@ -0,0 +1,315 @@
+import { GCSLoggerService } from "./gcs.service.js";
+import { TaskRegistry } from "./task-registry.service.js";
+import { ActiveTasksResponse } from "../types/async-task.types.js";
+import { createModuleLogger } from "../../utils/logger.js";
+
+const logger = createModuleLogger('quota');
+
+/**
+ * Limits for one tenant (unset = unlimited)
+ */
+export interface QuotaLimits {
+  /** Tasks running at the same time (sync and async) */
+  maxConcurrentTasks?: number;
+
+  /** Tasks created per UTC day */
+  maxDailyTasks?: number;
+}
+
+/**
+ * Quota configuration (TASK_QUOTAS, JSON)
+ */
+export interface QuotaConfig {
+  /**
+   * What a tenant is (default: 'caller')
+   * - caller: the authenticated caller (AUTH_METHODS), "anonymous" without authentication
+   * - tenant: the request's metadata.tenant, "default" if absent (chosen by the caller - not a security boundary)
+   */
+  scope?: 'caller' | 'tenant';
+
+  /** Limits for tenants without their own entry */
+  default?: QuotaLimits;
+
+  /** Limits per tenant */
+  tenants?: Record<string, QuotaLimits>;
+}
+
+/**
+ * Slots held by an admitted task
+ */
+export interface QuotaReservation {
+  tenant: string;
+
+  /** Concurrency slot, released when the task leaves the registry */
+  slotPath?: string;
+
+  /** Daily count entry */
+  dailyPath?: string;
+}
+
+/**
+ * Outcome of admitting a task
+ */
+export type QuotaDecision =
+  | { allowed: true; reservation: QuotaReservation }
+  | { allowed: false; tenant: string; reason: string; limit: number; retryAfterSeconds: number };
+
+/**
+ * Quota usage of one tenant (GET /tasks/status)
+ */
+export type TenantQuotaUsage = NonNullable<ActiveTasksResponse['quotas']>[number];
+
+/**
+ * QuotaService
+ * Limits how many tasks each tenant runs at once and creates per day.
+ *
+ * Every admitted task holds a numbered slot object (quotas/running/{tenant}/{n}.json,
+ * n < maxConcurrentTasks) and a numbered daily entry (quotas/daily/{tenant}/{date}/{n}.json,
+ * deleted by the bucket's lifecycle rules).
+ * Both are create-only GCS writes, so concurrent requests on any number of service
+ * instances can't exceed the limits. Queued tasks hold their slot too. Slots are released
+ * when the task is unregistered (or ends while queued); slots whose task is neither queued
+ * nor in the registry are reclaimed after a grace period.
+ */
+export class QuotaService {
+  private static readonly PREFIX = 'quotas/';
+  private static readonly STALE_SLOT_MS = 10 * 60 * 1000;
+  private static readonly CONCURRENCY_RETRY_AFTER_SECONDS = 30;
+
+  constructor(
+    private config: QuotaConfig,
+    private gcsLogger: GCSLoggerService,
+    private registry: TaskRegistry = TaskRegistry.getInstance()
+  ) {}
+
+  /**
+   * Load quotas from TASK_QUOTAS
+   * @returns undefined if no quotas are configured
+   * @throws Error if TASK_QUOTAS is not a valid configuration
+   */
+  static fromEnv(gcsLogger: GCSLoggerService): QuotaService | undefined {
+    const raw = process.env.TASK_QUOTAS;
+    if (!raw?.trim()) {
+      return undefined;
+    }
+
+    let config: unknown;
+    try {
+      config = JSON.parse(raw);
+    } catch {
+      throw new Error('TASK_QUOTAS is not valid JSON');
+    }
+
+    const error = QuotaService.validate(config);
+    if (error) {
+      throw new Error(`Invalid TASK_QUOTAS: ${error}`);
+    }
+    return new QuotaService(config as QuotaConfig, gcsLogger);
+  }
+
+  /**
+   * Validate a quota configuration
+   * @returns Error message, or undefined if valid
+   */
+  static validate(config: unknown): string | undefined {
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      return 'quotas must be an object';
+    }
+
+    const { scope, default: defaults, tenants } = config as QuotaConfig;
+    if (scope !== undefined && scope !== 'caller' && scope !== 'tenant') {
+      return 'scope must be "caller" or "tenant"';
+    }
+
+    const limitsError = (limits: unknown, name: string): string | undefined => {
+      if (!limits || typeof limits !== 'object' || Array.isArray(limits)) {
+        return `${name} must be an object`;
+      }
+      for (const key of ['maxConcurrentTasks', 'maxDailyTasks'] as const) {
+        const value = (limits as QuotaLimits)[key];
+        if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+          return `${name}.${key} must be a positive integer`;
+        }
+      }
+      return undefined;
+    };
+
+    if (defaults !== undefined) {
+      const error = limitsError(defaults, 'default');
+      if (error) return error;
+    }
+    if (tenants !== undefined) {
+      if (!tenants || typeof tenants !== 'object' || Array.isArray(tenants)) {
+        return 'tenants must be an object';
+      }
+      for (const [tenant, limits] of Object.entries(tenants)) {
+        const error = limitsError(limits, `tenants.${tenant}`);
+        if (error) return error;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Tenant a request counts against
+   * @param callerId - Authenticated caller (req.caller.id), or the creator of a schedule
+   */
+  getTenant(callerId: string | undefined, metadata: Record<string, any> | undefined): string {
+    if (this.config.scope === 'tenant') {
+      const tenant = metadata?.tenant;
+      return typeof tenant === 'string' && tenant.trim() ? tenant.trim() : 'default';
+    }
+    return callerId || 'anonymous';
+  }
+
+  getLimits(tenant: string): QuotaLimits {
+    return this.config.tenants?.[tenant] || this.config.default || {};
+  }
+
+  /**
+   * Admit a task: take a concurrency slot and a daily entry, or report which limit is reached
+   */
+  async reserve(tenant: string, taskId: string): Promise<QuotaDecision> {
+    const { maxConcurrentTasks, maxDailyTasks } = this.getLimits(tenant);
+    const reservation: QuotaReservation = { tenant };
+    const reservedAt = new Date().toISOString();
+
+    if (maxConcurrentTasks !== undefined) {
+      reservation.slotPath = await this.claim(this.runningPrefix(tenant), maxConcurrentTasks, { taskId, tenant, reservedAt }, true);
+      if (!reservation.slotPath) {
+        logger.warn(`Tenant ${tenant} is at its concurrency limit (${maxConcurrentTasks}) - rejecting task ${taskId}`);
+        return {
+          allowed: false,
+          tenant,
+          reason: `Tenant ${tenant} already has ${maxConcurrentTasks} running task${maxConcurrentTasks === 1 ? '' : 's'} (maxConcurrentTasks)`,
+          limit: maxConcurrentTasks,
+          retryAfterSeconds: QuotaService.CONCURRENCY_RETRY_AFTER_SECONDS
+        };
+      }
+    }
+
+    if (maxDailyTasks !== undefined) {
+      reservation.dailyPath = await this.claim(this.dailyPrefix(tenant), maxDailyTasks, { taskId, tenant, reservedAt }, false);
+      if (!reservation.dailyPath) {
+        await this.cancel(reservation);
+        logger.warn(`Tenant ${tenant} reached its daily limit (${maxDailyTasks}) - rejecting task ${taskId}`);
+        return {
+          allowed: false,
+          tenant,
+          reason: `Tenant ${tenant} already created ${maxDailyTasks} task${maxDailyTasks === 1 ? '' : 's'} today (maxDailyTasks)`,
+          limit: maxDailyTasks,
+          retryAfterSeconds: secondsUntilNextUtcDay()
+        };
+      }
+    }
+
+    return { allowed: true, reservation };
+  }
+
+  /**
+   * Give back a reservation whose task was never started
+   */
+  async cancel(reservation: QuotaReservation): Promise<void> {
+    for (const objectPath of [reservation.slotPath, reservation.dailyPath]) {
+      if (objectPath) {
+        try {
+          await this.gcsLogger.deleteObject(objectPath);
+        } catch (error: any) {
+          logger.warn(`Failed to release quota entry ${objectPath}:`, error.message);
+        }
+      }
+    }
+  }
+
+  /**
+   * Usage of the tenants with running tasks and of all configured tenants
+   * @param runningByTenant - Running task count per tenant (from the registry)
+   */
+  async getUsage(runningByTenant: Record<string, number>): Promise<TenantQuotaUsage[]> {
+    const tenants = new Set([...Object.keys(runningByTenant), ...Object.keys(this.config.tenants || {})]);
+
+    return Promise.all([...tenants].sort().map(async (tenant): Promise<TenantQuotaUsage> => {
+      const { maxConcurrentTasks, maxDailyTasks } = this.getLimits(tenant);
+      return {
+        tenant,
+        running: runningByTenant[tenant] || 0,
+        maxConcurrentTasks,
+        dailyTasks: maxDailyTasks !== undefined
+          ? (await this.gcsLogger.listObjectNames(this.dailyPrefix(tenant))).length
+          : undefined,
+        maxDailyTasks
+      };
+    }));
+  }
+
+  /**
+   * Create the lowest free {n}.json below max under a prefix
+   * @param reclaimStale - Replace entries whose task is gone from the registry (concurrency slots)
+   * @returns Path of the created object, or undefined if all are taken
+   */
+  private async claim(prefix: string, max: number, data: Record<string, any>, reclaimStale: boolean): Promise<string | undefined> {
+    const taken = new Set(
+      (await this.gcsLogger.listObjectNames(prefix)).map(name => name.slice(prefix.length).replace(/\.json$/, ''))
+    );
+
+    for (let index = 0; index < max; index++) {
+      const objectPath = `${prefix}${index}.json`;
+      if (!taken.has(String(index)) && await this.gcsLogger.writeJsonIfGenerationMatch(objectPath, data, 0)) {
+        return objectPath;
+      }
+    }
+
+    if (!reclaimStale) {
+      return undefined;
+    }
+
+    for (let index = 0; index < max; index++) {
+      const objectPath = `${prefix}${index}.json`;
+      const existing = await this.gcsLogger.readJsonWithGeneration(objectPath);
+      if (!existing) {
+        if (await this.gcsLogger.writeJsonIfGenerationMatch(objectPath, data, 0)) {
+          return objectPath;
+        }
+        continue;
+      }
+
+      const age = Date.now() - new Date(existing.data.reservedAt).getTime();
+      if (age > QuotaService.STALE_SLOT_MS && !(await this.isTaskActive(existing.data.taskId))) {
+        logger.info(`Reclaiming quota slot ${objectPath} of finished task ${existing.data.taskId}`);
+        // Removing a stale registry entry (isTaskActive) deletes its slot - create it again then
+        if (await this.gcsLogger.writeJsonIfGenerationMatch(objectPath, data, existing.generation) ||
+            await this.gcsLogger.writeJsonIfGenerationMatch(objectPath, data, 0)) {
+          return objectPath;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether a task still holds its slot: running (in the registry) or waiting in the task queue
+   * Registry entries of tasks that already ended are removed by getTask, releasing their slot.
+   */
+  private async isTaskActive(taskId: string): Promise<boolean> {
+    if (await this.registry.getTask(taskId)) {
+      return true;
+    }
+    const metadata = await this.gcsLogger.readMetadata(taskId);
+    return metadata?.status === 'queued';
+  }
+
+  private runningPrefix(tenant: string): string {
+    return `${QuotaService.PREFIX}running/${encodeURIComponent(tenant)}/`;
+  }
+
+  private dailyPrefix(tenant: string): string {
+    const day = new Date().toISOString().slice(0, 10);
+    return `${QuotaService.PREFIX}daily/${encodeURIComponent(tenant)}/${day}/`;
+  }
+}
+
+function secondsUntilNextUtcDay(): number {
+  const now = new Date();
+  const next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((next - now.getTime()) / 1000);
+}
@@ -0,0 +1,92 @@
+import { BudgetTracker } from "./budget-tracker.js";
+import { validateProviderConfig } from "./model-providers.js";
+import { validateUpstreamUrl } from "./simple-proxy.js";
+import { NetworkPolicyProxy } from "./network-policy-proxy.js";
+import { validateStages } from "./task-stages.js";
+import { RunRequest } from "../types/request.types.js";
+import { AsyncRunRequest, ErrorResponse } from "../types/async-task.types.js";
+import { formatValidationErrors, validateAsyncRunRequest, validateRunRequest } from "../schemas/request.schema.js";
+import { logger } from "../../utils/logger.js";
+
+/**
+ * Check a task request before anything is stored or started
+ * (schema, retry policy, stages, provider credentials, callback URL, budget, upstream and network policy)
+ *
+ * /run, /run-async and schedule request templates all go through this one pass,
+ * so the endpoints accept the same requests.
+ * @param mode - 'sync' for /run, 'async' for /run-async and schedules
+ * @returns The 400 response body, or undefined if the request is valid
+ */
+export function validateTaskRequest(body: unknown, mode: 'sync' | 'async'): ErrorResponse | undefined {
+  const schemaErrors = mode === 'sync' ? validateRunRequest(body) : validateAsyncRunRequest(body);
+  if (schemaErrors.length > 0) {
+    logger.error("Invalid request body:", schemaErrors);
+    return { error: formatValidationErrors(schemaErrors), details: schemaErrors };
+  }
+
+  const request = body as RunRequest;
+
+  // A streamed response can't be replayed - only async tasks are retried
+  if (mode === 'sync' && request.retryPolicy) {
+    logger.error("retryPolicy sent to /run");
+    return { error: "retryPolicy is only supported by /run-async" };
+  }
+
+  const stagesError = validateStages(request);
+  if (stagesError) {
+    logger.error(`Invalid stages: ${stagesError}`);
+    return { error: stagesError };
+  }
+
+  // Credentials for the selected model provider (Anthropic API key/OAuth token, Vertex or Bedrock settings)
+  const providerError = validateProviderConfig(request);
+  if (providerError) {
+    logger.error(`Invalid provider configuration: ${providerError}`);
+    return { error: providerError };
+  }
+
+  if (mode === 'async') {
+    const callbackError = validateCallbackUrl((request as AsyncRunRequest).callbackUrl);
+    if (callbackError) {
+      return { error: callbackError };
+    }
+  }
+
+  const budgetError = BudgetTracker.validate(request.budget);
+  if (budgetError) {
+    logger.error(`Invalid budget: ${budgetError}`);
+    return { error: budgetError };
+  }
+
+  const upstreamError = validateUpstreamUrl(request.upstreamUrl);
+  if (upstreamError) {
+    logger.error(`Invalid upstreamUrl: ${upstreamError}`);
+    return { error: upstreamError };
+  }
+
+  const networkPolicyError = NetworkPolicyProxy.validate(request.networkPolicy);
+  if (networkPolicyError) {
+    logger.error(`Invalid networkPolicy: ${networkPolicyError}`);
+    return { error: networkPolicyError };
+  }
+
+  return undefined;
+}
+
+/**
+ * Validate callback URL format
+ * @returns Error message, or undefined if valid
+ */
+function validateCallbackUrl(callbackUrl: string): string | undefined {
+  try {
+    const url = new URL(callbackUrl);
+    if (!['http:', 'https:'].includes(url.protocol)) {
+      logger.error(`Invalid callback URL protocol: ${url.protocol}`);
+      return "callbackUrl must use http or https protocol";
+    }
+  } catch (error) {
+    logger.error("Invalid callback URL:", error);
+    return "callbackUrl is not a valid URL";
+  }
+  return undefined;
+}
@@ -0,0 +1,309 @@
+import crypto from "crypto";
+import { GCSLoggerService } from "./gcs.service.js";
+import { EncryptionService } from "./encryption.service.js";
+import { AsyncTaskService } from "./async-task.service.js";
+import { validateTaskRequest } from "./request-validation.js";
+import { QuotaReservation, QuotaService } from "./quota.service.js";
+import { AsyncRunRequest, ErrorResponse } from "../types/async-task.types.js";
+import { CreateScheduleRequest, Schedule, ScheduleRun } from "../types/schedule.types.js";
+import { formatValidationErrors, validateCreateScheduleRequest } from "../schemas/request.schema.js";
+import { nextCronTime, parseCron, validateCron, validateTimeZone } from "../../utils/cron.js";
+import { createModuleLogger } from "../../utils/logger.js";
+
+const logger = createModuleLogger('schedule');
+
+/**
+ * ScheduleService
+ * Creates async tasks from a request template on a cron schedule.
+ *
+ * A schedule is stored as schedules/{scheduleId}/schedule.json next to its KMS-encrypted
+ * request template (schedules/{scheduleId}/request.enc). Every instance checks the schedules
+ * every SCHEDULE_POLL_INTERVAL_SECONDS; a due schedule is advanced to its next run time with
+ * a generation-match write, so only the instance that wins the write creates the run's task
+ * ({scheduleId}-{yyyyMMddTHHmmZ}). Runs missed while no instance was running are not made up.
+ */
+export class ScheduleService {
+  private static instance: ScheduleService;
+  private static readonly PREFIX = 'schedules/';
+  private static readonly MAX_RUNS = 50;
+  private static readonly MAX_UPDATE_ATTEMPTS = 5;
+
+  private timer?: NodeJS.Timeout;
+  private ticking?: Promise<void>;
+
+  private constructor(
+    private gcsLogger: GCSLoggerService,
+    private tasks: AsyncTaskService,
+    private encryptionService: EncryptionService,
+    private quotas: QuotaService | undefined,
+    private pollIntervalMs: number
+  ) {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): ScheduleService {
+    if (!ScheduleService.instance) {
+      const gcsLogger = new GCSLoggerService();
+      const encryptionService = new EncryptionService();
+      ScheduleService.instance = new ScheduleService(
+        gcsLogger,
+        new AsyncTaskService(gcsLogger, encryptionService),
+        encryptionService,
+        QuotaService.fromEnv(gcsLogger),
+        parseInt(process.env.SCHEDULE_POLL_INTERVAL_SECONDS || '30', 10) * 1000
+      );
+    }
+    return ScheduleService.instance;
+  }
+
+  /**
+   * Validate a POST /schedules request body (including its request template)
+   * @returns The 400 response body, or undefined if the request is valid
+   */
+  public static validate(body: unknown): ErrorResponse | undefined {
+    const schemaErrors = validateCreateScheduleRequest(body);
+    if (schemaErrors.length > 0) {
+      logger.error("Invalid schedule request body:", schemaErrors);
+      return { error: formatValidationErrors(schemaErrors), details: schemaErrors };
+    }
+
+    const { cron, timezone = 'UTC', request } = body as CreateScheduleRequest;
+
+    const cronError = validateCron(cron);
+    if (cronError) {
+      logger.error(`Invalid cron expression: ${cronError}`);
+      return { error: cronError };
+    }
+
+    const timeZoneError = validateTimeZone(timezone);
+    if (timeZoneError) {
+      logger.error(timeZoneError);
+      return { error: timeZoneError };
+    }
+
+    if (request.taskId !== undefined) {
+      logger.error("Schedule request template contains taskId");
+      return { error: "request.taskId is not allowed - each run gets its own task ID" };
+    }
+
+    // Each run would continue the same conversation, checked only once at creation
+    if (request.resumeFromTaskId !== undefined) {
+      logger.error("Schedule request template contains resumeFromTaskId");
+      return { error: "request.resumeFromTaskId is not allowed in a schedule's request template" };
+    }
+
+    return validateTaskRequest(request, 'async');
+  }
+
+  /**
+   * Start checking for due schedules
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.runTick(), this.pollIntervalMs);
+    this.timer.unref();
+    logger.info(`Scheduler started (poll interval: ${this.pollIntervalMs}ms)`);
+  }
+
+  public stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Create a schedule and store its encrypted request template
+   * @returns undefined if a schedule with this ID already exists
+   * @throws Error if the cron expression never matches, or the schedule couldn't be stored
+   */
+  public async create(request: CreateScheduleRequest, createdBy?: string): Promise<Schedule | undefined> {
+    const scheduleId = request.scheduleId || crypto.randomUUID();
+    const timezone = request.timezone || 'UTC';
+    const now = new Date();
+
+    const nextRunAt = nextCronTime(parseCron(request.cron), now, timezone);
+    if (!nextRunAt) {
+      throw new Error(`Cron expression ${request.cron} never matches`);
+    }
+
+    const schedule: Schedule = {
+      scheduleId,
+      cron: request.cron,
+      timezone,
+      description: request.description,
+      createdAt: now.toISOString(),
+      createdBy,
+      callbackUrl: request.request.callbackUrl,
+      metadata: request.request.metadata,
+      nextRunAt: nextRunAt.toISOString(),
+      runs: []
+    };
+
+    // Create-only, so an existing schedule (and its template) is never overwritten
+    if (!(await this.gcsLogger.writeJsonIfGenerationMatch(this.schedulePath(scheduleId), schedule, 0))) {
+      return undefined;
+    }
+
+    try {
+      const encrypted = await this.encryptionService.encryptPayload(request.request);
+      await this.gcsLogger.storeEncryptedScheduleRequest(scheduleId, encrypted);
+    } catch (error) {
+      await this.gcsLogger.deleteObject(this.schedulePath(scheduleId));
+      throw error;
+    }
+
+    logger.info(`Schedule ${scheduleId} created (${schedule.cron} ${timezone}, next run: ${schedule.nextRunAt})`);
+    return schedule;
+  }
+
+  public async get(scheduleId: string): Promise<Schedule | undefined> {
+    const existing = await this.gcsLogger.readJsonWithGeneration(this.schedulePath(scheduleId));
+    return existing?.data;
+  }
+
+  public async list(): Promise<Schedule[]> {
+    const schedules: Schedule[] = await this.gcsLogger.listJsonObjects(ScheduleService.PREFIX);
+    return schedules
+      .filter(schedule => schedule && typeof schedule.scheduleId === 'string')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Delete a schedule and its request template - tasks it already created are not affected
+   * @returns false if the schedule doesn't exist
+   */
+  public async delete(scheduleId: string): Promise<boolean> {
+    const deleted = await this.gcsLogger.deleteObject(this.schedulePath(scheduleId));
+    await this.gcsLogger.deleteEncryptedScheduleRequest(scheduleId);
+    if (deleted) {
+      logger.info(`Schedule ${scheduleId} deleted`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Create the tasks of all due schedules
+   */
+  public async tick(now: Date = new Date()): Promise<void> {
+    const names = await this.gcsLogger.listObjectNames(ScheduleService.PREFIX);
+
+    for (const name of names.filter(name => name.endsWith('/schedule.json'))) {
+      try {
+        await this.runIfDue(name, now);
+      } catch (error: any) {
+        logger.error(`Failed to run schedule ${name}:`, error.message);
+      }
+    }
+  }
+
+  /**
+   * Run tick() unless the previous one is still running
+   */
+  private runTick(): void {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = this.tick()
+      .catch((error: any) => logger.error('Schedule check failed:', error.message))
+      .finally(() => { this.ticking = undefined; });
+  }
+
+  /**
+   * Advance a due schedule to its next run time and, if this instance won that write, create the run's task
+   */
+  private async runIfDue(objectPath: string, now: Date): Promise<void> {
+    const existing = await this.gcsLogger.readJsonWithGeneration(objectPath);
+    const schedule: Schedule | undefined = existing?.data;
+    if (!existing || !schedule?.nextRunAt || new Date(schedule.nextRunAt) > now) {
+      return;
+    }
+
+    const scheduledFor = schedule.nextRunAt;
+    const nextRunAt = nextCronTime(parseCron(schedule.cron), now, schedule.timezone);
+    const advanced: Schedule = { ...schedule, nextRunAt: nextRunAt?.toISOString(), lastRunAt: scheduledFor };
+
+    if (!(await this.gcsLogger.writeJsonIfGenerationMatch(objectPath, advanced, existing.generation))) {
+      logger.debug(`Schedule ${schedule.scheduleId} was run by another instance`);
+      return;
+    }
+
+    const run = await this.createRunTask(schedule, scheduledFor);
+    await this.recordRun(schedule.scheduleId, run);
+  }
+
+  /**
+   * Create the task of one run from the schedule's request template
+   */
+  private async createRunTask(schedule: Schedule, scheduledFor: string): Promise<ScheduleRun> {
+    const { scheduleId } = schedule;
+    const taskId = `${scheduleId}-${scheduledFor.slice(0, 16).replace(/[-:]/g, '')}Z`;
+    let reservation: QuotaReservation | undefined;
+
+    try {
+      const request: AsyncRunRequest = await this.encryptionService.decryptPayload(
+        await this.gcsLogger.readEncryptedScheduleRequest(scheduleId)
+      );
+
+      const tenant = this.quotas?.getTenant(schedule.createdBy, request.metadata);
+      if (this.quotas && tenant !== undefined) {
+        const decision = await this.quotas.reserve(tenant, taskId);
+        if (!decision.allowed) {
+          logger.warn(`[TASK ${taskId}] Schedule ${scheduleId} run skipped: ${decision.reason}`);
+          return { scheduledFor, taskId, status: 'skipped', error: decision.reason };
+        }
+        reservation = decision.reservation;
+      }
+
+      const response = await this.tasks.createTask(taskId, request, {
+        createdBy: schedule.createdBy,
+        tenant,
+        quotaSlot: reservation?.slotPath,
+        scheduleId
+      });
+
+      if (!response) {
+        if (reservation) {
+          await this.quotas?.cancel(reservation);
+        }
+        logger.warn(`[TASK ${taskId}] Schedule ${scheduleId} run skipped: task already exists`);
+        return { scheduledFor, taskId, status: 'skipped', error: `Task ${taskId} already exists` };
+      }
+
+      logger.info(`[TASK ${taskId}] Created by schedule ${scheduleId}`);
+      return { scheduledFor, taskId, status: 'queued' };
+    } catch (error: any) {
+      if (reservation) {
+        await this.quotas?.cancel(reservation);
+      }
+      logger.error(`[TASK ${taskId}] Schedule ${scheduleId} run failed:`, error.message);
+      return { scheduledFor, taskId, status: 'failed', error: error.message };
+    }
+  }
+
+  /**
+   * Add a run to the schedule's history (newest first)
+   */
+  private async recordRun(scheduleId: string, run: ScheduleRun): Promise<void> {
+    const objectPath = this.schedulePath(scheduleId);
+
+    for (let attempt = 0; attempt < ScheduleService.MAX_UPDATE_ATTEMPTS; attempt++) {
+      const existing = await this.gcsLogger.readJsonWithGeneration(objectPath);
+      if (!existing) {
+        return; // Deleted meanwhile
+      }
+
+      const schedule: Schedule = existing.data;
+      const runs = [run, ...(schedule.runs || [])].slice(0, ScheduleService.MAX_RUNS);
+      if (await this.gcsLogger.writeJsonIfGenerationMatch(objectPath, { ...schedule, runs }, existing.generation)) {
+        return;
+      }
+    }
+    logger.warn(`Failed to record run ${run.taskId} of schedule ${scheduleId} (concurrent updates)`);
+  }
+
+  private schedulePath(scheduleId: string): string {
+    return `${ScheduleService.PREFIX}${scheduleId}/schedule.json`;
+  }
+}
@@ -1,47 +1,204 @@
 import http from 'http';
 import https from 'https';
+import tls from 'tls';
 import { URL } from 'url';
+import { StringDecoder } from 'string_decoder';
+import { finished } from 'stream/promises';
+import { BudgetTracker } from './budget-tracker.js';
+import { ApiRecorder, ApiReplayer } from './api-recorder.js';
+import { ApiUsage } from './model-pricing.js';
+import { AnthropicProvider, ModelProvider } from './model-providers.js';
+import { EgressProxyAgent } from './egress-proxy-agent.js';
+import { ModelPolicy } from './model-policy.js';
+import { TaskBudget } from '../types/request.types.js';
 import { createModuleLogger } from '../../utils/logger.js';
 
 const logger = createModuleLogger('proxy');
 
+/** Transient upstream statuses (529 = overloaded) - retried for idempotent requests */
+const TRANSIENT_STATUS_CODES = [408, 429, 500, 502, 503, 504, 529];
+
+/** Statuses that reject a request before it is processed - retried for any request when retry-after is sent */
+const THROTTLE_STATUS_CODES = [429, 503, 529];
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/** Upper bound for waits requested via retry-after */
+const MAX_RETRY_AFTER_MS = 60000;
+
+/**
+ * Structured event emitted by the proxy into the task log
+ * - retry: upstream failed (socket error or retryable status), retrying after delayMs
+ * - throttle: concurrency limit reached, request queued until a slot frees up
+ * - model: effective model of a model call (requestedModel if the model policy rewrote it,
+ *   reason if the policy rejected it)
+ */
+export interface ProxyEvent {
+  type: 'proxy';
+  event: 'retry' | 'throttle' | 'model';
+  method: string;
+  path: string;
+  timestamp: string;
+  model?: string;
+  requestedModel?: string;
+  attempt?: number;
+  maxRetries?: number;
+  delayMs?: number;
+  reason?: string;
+  inFlight?: number;
+  maxConcurrentRequests?: number;
+}
+
+/**
+ * Optional proxy behaviour
+ */
+export interface SimpleProxyOptions {
+  /** Model backend (default: Anthropic API with the constructor's credentials) */
+  provider?: ModelProvider;
+
+  /**
+   * Base URL replacing the provider's endpoint, e.g. an internal LLM gateway
+   * (https://llm-gateway.corp/anthropic) or a local fake upstream (http://127.0.0.1:9999)
+   */
+  upstreamUrl?: string;
+
+  /** Extra trusted CA certificates (PEM) for the upstream, in addition to Node's bundled roots */
+  caBundle?: string;
+
+  /** Egress proxy for HTTPS upstream traffic, e.g. http://proxy.corp:3128 */
+  egressProxyUrl?: string;
+
+  /** Rules rewriting or rejecting the model of model calls */
+  modelPolicy?: ModelPolicy;
+
+  /** Spending limit enforced on /v1/messages requests */
+  budget?: TaskBudget;
+
+  /** Record every request/response pair (credentials redacted), see getRecording() */
+  record?: boolean;
+
+  /** Serve responses from this recording instead of calling the API (no network access) */
+  replayFile?: string;
+
+  /** Retries after socket errors and retryable statuses (default: 3) */
+  maxRetries?: number;
+
+  /** Backoff base delay, doubled per attempt with jitter (default: 1000) */
+  retryBaseDelayMs?: number;
+
+  /** Backoff cap (default: 30000) */
+  retryMaxDelayMs?: number;
+
+  /** Maximum in-flight upstream requests; further requests wait (default: 4) */
+  maxConcurrentRequests?: number;
+
+  /** Called for every retry/throttle event (e.g. to write it to the task log) */
+  onEvent?: (event: ProxyEvent) => void;
+}
+
+/**
+ * Validate a per-request upstream URL against the ALLOWED_UPSTREAM_URLS allow-list
+ * @returns Error message, or undefined if valid
+ */
+export function validateUpstreamUrl(upstreamUrl: unknown): string | undefined {
+  if (upstreamUrl === undefined) {
+    return undefined;
+  }
+  if (typeof upstreamUrl !== 'string') {
+    return 'upstreamUrl must be a string';
+  }
+
+  const allowed = (process.env.ALLOWED_UPSTREAM_URLS || '')
+    .split(',')
+    .map(url => url.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+  if (allowed.length === 0) {
+    return 'upstreamUrl is not enabled on this deployment (ALLOWED_UPSTREAM_URLS is not set)';
+  }
+  if (!allowed.includes(upstreamUrl.replace(/\/+$/, ''))) {
+    return `upstreamUrl is not allowed: ${upstreamUrl}`;
+  }
+  return undefined;
+}
+
 /**
  * SimpleAnthropicProxy - A minimal HTTP proxy that intercepts requests to api.anthropic.com
  * and injects the real API key or OAuth token while Claude Code only sees a dummy token.
+ * Vertex AI and Bedrock are supported through a ModelProvider, which rewrites the
+ * upstream URL and mints tokens / signs requests instead.
  *
  * Security: This prevents Claude Code from accessing the real credentials through
  * environment variable inspection or other means.
+ *
+ * With a budget, the proxy reads usage from every /v1/messages response (JSON or
+ * streamed SSE) and refuses further requests once the budget is exhausted.
+ *
+ * For debugging, the proxy can record all API traffic, or replay a recording
+ * so a session can be reproduced deterministically without network access.
+ *
+ * Socket errors and retryable statuses (429, 5xx, 529 overloaded) are retried with
+ * exponential backoff and jitter, honouring retry-after. In-flight requests are capped
+ * per proxy (i.e. per task); requests over the cap wait for a free slot.
+ *
+ * A model policy can rewrite or reject the model of each call; the effective model
+ * is reported as a `model` event.
+ *
+ * Upstream traffic can be redirected to an internal gateway (upstreamUrl), trust an
+ * additional CA bundle, and be tunnelled through a corporate egress proxy.
  */
 export class SimpleAnthropicProxy {
   private server?: http.Server;
   private port: number = 0; // Dynamic port - assigned on listen
-  private apiKey?: string;
-  private oauthToken?: string;
+  private provider: ModelProvider;
+  private upstreamUrl?: string;
+  private ca?: string[];
+  private agent?: https.Agent;
+  private modelPolicy?: ModelPolicy;
+  private budgetTracker?: BudgetTracker;
+  private recorder?: ApiRecorder;
+  private replayFile?: string;
+  private replayer?: ApiReplayer;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private retryMaxDelayMs: number;
+  private maxConcurrentRequests: number;
+  private onEvent?: (event: ProxyEvent) => void;
+  private inFlight = 0;
+  private waiting: Array<() => void> = [];
+  private upstreamFailure?: string;
 
-  constructor(apiKey?: string, oauthToken?: string) {
-    if (!apiKey && !oauthToken) {
-      throw new Error('Either API key or OAuth token is required for proxy');
-    }
-    this.apiKey = apiKey;
-    this.oauthToken = oauthToken;
+  constructor(apiKey?: string, oauthToken?: string, options: SimpleProxyOptions = {}) {
+    this.provider = options.provider || new AnthropicProvider(apiKey, oauthToken);
+    this.upstreamUrl = options.upstreamUrl?.replace(/\/+$/, '');
+    this.ca = options.caBundle ? [...tls.rootCertificates, options.caBundle] : undefined;
+    this.agent = options.egressProxyUrl ? new EgressProxyAgent(options.egressProxyUrl, this.ca) : undefined;
+    this.modelPolicy = options.modelPolicy;
+    this.budgetTracker = options.budget ? new BudgetTracker(options.budget) : undefined;
+    this.recorder = options.record ? new ApiRecorder() : undefined;
+    this.replayFile = options.replayFile;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+    this.retryMaxDelayMs = options.retryMaxDelayMs ?? 30000;
+    this.maxConcurrentRequests = Math.max(1, options.maxConcurrentRequests ?? 4);
+    this.onEvent = options.onEvent;
   }
 
   async start(): Promise<void> {
+    if (this.replayFile) {
+      this.replayer = await ApiReplayer.fromFile(this.replayFile);
+    }
+
     return new Promise((resolve, reject) => {
       this.server = http.createServer((clientReq, clientRes) => {
         const requestUrl = clientReq.url || '/';
         logger.debug(`[Proxy] ${clientReq.method} ${requestUrl}`);
         logger.debug('[Proxy] Incoming headers from Claude:', JSON.stringify(clientReq.headers, null, 2));
 
-        // When using ANTHROPIC_BASE_URL, Claude SDK sends requests like:
-        // GET http://localhost:8765/v1/messages
-        // We need to forward to https://api.anthropic.com/v1/messages
-
         // Parse the path from the request
         let targetUrl: URL;
         try {
-          // Reconstruct the full Anthropic API URL with the requested path
-          targetUrl = new URL(requestUrl, 'https://api.anthropic.com');
+          // Reconstruct the full upstream URL with the requested path (on the gateway, if one is set)
+          targetUrl = this.provider.getUpstreamUrl(requestUrl, this.upstreamUrl);
         } catch (err) {
           logger.error(`[Proxy] Invalid URL: ${requestUrl}`);
           clientRes.writeHead(400);
@@ -49,77 +206,78 @@ export class SimpleAnthropicProxy {
           return;
         }
 
-        // Prepare headers with injected credentials
+        if (this.replayer) {
+          this.replay(clientReq, clientRes, requestUrl);
+          return;
+        }
+
+        // Credentials are added per attempt in forward()
         const headers: http.OutgoingHttpHeaders = {
           ...clientReq.headers,
-          'host': targetUrl.hostname
+          'host': targetUrl.host
         };
 
-        // Inject authentication based on what header Claude sent
-        // This allows Claude to determine the auth type based on env vars
-        if (headers['x-api-key']) {
-          // Claude sent x-api-key (from ANTHROPIC_API_KEY env var)
-          if (this.apiKey) {
-            headers['x-api-key'] = this.apiKey;
-            logger.debug(`[Proxy] Replacing x-api-key with real API key: ${this.apiKey.substring(0, 20)}...`);
-          } else {
-            logger.error('[Proxy] WARNING: Claude sent x-api-key but we have no API key to inject!');
-          }
-          delete headers['authorization']; // Ensure no conflicting auth
-        } else if (headers['authorization']) {
-          // Claude sent authorization header (from CLAUDE_CODE_OAUTH_TOKEN env var)
-          if (this.oauthToken) {
-            headers['authorization'] = `Bearer ${this.oauthToken}`;
-            logger.debug(`[Proxy] Replacing authorization with real OAuth token: ${this.oauthToken.substring(0, 30)}...`);
-          } else {
-            logger.error('[Proxy] WARNING: Claude sent authorization but we have no OAuth token to inject!');
-          }
-          delete headers['x-api-key']; // Ensure no conflicting auth
-        } else {
-          logger.error('[Proxy] WARNING: Claude sent neither x-api-key nor authorization header!');
-        }
-
         // Remove proxy-specific headers
         delete headers['proxy-connection'];
         delete headers['proxy-authorization'];
 
-        // Prepare proxy request options
-        const options: https.RequestOptions = {
-          hostname: targetUrl.hostname,
-          port: 443,
-          path: targetUrl.pathname + targetUrl.search,
-          method: clientReq.method,
-          headers: headers
-        };
+        // Model policy and budget enforcement apply to model calls only (not count_tokens etc.)
+        const isMessagesRequest = this.provider.isMessagesRequest(clientReq.method || 'GET', targetUrl.pathname);
+        const trackUsage = !!this.budgetTracker && isMessagesRequest;
 
-        // Forward request to Anthropic API
-        const proxyReq = https.request(options, (proxyRes) => {
-          // Log response status
-          logger.debug(`[Proxy] Response: ${proxyRes.statusCode} ${proxyRes.statusMessage}`);
+        if (trackUsage) {
+          const exceededReason = this.budgetTracker!.getExceededReason();
+          if (exceededReason) {
+            logger.warn(`[Proxy] Refusing request: ${exceededReason}`);
+            clientReq.resume();
+            clientRes.writeHead(400, { 'content-type': 'application/json' });
+            clientRes.end(JSON.stringify({
+              type: 'error',
+              error: { type: 'invalid_request_error', message: exceededReason }
+            }));
+            return;
+          }
 
-          // Forward response headers and status
-          clientRes.writeHead(proxyRes.statusCode || 200, proxyRes.headers);
+          // Uncompressed responses so usage can be read
+          headers['accept-encoding'] = 'identity';
+        }
 
-          // Pipe response body
-          proxyRes.pipe(clientRes);
-        });
+        if (this.recorder) {
+          headers['accept-encoding'] = 'identity'; // Readable response bodies
+        }
 
-        // Handle proxy request errors
-        proxyReq.on('error', (err) => {
-          logger.error('[Proxy] Request error:', err.message);
-          if (!clientRes.headersSent) {
-            clientRes.writeHead(502);
-            clientRes.end('Bad Gateway');
+        // Buffer the request body so it can be re-sent on retry
+        const chunks: Buffer[] = [];
+        clientReq.on('data', (chunk: Buffer) => chunks.push(chunk));
+        clientReq.on('end', () => {
+          let upstream: { url: URL; body: Buffer } = { url: targetUrl, body: Buffer.concat(chunks) };
+
+          if (isMessagesRequest) {
+            const routed = this.routeModel(clientReq.method || 'GET', requestUrl, upstream.url, upstream.body);
+            if ('rejected' in routed) {
+              clientRes.writeHead(400, { 'content-type': 'application/json' });
+              clientRes.end(JSON.stringify({
+                type: 'error',
+                error: { type: 'invalid_request_error', message: routed.rejected }
+              }));
+              return;
+            }
+            upstream = routed;
           }
-        });
 
-        // Pipe request body
-        clientReq.pipe(proxyReq);
+          this.forward(clientReq, clientRes, upstream.url, headers, upstream.body, trackUsage)
+            .catch((err) => {
+              logger.error('[Proxy] Unexpected error:', err.message);
+              if (!clientRes.headersSent) {
+                clientRes.writeHead(502);
+                clientRes.end('Bad Gateway');
+              }
+            });
+        });
 
         // Handle client errors
         clientReq.on('error', (err) => {
           logger.error('[Proxy] Client error:', err.message);
-          proxyReq.destroy();
         });
       });
 
@@ -156,4 +314,462 @@ export class SimpleAnthropicProxy {
   getPort(): number {
     return this.port;
   }
+
+  /**
+   * Environment variables that point the Claude CLI at this proxy
+   */
+  getClaudeEnv(): Record<string, string> {
+    return this.provider.getClaudeEnv(this.port);
+  }
+
+  /**
+   * Apply the model policy to a model call and log its effective model
+   */
+  private routeModel(
+    method: string,
+    path: string,
+    url: URL,
+    body: Buffer
+  ): { url: URL; body: Buffer } | { rejected: string } {
+    const requestedModel = this.provider.getRequestModel(url, body);
+    const event: ProxyEvent = { type: 'proxy', event: 'model', method, path, timestamp: new Date().toISOString() };
+
+    if (!this.modelPolicy || !requestedModel) {
+      this.emitEvent({ ...event, model: requestedModel });
+      return { url, body };
+    }
+
+    const decision = this.modelPolicy.apply(requestedModel);
+    if (!decision.allowed) {
+      logger.warn(`[Proxy] Refusing request: ${decision.reason}`);
+      this.emitEvent({ ...event, requestedModel, reason: decision.reason });
+      return { rejected: decision.reason };
+    }
+
+    if (!decision.rewrittenFrom) {
+      this.emitEvent({ ...event, model: requestedModel });
+      return { url, body };
+    }
+
+    logger.info(`[Proxy] Model policy: ${requestedModel} -> ${decision.model}`);
+    this.emitEvent({ ...event, model: decision.model, requestedModel });
+    return this.provider.setRequestModel(url, body, decision.model);
+  }
+
+  /**
+   * Send a buffered request upstream, retrying failures, and pipe the final response to the client
+   */
+  private async forward(
+    clientReq: http.IncomingMessage,
+    clientRes: http.ServerResponse,
+    targetUrl: URL,
+    headers: http.OutgoingHttpHeaders,
+    body: Buffer,
+    trackUsage: boolean
+  ): Promise<void> {
+    const method = clientReq.method || 'GET';
+    const requestUrl = clientReq.url || '/';
+    const sequence = this.recorder?.nextSequence();
+    const startedAt = Date.now();
+
+    const record = (response?: { statusCode: number; headers: http.IncomingHttpHeaders; body: string }, error?: string) => {
+      this.recorder?.add({
+        sequence: sequence!,
+        timestamp: new Date(startedAt).toISOString(),
+        durationMs: Date.now() - startedAt,
+        request: { method, path: requestUrl, headers: clientReq.headers, body: body.toString('utf-8') },
+        response,
+        error
+      });
+    };
+
+    // The body is re-sent as a whole
+    delete headers['transfer-encoding'];
+    if (body.length > 0 || headers['content-length'] !== undefined) {
+      headers['content-length'] = body.length;
+    }
+
+    await this.acquireSlot(method, requestUrl);
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        let proxyRes: http.IncomingMessage;
+        try {
+          await this.provider.authorize(method, targetUrl, headers, body);
+          proxyRes = await this.sendUpstream(targetUrl, method, headers, body);
+        } catch (err: any) {
+          if (attempt < this.maxRetries && !clientRes.destroyed) {
+            await this.backoff(attempt, method, requestUrl, `upstream error: ${err.message}`);
+            continue;
+          }
+
+          logger.error('[Proxy] Request error:', err.message);
+          this.upstreamFailure = `Model API unreachable: ${err.message}`;
+          record(undefined, err.message);
+          if (!clientRes.headersSent) {
+            clientRes.writeHead(502);
+            clientRes.end('Bad Gateway');
+          }
+          return;
+        }
+
+        // Log response status
+        const statusCode = proxyRes.statusCode || 200;
+        logger.debug(`[Proxy] Response: ${statusCode} ${proxyRes.statusMessage}`);
+
+        if (this.shouldRetry(method, proxyRes) && attempt < this.maxRetries && !clientRes.destroyed) {
+          proxyRes.resume(); // Discard the error body
+          await this.backoff(attempt, method, requestUrl, `status ${statusCode}`, proxyRes.headers);
+          continue;
+        }
+
+        // Failed with a transient status (e.g. 529 overloaded) - remembered for the task's failure
+        this.upstreamFailure = TRANSIENT_STATUS_CODES.includes(statusCode)
+          ? `Model API returned ${statusCode} after ${attempt} ${attempt === 1 ? 'retry' : 'retries'}`
+          : undefined;
+
+        if (trackUsage && statusCode === 200) {
+          this.trackUsage(proxyRes);
+        }
+
+        if (this.recorder) {
+          const responseChunks: Buffer[] = [];
+          proxyRes.on('data', (chunk: Buffer) => responseChunks.push(chunk));
+          proxyRes.on('end', () => record({
+            statusCode,
+            headers: proxyRes.headers,
+            body: Buffer.concat(responseChunks).toString('utf-8')
+          }));
+        }
+
+        // Upstream dropped mid-response - nothing left to retry, close the client connection
+        proxyRes.on('error', (err) => {
+          logger.error('[Proxy] Response error:', err.message);
+          clientRes.destroy();
+        });
+
+        // Forward response headers and status
+        clientRes.writeHead(statusCode, proxyRes.headers);
+
+        // Pipe response body
+        proxyRes.pipe(clientRes);
+        await finished(clientRes).catch(() => undefined);
+        return;
+      }
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  /**
+   * Send one request to the upstream
+   * Plain HTTP is only meant for local fake upstreams (never tunnelled through the egress proxy)
+   */
+  private sendUpstream(
+    targetUrl: URL,
+    method: string,
+    headers: http.OutgoingHttpHeaders,
+    body: Buffer
+  ): Promise<http.IncomingMessage> {
+    return new Promise((resolve, reject) => {
+      const isHttps = targetUrl.protocol === 'https:';
+      const requestOptions: https.RequestOptions = {
+        hostname: targetUrl.hostname,
+        port: targetUrl.port || (isHttps ? 443 : 80),
+        path: targetUrl.pathname + targetUrl.search,
+        method,
+        headers
+      };
+
+      if (isHttps) {
+        requestOptions.agent = this.agent;
+        requestOptions.ca = this.ca;
+      }
+
+      const proxyReq = (isHttps ? https : http).request(requestOptions, resolve);
+
+      proxyReq.on('error', reject);
+      proxyReq.end(body);
+    });
+  }
+
+  /**
+   * Whether an upstream response should be retried (x-should-retry overrides the status)
+   * A model call (POST) may have been processed despite a 5xx, and retrying it could bill a
+   * generation twice - it is only retried when the API says so (x-should-retry, or a
+   * 429/503/529 with retry-after). Idempotent requests are retried on any transient status.
+   */
+  private shouldRetry(method: string, proxyRes: http.IncomingMessage): boolean {
+    const shouldRetryHeader = proxyRes.headers['x-should-retry'];
+    if (shouldRetryHeader === 'true') return true;
+    if (shouldRetryHeader === 'false') return false;
+
+    const statusCode = proxyRes.statusCode || 0;
+    if (IDEMPOTENT_METHODS.includes(method.toUpperCase())) {
+      return TRANSIENT_STATUS_CODES.includes(statusCode);
+    }
+    return statusCode === 408 || (THROTTLE_STATUS_CODES.includes(statusCode) && this.parseRetryAfter(proxyRes.headers) !== undefined);
+  }
+
+  /**
+   * Wait before the next attempt: retry-after if the server sent it, otherwise
+   * exponential backoff with jitter
+   */
+  private async backoff(
+    attempt: number,
+    method: string,
+    path: string,
+    reason: string,
+    responseHeaders?: http.IncomingHttpHeaders
+  ): Promise<void> {
+    const retryAfterMs = this.parseRetryAfter(responseHeaders);
+    const exponentialMs = Math.min(this.retryMaxDelayMs, this.retryBaseDelayMs * 2 ** attempt);
+    const delayMs = retryAfterMs !== undefined
+      ? Math.min(retryAfterMs, MAX_RETRY_AFTER_MS)
+      : Math.round(exponentialMs / 2 + Math.random() * exponentialMs / 2);
+
+    logger.warn(`[Proxy] ${method} ${path} failed (${reason}) - retry ${attempt + 1}/${this.maxRetries} in ${delayMs}ms`);
+    this.emitEvent({
+      type: 'proxy',
+      event: 'retry',
+      method,
+      path,
+      timestamp: new Date().toISOString(),
+      attempt: attempt + 1,
+      maxRetries: this.maxRetries,
+      delayMs,
+      reason
+    });
+
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+  }
+
+  /**
+   * Delay requested by retry-after-ms / retry-after (seconds or HTTP date)
+   */
+  private parseRetryAfter(headers?: http.IncomingHttpHeaders): number | undefined {
+    if (!headers) {
+      return undefined;
+    }
+
+    const retryAfterMs = Number(headers['retry-after-ms']);
+    if (headers['retry-after-ms'] && Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+      return retryAfterMs;
+    }
+
+    const retryAfter = headers['retry-after'];
+    if (!retryAfter) {
+      return undefined;
+    }
+
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      return seconds * 1000;
+    }
+
+    const date = Date.parse(retryAfter);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Wait for a free in-flight slot
+   */
+  private async acquireSlot(method: string, path: string): Promise<void> {
+    if (this.inFlight < this.maxConcurrentRequests) {
+      this.inFlight++;
+      return;
+    }
+
+    logger.warn(`[Proxy] ${this.inFlight} requests in flight - queueing ${method} ${path}`);
+    this.emitEvent({
+      type: 'proxy',
+      event: 'throttle',
+      method,
+      path,
+      timestamp: new Date().toISOString(),
+      inFlight: this.inFlight,
+      maxConcurrentRequests: this.maxConcurrentRequests
+    });
+
+    // The releasing request hands its slot over, so inFlight stays the same
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.inFlight--;
+    }
+  }
+
+  private emitEvent(event: ProxyEvent): void {
+    try {
+      this.onEvent?.(event);
+    } catch (err: any) {
+      logger.error('[Proxy] Event handler failed:', err.message);
+    }
+  }
+
+  /**
+   * Recorded API traffic (undefined unless the record option was set)
+   */
+  getRecording(): ApiRecorder | undefined {
+    return this.recorder;
+  }
+
+  /**
+   * Answer a request from the loaded recording
+   */
+  private replay(clientReq: http.IncomingMessage, clientRes: http.ServerResponse, requestUrl: string): void {
+    const chunks: Buffer[] = [];
+    clientReq.on('data', (chunk: Buffer) => chunks.push(chunk));
+    clientReq.on('end', () => {
+      const method = clientReq.method || 'GET';
+      const exchange = this.replayer!.take(method, requestUrl, Buffer.concat(chunks).toString('utf-8'));
+
+      if (!exchange) {
+        logger.error(`[Proxy] No recorded response left for ${method} ${requestUrl}`);
+        clientRes.writeHead(400, { 'content-type': 'application/json' });
+        clientRes.end(JSON.stringify({
+          type: 'error',
+          error: { type: 'invalid_request_error', message: `Replay: no recorded response left for ${method} ${requestUrl}` }
+        }));
+        return;
+      }
+
+      logger.debug(`[Proxy] Replaying exchange #${exchange.sequence} for ${method} ${requestUrl}`);
+      ApiReplayer.writeResponse(exchange, clientRes);
+    });
+  }
+
+  /**
+   * Reason the task's budget is exhausted, or undefined if within budget (or no budget set)
+   */
+  getBudgetExceededReason(): string | undefined {
+    return this.budgetTracker?.getExceededReason();
+  }
+
+  /**
+   * Why the last model API request failed even after retries (status or socket error)
+   * Undefined once a later request got a non-retryable response.
+   */
+  getUpstreamFailure(): string | undefined {
+    return this.upstreamFailure;
+  }
+
+  /**
+   * Read usage from a model response as it is piped to the client
+   * Streamed responses report usage in message_start and message_delta events
+   * (SSE, or AWS event stream frames for Bedrock).
+   */
+  private trackUsage(proxyRes: http.IncomingMessage): void {
+    const contentType = String(proxyRes.headers['content-type'] || '');
+    const isStream = contentType.includes('text/event-stream');
+    const isEventStream = contentType.includes('application/vnd.amazon.eventstream');
+    let frames: Buffer = Buffer.alloc(0);
+    const decoder = new StringDecoder('utf8');
+    let buffer = '';
+    let model: string | undefined;
+    const usage: ApiUsage = {};
+
+    const mergeUsage = (update: any) => {
+      for (const key of ['input_tokens', 'output_tokens', 'cache_creation_input_tokens', 'cache_read_input_tokens'] as const) {
+        if (typeof update?.[key] === 'number') {
+          usage[key] = update[key];
+        }
+      }
+    };
+
+    const handleEvent = (data: string) => {
+      try {
+        const event = JSON.parse(data);
+        if (event.type === 'message_start') {
+          model = event.message?.model;
+          mergeUsage(event.message?.usage);
+        } else if (event.type === 'message_delta') {
+          // Usage in message_delta is cumulative
+          mergeUsage(event.usage);
+        }
+      } catch (e) {
+        // Not JSON (e.g. [DONE] or keep-alive) - ignore
+      }
+    };
+
+    const handleLines = () => {
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          handleEvent(line.slice(5).trim());
+        }
+      }
+    };
+
+    proxyRes.on('data', (chunk: Buffer) => {
+      if (isEventStream) {
+        frames = readEventStreamFrames(Buffer.concat([frames, chunk]), handleEvent);
+        return;
+      }
+      buffer += decoder.write(chunk);
+      if (isStream) {
+        handleLines();
+      }
+    });
+
+    proxyRes.on('end', () => {
+      buffer += decoder.end();
+
+      if (isEventStream) {
+        // Usage already collected frame by frame
+      } else if (isStream) {
+        buffer += '\n';
+        handleLines();
+      } else {
+        try {
+          const body = JSON.parse(buffer);
+          model = body.model;
+          mergeUsage(body.usage);
+        } catch (e: any) {
+          logger.warn('[Proxy] Could not read usage from response:', e.message);
+          return;
+        }
+      }
+
+      this.budgetTracker!.record(model, usage);
+    });
+  }
+}
+
+/**
+ * Decode complete AWS event stream frames (Bedrock invoke-with-response-stream)
+ * Each frame's payload is {"bytes": "<base64 Anthropic stream event>"}
+ * @returns Bytes of a trailing incomplete frame
+ */
+function readEventStreamFrames(buffer: Buffer, onEvent: (data: string) => void): Buffer {
+  let offset = 0;
+
+  // Frame: total length (4) + headers length (4) + prelude CRC (4) + headers + payload + CRC (4)
+  while (buffer.length - offset >= 12) {
+    const totalLength = buffer.readUInt32BE(offset);
+    if (totalLength < 16 || buffer.length - offset < totalLength) {
+      break;
+    }
+    const headersLength = buffer.readUInt32BE(offset + 4);
+    const payload = buffer.subarray(offset + 12 + headersLength, offset + totalLength - 4);
+
+    try {
+      const { bytes } = JSON.parse(payload.toString('utf-8'));
+      if (typeof bytes === 'string') {
+        onEvent(Buffer.from(bytes, 'base64').toString('utf-8'));
+      }
+    } catch (e) {
+      // Exception frames or non-JSON payloads carry no usage
+    }
+
+    offset += totalLength;
+  }
+
+  return buffer.subarray(offset);
 }
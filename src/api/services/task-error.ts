@@ -0,0 +1,39 @@
+import { FailurePhase, TaskErrorCode } from "../types/async-task.types.js";
+import { RetryableFailure } from "../types/request.types.js";
+
+/**
+ * Error with a machine-readable code, reported as the task's errorCode
+ */
+export class TaskError extends Error {
+  /**
+   * @param retryable - Transient failure class a retryPolicy may retry
+   */
+  constructor(
+    message: string,
+    public readonly code: TaskErrorCode,
+    public readonly retryable?: RetryableFailure
+  ) {
+    super(message);
+    this.name = 'TaskError';
+  }
+}
+
+/**
+ * Classified failure of a task, passed to OutputHandler.onComplete
+ */
+export interface TaskFailure {
+  errorCode: TaskErrorCode;
+  failurePhase: FailurePhase;
+  retryable?: RetryableFailure;
+}
+
+/**
+ * Classify an error thrown in the given phase
+ * Errors that aren't TaskErrors get SETUP before Claude started, INTERNAL otherwise.
+ */
+export function toTaskFailure(error: unknown, failurePhase: FailurePhase): TaskFailure {
+  if (error instanceof TaskError) {
+    return { errorCode: error.code, failurePhase, retryable: error.retryable };
+  }
+  return { errorCode: failurePhase === 'setup' ? 'SETUP' : 'INTERNAL', failurePhase };
+}
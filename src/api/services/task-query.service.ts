@@ -0,0 +1,216 @@
+import { GCSLoggerService, TaskIndexEntry } from "./gcs.service.js";
+import {
+  AsyncTaskMetadata,
+  AsyncTaskStatus,
+  TaskListQuery,
+  TaskListResponse
+} from "../types/async-task.types.js";
+import { logger } from "../../utils/logger.js";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/** Parallel metadata downloads for a page */
+const READ_CONCURRENCY = 20;
+
+/**
+ * Position of the last task on a page, encoded into the opaque cursor
+ */
+interface TaskCursor {
+  createdAt: string;
+  taskId: string;
+}
+
+/**
+ * TaskQueryService
+ * Lists and filters tasks using the listing index (index/{asc|desc}/..., see GCSLoggerService.writeTaskIndex)
+ *
+ * Pagination uses a cursor on (createdAt, taskId), so pages stay stable while new tasks
+ * are being created. A page starts listing the index right after the cursor and only
+ * downloads the metadata of the tasks it returns.
+ */
+export class TaskQueryService {
+  /** Index entries listed per GCS request */
+  private static readonly SCAN_PAGE_SIZE = 500;
+
+  /** Marks that tasks created before the index existed were added to it */
+  private static readonly BACKFILL_MARKER = 'index/backfill.json';
+
+  constructor(private gcsLogger: GCSLoggerService = new GCSLoggerService()) {}
+
+  /**
+   * List tasks matching the query, sorted by createdAt
+   * Filters are applied to the index first and checked again against each task's metadata,
+   * so a page can have fewer than `limit` tasks while nextCursor is set.
+   * @throws Error if the cursor is malformed
+   */
+  async listTasks(query: TaskListQuery): Promise<TaskListResponse> {
+    const order = query.order || 'desc';
+    const limit = Math.min(Math.max(query.limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const cursor = query.cursor ? this.decodeCursor(query.cursor) : undefined;
+    const { startOffset, endOffset } = this.getRange(order, query, cursor);
+
+    // Collect one candidate more than the page holds to know whether there is a next page
+    const candidates: TaskIndexEntry[] = [];
+    let pageToken: string | undefined;
+    let scanned = 0;
+    do {
+      const page = await this.gcsLogger.listTaskIndex(order, {
+        startOffset,
+        endOffset,
+        pageToken,
+        maxResults: TaskQueryService.SCAN_PAGE_SIZE
+      });
+      pageToken = page.nextPageToken;
+      scanned += page.entries.length;
+
+      for (const entry of page.entries) {
+        // startOffset is inclusive - skip the cursor's own task
+        if (cursor && entry.taskId === cursor.taskId && entry.createdAt === cursor.createdAt) {
+          continue;
+        }
+        if (this.matches(entry, query, true)) {
+          candidates.push(entry);
+          if (candidates.length > limit) {
+            break;
+          }
+        }
+      }
+    } while (pageToken && candidates.length <= limit);
+
+    const pageEntries = candidates.slice(0, limit);
+    const tasks = (await this.readMetadata(pageEntries)).filter(task => this.matches(task, query));
+    const last = pageEntries[pageEntries.length - 1];
+    const nextCursor = candidates.length > limit && last
+      ? this.encodeCursor({ createdAt: last.createdAt, taskId: last.taskId })
+      : undefined;
+
+    logger.debug(`Task list query scanned ${scanned} index entries, returning ${tasks.length} tasks`);
+
+    return { tasks, nextCursor };
+  }
+
+  /**
+   * Add tasks created before the listing index existed to it (once per bucket)
+   * The first instance to claim the marker does it; tasks created meanwhile are indexed as usual.
+   */
+  async backfillIndex(): Promise<void> {
+    const claimed = await this.gcsLogger.writeJsonIfGenerationMatch(
+      TaskQueryService.BACKFILL_MARKER,
+      { startedAt: new Date().toISOString() },
+      0
+    );
+    if (!claimed) {
+      return;
+    }
+
+    const all: AsyncTaskMetadata[] = await this.gcsLogger.listTaskMetadata();
+    for (const metadata of all) {
+      await this.gcsLogger.writeTaskIndex(metadata);
+    }
+    logger.info(`Added ${all.length} existing tasks to the task listing index`);
+  }
+
+  /**
+   * Index range to list: after the cursor, within createdAfter/createdBefore
+   */
+  private getRange(
+    order: 'asc' | 'desc',
+    query: TaskListQuery,
+    cursor?: TaskCursor
+  ): { startOffset?: string; endOffset?: string } {
+    const bounds: Array<string | undefined> = order === 'asc'
+      ? [
+        query.createdAfter && this.gcsLogger.getTaskIndexBound('asc', query.createdAfter),
+        query.createdBefore && this.gcsLogger.getTaskIndexBound('asc', query.createdBefore)
+      ]
+      : [
+        // '~' sorts after '_', so entries created exactly at the bound fall outside [createdBefore, ...)
+        query.createdBefore && `${this.gcsLogger.getTaskIndexBound('desc', query.createdBefore)}~`,
+        query.createdAfter && `${this.gcsLogger.getTaskIndexBound('desc', query.createdAfter)}~`
+      ];
+
+    const cursorName = cursor && this.gcsLogger.getTaskIndexName(order, cursor.createdAt, cursor.taskId);
+    const starts = [bounds[0], cursorName].filter((name): name is string => !!name).sort();
+
+    return { startOffset: starts[starts.length - 1], endOffset: bounds[1] || undefined };
+  }
+
+  /**
+   * Read the metadata of the listed tasks (tasks deleted meanwhile are skipped)
+   */
+  private async readMetadata(entries: TaskIndexEntry[]): Promise<AsyncTaskMetadata[]> {
+    const results: AsyncTaskMetadata[] = [];
+    for (let i = 0; i < entries.length; i += READ_CONCURRENCY) {
+      const batch = await Promise.all(entries.slice(i, i + READ_CONCURRENCY).map(async entry => {
+        try {
+          return await this.gcsLogger.readMetadata(entry.taskId) as AsyncTaskMetadata | null;
+        } catch (error: any) {
+          logger.debug(`Skipping task ${entry.taskId}:`, error.message);
+          return null;
+        }
+      }));
+      results.push(...batch.filter((metadata): metadata is AsyncTaskMetadata => metadata !== null));
+    }
+    return results;
+  }
+
+  /**
+   * Check whether a task (its metadata, or its index entry) matches all filters of the query
+   * Index entries without user metadata (too large to index) pass the metadata filter here.
+   */
+  private matches(task: AsyncTaskMetadata | TaskIndexEntry, query: TaskListQuery, isIndexEntry = false): boolean {
+    if (!task.taskId || !task.createdAt) {
+      return false;
+    }
+    if (query.status && query.status.length > 0 && !query.status.includes(task.status as AsyncTaskStatus)) {
+      return false;
+    }
+    if (query.createdAfter && task.createdAt < new Date(query.createdAfter).toISOString()) {
+      return false;
+    }
+    if (query.createdBefore && task.createdAt >= new Date(query.createdBefore).toISOString()) {
+      return false;
+    }
+    if (query.executionMode && (task.executionMode || 'async') !== query.executionMode) {
+      return false;
+    }
+    if (query.metadata && !(isIndexEntry && task.metadata === undefined)) {
+      for (const [key, value] of Object.entries(query.metadata)) {
+        const actual = task.metadata?.[key];
+        if (actual === undefined || actual === null || String(actual) !== value) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Check whether a cursor string was produced by this service
+   */
+  isValidCursor(value: string): boolean {
+    try {
+      this.decodeCursor(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private encodeCursor(cursor: TaskCursor): string {
+    return Buffer.from(JSON.stringify(cursor), 'utf-8').toString('base64url');
+  }
+
+  private decodeCursor(value: string): TaskCursor {
+    try {
+      const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'));
+      if (typeof cursor.createdAt !== 'string' || typeof cursor.taskId !== 'string') {
+        throw new Error('missing fields');
+      }
+      return cursor;
+    } catch {
+      throw new Error('Invalid cursor');
+    }
+  }
+}
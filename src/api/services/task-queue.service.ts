@@ -0,0 +1,497 @@
+import crypto from "crypto";
+import { GCSLoggerService } from "./gcs.service.js";
+import { JobTriggerService } from "./job-trigger.service.js";
+import { TaskRegistry, TaskRegistration } from "./task-registry.service.js";
+import { sendWebhook } from "./output-handlers.js";
+import { AsyncTaskMetadata, AsyncTaskResult, TaskErrorCode } from "../types/async-task.types.js";
+import { createModuleLogger } from "../../utils/logger.js";
+
+const logger = createModuleLogger('task-queue');
+
+/**
+ * A task waiting for its Cloud Run Job execution
+ */
+export interface QueueEntry extends TaskRegistration {
+  taskId: string;
+
+  /** 0-100, higher starts first */
+  priority: number;
+
+  enqueuedAt: string;
+
+  /** When the task and its encrypted payload were created (retries keep the original payload) */
+  createdAt?: string;
+
+  encryptedPayloadPath: string;
+  callbackUrl: string;
+
+  /** User metadata (for the webhook if the task never starts) */
+  metadata?: Record<string, any>;
+
+  /** Failed trigger attempts so far */
+  attempts: number;
+
+  /** Earliest time of the next trigger attempt (backoff after a failure) */
+  notBefore?: string;
+
+  /** Set by the instance starting (or cancelling) the task - no one else may act on the entry */
+  claimedAt?: string;
+}
+
+/**
+ * Outcome of cancelling a queued task
+ */
+export type QueueCancelResult = 'cancelled' | 'starting' | 'not-queued';
+
+/**
+ * TaskQueue
+ * Holds async tasks until a Cloud Run Job execution can be started for them.
+ *
+ * Entries are GCS objects (queue/tasks/{100 - priority}-{enqueuedAt}-{taskId}.json),
+ * so listing them yields the dispatch order: highest priority first, then oldest first.
+ * Every instance runs a dispatcher, but only the holder of the dispatcher lease
+ * (queue/dispatcher.json) starts jobs, keeping the number of running tasks in the
+ * TaskRegistry below MAX_CONCURRENT_TASKS. Failed job triggers (e.g. the Cloud Run
+ * execution quota) are retried with exponential backoff; after QUEUE_MAX_TRIGGER_ATTEMPTS
+ * the task fails and its webhook is called.
+ *
+ * Before an instance starts or cancels a task it claims the entry with a
+ * generation-match write, so a task is never started twice or started while cancelled.
+ *
+ * A task still waiting 24 hours after it was created fails with QUEUE_EXPIRED,
+ * before the bucket's lifecycle rule deletes its encrypted payload (tasks/, 2 days).
+ */
+export class TaskQueue {
+  public static readonly DEFAULT_PRIORITY = 50;
+  public static readonly MAX_PRIORITY = 100;
+
+  private static instance: TaskQueue;
+  private static readonly PREFIX = 'queue/tasks/';
+  private static readonly LEASE_PATH = 'queue/dispatcher.json';
+  private static readonly LEASE_MS = 30 * 1000;
+  private static readonly STALE_CLAIM_MS = 2 * 60 * 1000;
+  private static readonly RETRY_BASE_MS = 15 * 1000;
+  private static readonly RETRY_MAX_MS = 10 * 60 * 1000;
+  private static readonly MAX_WAIT_MS = 24 * 60 * 60 * 1000;
+  private static readonly ENTRY_NAME = /(\d{3})-(\d{13})-([a-zA-Z0-9_-]+)\.json$/;
+
+  private instanceId = crypto.randomUUID();
+  private timer?: NodeJS.Timeout;
+  private draining?: Promise<void>;
+  private drainAgain = false;
+
+  private constructor(
+    private gcsLogger: GCSLoggerService,
+    private jobTrigger: JobTriggerService,
+    private registry: TaskRegistry,
+    public readonly maxRunningTasks: number,
+    private maxTriggerAttempts: number,
+    private pollIntervalMs: number
+  ) {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): TaskQueue {
+    if (!TaskQueue.instance) {
+      TaskQueue.instance = new TaskQueue(
+        new GCSLoggerService(),
+        new JobTriggerService(),
+        TaskRegistry.getInstance(),
+        parseInt(process.env.MAX_CONCURRENT_TASKS || '10', 10),
+        parseInt(process.env.QUEUE_MAX_TRIGGER_ATTEMPTS || '8', 10),
+        parseInt(process.env.QUEUE_POLL_INTERVAL_SECONDS || '5', 10) * 1000
+      );
+    }
+    return TaskQueue.instance;
+  }
+
+  /**
+   * Start the periodic dispatcher
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.kick(), this.pollIntervalMs);
+    this.timer.unref();
+    logger.info(`Task queue dispatcher started (max running tasks: ${this.maxRunningTasks}, poll interval: ${this.pollIntervalMs}ms)`);
+    this.kick();
+  }
+
+  public stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Add a task to the queue
+   * The task's metadata (status 'queued') and encrypted payload must already be stored.
+   */
+  public async enqueue(entry: Omit<QueueEntry, 'enqueuedAt' | 'attempts'>): Promise<void> {
+    const queued: QueueEntry = { ...entry, enqueuedAt: new Date().toISOString(), attempts: 0 };
+    const objectPath = this.entryPath(queued);
+
+    if (!(await this.gcsLogger.writeJsonIfGenerationMatch(objectPath, queued, 0))) {
+      throw new Error(`Task ${entry.taskId} is already queued`);
+    }
+    logger.info(`[TASK ${entry.taskId}] Queued (priority: ${entry.priority})`);
+  }
+
+  /**
+   * Start a dispatch run now (e.g. after enqueueing); runs requested meanwhile are coalesced
+   */
+  public kick(): void {
+    if (this.draining) {
+      this.drainAgain = true;
+      return;
+    }
+
+    this.draining = this.drain()
+      .catch(error => {
+        logger.error('Task queue dispatch failed:', error.message);
+      })
+      .finally(() => {
+        this.draining = undefined;
+        if (this.drainAgain) {
+          this.drainAgain = false;
+          this.kick();
+        }
+      });
+  }
+
+  /**
+   * Get a queued task's entry
+   */
+  public async getEntry(taskId: string): Promise<QueueEntry | undefined> {
+    const objectPath = await this.findEntryPath(taskId);
+    if (!objectPath) {
+      return undefined;
+    }
+    const entry = await this.gcsLogger.readJsonWithGeneration(objectPath);
+    return entry?.data;
+  }
+
+  /**
+   * 1-based position of a task in dispatch order, or undefined if it isn't queued
+   */
+  public async getPosition(taskId: string): Promise<number | undefined> {
+    const index = (await this.listEntryPaths()).findIndex(entryPath => this.taskIdOf(entryPath) === taskId);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  /**
+   * Number of queued tasks
+   */
+  public async getLength(): Promise<number> {
+    return (await this.listEntryPaths()).length;
+  }
+
+  /**
+   * Cancel a task that hasn't been started yet
+   * @returns 'starting' if its job is being started right now (cancel it as a running task shortly)
+   */
+  public async cancel(taskId: string, cancelledBy?: string): Promise<QueueCancelResult> {
+    const objectPath = await this.findEntryPath(taskId);
+    if (!objectPath) {
+      return 'not-queued';
+    }
+
+    const current = await this.gcsLogger.readJsonWithGeneration(objectPath);
+    if (!current) {
+      return 'not-queued';
+    }
+
+    const entry = await this.claim(objectPath, current.data, current.generation);
+    if (!entry) {
+      return 'starting';
+    }
+
+    logger.info(`[TASK ${taskId}] Cancelling queued task${cancelledBy ? ` (by ${cancelledBy})` : ''}`);
+    await this.finish(objectPath, entry, 'cancelled', 'Task cancelled by user (while queued)', cancelledBy);
+    return 'cancelled';
+  }
+
+  /**
+   * Start queued tasks in order until MAX_CONCURRENT_TASKS tasks are running
+   * Tasks being started (claimed entries not yet in the registry) count as running.
+   * The lease is renewed before each dispatch - if another instance took it over, this one stops.
+   */
+  private async drain(): Promise<void> {
+    const entryPaths = await this.listEntryPaths();
+    if (entryPaths.length === 0 || !(await this.acquireLease())) {
+      return;
+    }
+
+    let running = await this.countRunning();
+    for (const objectPath of entryPaths) {
+      if (running >= this.maxRunningTasks) {
+        logger.debug(`${running} tasks running (max: ${this.maxRunningTasks}) - ${entryPaths.length} queued tasks wait`);
+        return;
+      }
+      if (!(await this.acquireLease())) {
+        logger.warn('Lost the task queue dispatcher lease - stopping dispatch');
+        return;
+      }
+      if (await this.dispatch(objectPath)) {
+        running++;
+      }
+    }
+  }
+
+  /**
+   * Registered tasks plus queued tasks whose job is being started (claimed, not yet registered)
+   */
+  private async countRunning(): Promise<number> {
+    const registered = new Set(await this.registry.getActiveTaskIds());
+    const entries: QueueEntry[] = await this.gcsLogger.listJsonObjects(TaskQueue.PREFIX);
+    const starting = entries.filter(entry =>
+      entry.claimedAt &&
+      Date.now() - new Date(entry.claimedAt).getTime() < TaskQueue.STALE_CLAIM_MS &&
+      !registered.has(entry.taskId)
+    );
+    return registered.size + starting.length;
+  }
+
+  /**
+   * Take or renew the dispatcher lease - only one instance starts jobs at a time
+   */
+  private async acquireLease(): Promise<boolean> {
+    const now = Date.now();
+    const lease = { instanceId: this.instanceId, renewedAt: new Date(now).toISOString() };
+    const current = await this.gcsLogger.readJsonWithGeneration(TaskQueue.LEASE_PATH);
+
+    if (!current) {
+      return this.gcsLogger.writeJsonIfGenerationMatch(TaskQueue.LEASE_PATH, lease, 0);
+    }
+
+    const expired = now - new Date(current.data.renewedAt).getTime() > TaskQueue.LEASE_MS;
+    if (current.data.instanceId !== this.instanceId && !expired) {
+      return false;
+    }
+    if (current.data.instanceId !== this.instanceId) {
+      logger.info(`Taking over the task queue dispatcher lease from instance ${current.data.instanceId}`);
+    }
+    return this.gcsLogger.writeJsonIfGenerationMatch(TaskQueue.LEASE_PATH, lease, current.generation);
+  }
+
+  /**
+   * Start one queued task's job
+   * @returns true if the task was started (or an interrupted start was completed)
+   */
+  private async dispatch(objectPath: string): Promise<boolean> {
+    const current = await this.gcsLogger.readJsonWithGeneration(objectPath);
+    if (!current) {
+      return false; // Started or cancelled meanwhile
+    }
+
+    const queued: QueueEntry = current.data;
+    if (queued.notBefore && new Date(queued.notBefore).getTime() > Date.now()) {
+      return false; // Backing off after a failed trigger
+    }
+
+    if (queued.claimedAt) {
+      const recovered = await this.recoverClaim(objectPath, queued);
+      if (recovered) {
+        return recovered === 'handed-off';
+      }
+    }
+
+    const entry = await this.claim(objectPath, queued, current.generation);
+    if (!entry) {
+      return false;
+    }
+
+    const { taskId } = entry;
+    const waitedMs = Date.now() - new Date(entry.createdAt || entry.enqueuedAt).getTime();
+    if (waitedMs > TaskQueue.MAX_WAIT_MS) {
+      logger.error(`[TASK ${taskId}] Not started within ${TaskQueue.MAX_WAIT_MS / 3600000} hours of its creation - failing it`);
+      await this.finish(
+        objectPath,
+        entry,
+        'failed',
+        `The task waited in the queue for more than ${TaskQueue.MAX_WAIT_MS / 3600000} hours without being started`,
+        undefined,
+        'QUEUE_EXPIRED'
+      );
+      return false;
+    }
+
+    let executionName: string;
+    try {
+      // A failed metadata write backs off like a failed trigger instead of leaving the entry claimed
+      await this.gcsLogger.updateMetadata(taskId, { status: 'pending' });
+      executionName = await this.jobTrigger.triggerJobExecution(taskId, entry.encryptedPayloadPath);
+    } catch (error: any) {
+      await this.recordTriggerFailure(objectPath, entry, error.message);
+      return false;
+    }
+
+    // Record execution name so GET /tasks/:taskId can report it
+    try {
+      await this.gcsLogger.updateMetadata(taskId, { executionName });
+    } catch (error: any) {
+      logger.warn(`[TASK ${taskId}] Failed to record execution name in metadata:`, error.message);
+    }
+
+    await this.handOff(objectPath, entry, executionName);
+    logger.info(`[TASK ${taskId}] Started from queue after ${Date.now() - new Date(entry.enqueuedAt).getTime()}ms: ${executionName}`);
+    return true;
+  }
+
+  /**
+   * Claim an entry (generation match) so no other instance starts or cancels it
+   * Entries claimed by an instance that stopped mid-way can be claimed again after a grace period.
+   * @returns The claimed entry, or undefined if it is claimed by someone else or changed concurrently
+   */
+  private async claim(objectPath: string, entry: QueueEntry, generation: string): Promise<QueueEntry | undefined> {
+    if (entry.claimedAt && Date.now() - new Date(entry.claimedAt).getTime() < TaskQueue.STALE_CLAIM_MS) {
+      return undefined;
+    }
+
+    const claimed: QueueEntry = { ...entry, claimedAt: new Date().toISOString() };
+    return await this.gcsLogger.writeJsonIfGenerationMatch(objectPath, claimed, generation) ? claimed : undefined;
+  }
+
+  /**
+   * Clean up an entry whose previous claimant stopped after starting or finishing the task
+   * @returns How the entry was handled, or undefined if its job was never started
+   */
+  private async recoverClaim(objectPath: string, entry: QueueEntry): Promise<'claimed' | 'handed-off' | 'removed' | undefined> {
+    if (Date.now() - new Date(entry.claimedAt!).getTime() < TaskQueue.STALE_CLAIM_MS) {
+      return 'claimed'; // Still being started or cancelled (counted as running by countRunning)
+    }
+
+    const metadata: AsyncTaskMetadata | null = await this.gcsLogger.readMetadata(entry.taskId);
+    if (metadata?.executionName && ['pending', 'running'].includes(metadata.status)) {
+      logger.warn(`[TASK ${entry.taskId}] Completing interrupted dispatch (${metadata.executionName})`);
+      await this.handOff(objectPath, entry, metadata.executionName);
+      return 'handed-off';
+    }
+    if (!metadata || metadata.executionName || ['completed', 'failed', 'cancelled'].includes(metadata.status)) {
+      logger.warn(`[TASK ${entry.taskId}] Removing stale queue entry (status: ${metadata?.status})`);
+      await this.gcsLogger.deleteObject(objectPath);
+      return 'removed';
+    }
+    return undefined; // The job was never started - start it now
+  }
+
+  /**
+   * Move a started task from the queue to the registry
+   */
+  private async handOff(objectPath: string, entry: QueueEntry, executionName: string): Promise<void> {
+    try {
+      await this.registry.register(entry.taskId, executionName, 'async', {
+        createdBy: entry.createdBy,
+        tenant: entry.tenant,
+        quotaSlot: entry.quotaSlot
+      });
+    } catch (error: any) {
+      logger.error(`[TASK ${entry.taskId}] Failed to register task:`, error.message);
+      // Continue anyway - registration is for cancellation only
+    }
+    await this.gcsLogger.deleteObject(objectPath);
+  }
+
+  /**
+   * Schedule a retry with exponential backoff, or fail the task after QUEUE_MAX_TRIGGER_ATTEMPTS
+   */
+  private async recordTriggerFailure(objectPath: string, entry: QueueEntry, message: string): Promise<void> {
+    const attempts = entry.attempts + 1;
+    if (attempts >= this.maxTriggerAttempts) {
+      logger.error(`[TASK ${entry.taskId}] Giving up after ${attempts} failed job triggers: ${message}`);
+      await this.finish(objectPath, entry, 'failed', `Failed to start the job after ${attempts} attempts: ${message}`, undefined, 'JOB_START');
+      return;
+    }
+
+    const delayMs = Math.min(TaskQueue.RETRY_BASE_MS * 2 ** (attempts - 1), TaskQueue.RETRY_MAX_MS);
+    logger.warn(`[TASK ${entry.taskId}] Job trigger failed (attempt ${attempts}), retrying in ${delayMs / 1000}s: ${message}`);
+
+    const { claimedAt, ...unclaimed } = entry;
+    const retry: QueueEntry = { ...unclaimed, attempts, notBefore: new Date(Date.now() + delayMs).toISOString() };
+
+    const current = await this.gcsLogger.readJsonWithGeneration(objectPath);
+    if (current) {
+      await this.gcsLogger.writeJsonIfGenerationMatch(objectPath, retry, current.generation);
+    }
+
+    try {
+      await this.gcsLogger.updateMetadata(entry.taskId, { status: 'queued', triggerAttempts: attempts, lastTriggerError: message });
+    } catch (error: any) {
+      logger.warn(`[TASK ${entry.taskId}] Failed to record trigger failure in metadata:`, error.message);
+    }
+  }
+
+  /**
+   * End a task that never started: record the final status, free its resources and call its webhook
+   */
+  private async finish(
+    objectPath: string,
+    entry: QueueEntry,
+    status: 'failed' | 'cancelled',
+    error: string,
+    cancelledBy?: string,
+    errorCode?: TaskErrorCode
+  ): Promise<void> {
+    const { taskId } = entry;
+    const completedAt = new Date().toISOString();
+    const cancelledAt = status === 'cancelled' ? completedAt : undefined;
+    const failurePhase = errorCode ? 'setup' : undefined;
+
+    try {
+      await this.gcsLogger.updateMetadata(taskId, { status, completedAt, cancelledAt, cancelledBy, error, errorCode, failurePhase });
+    } catch (updateError: any) {
+      logger.error(`[TASK ${taskId}] Failed to record final status in metadata:`, updateError.message);
+    }
+
+    try {
+      await this.gcsLogger.deleteEncryptedPayload(taskId);
+      if (entry.quotaSlot) {
+        await this.gcsLogger.deleteObject(entry.quotaSlot);
+      }
+    } catch (cleanupError: any) {
+      logger.warn(`[TASK ${taskId}] Failed to clean up after the task:`, cleanupError.message);
+    }
+    await this.gcsLogger.deleteObject(objectPath);
+
+    const result: AsyncTaskResult = {
+      taskId,
+      status,
+      exitCode: status === 'cancelled' ? 130 : 1,
+      logsPath: this.gcsLogger.getLogsPath(taskId),
+      summary: {
+        durationMs: 0,
+        startedAt: entry.enqueuedAt,
+        completedAt,
+        cancelledAt
+      },
+      error,
+      errorCode,
+      failurePhase,
+      metadata: entry.metadata
+    };
+    await sendWebhook(entry.callbackUrl, result);
+  }
+
+  /**
+   * Entry paths in dispatch order
+   */
+  private async listEntryPaths(): Promise<string[]> {
+    const names = await this.gcsLogger.listObjectNames(TaskQueue.PREFIX);
+    return names.filter(name => TaskQueue.ENTRY_NAME.test(name)).sort();
+  }
+
+  private async findEntryPath(taskId: string): Promise<string | undefined> {
+    return (await this.listEntryPaths()).find(entryPath => this.taskIdOf(entryPath) === taskId);
+  }
+
+  private entryPath(entry: QueueEntry): string {
+    const rank = String(TaskQueue.MAX_PRIORITY - entry.priority).padStart(3, '0');
+    const enqueuedAt = String(new Date(entry.enqueuedAt).getTime()).padStart(13, '0');
+    return `${TaskQueue.PREFIX}${rank}-${enqueuedAt}-${entry.taskId}.json`;
+  }
+
+  private taskIdOf(entryPath: string): string | undefined {
+    return TaskQueue.ENTRY_NAME.exec(entryPath)?.[3];
+  }
+}
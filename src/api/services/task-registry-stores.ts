@@ -0,0 +1,154 @@
+import { GCSLoggerService } from "./gcs.service.js";
+import type { TaskInfo } from "./task-registry.service.js";
+import { createModuleLogger } from "../../utils/logger.js";
+
+const logger = createModuleLogger('task-registry');
+
+/**
+ * TaskRegistryStore interface
+ * Defines where TaskRegistry keeps its entries (in-memory, GCS, etc.)
+ */
+export interface TaskRegistryStore {
+  /**
+   * Create an entry
+   * @returns false if an entry for the task already exists
+   */
+  create(taskInfo: TaskInfo): Promise<boolean>;
+
+  /**
+   * Get an entry by task ID
+   */
+  get(taskId: string): Promise<TaskInfo | undefined>;
+
+  /**
+   * Atomically apply a change to an entry
+   * The updater may be called more than once if the entry changes concurrently;
+   * returning null leaves the entry untouched.
+   * @returns The updated entry, or undefined if not found or the updater returned null
+   */
+  update(taskId: string, updater: (taskInfo: TaskInfo) => TaskInfo | null): Promise<TaskInfo | undefined>;
+
+  /**
+   * Delete an entry
+   * @returns false if no entry existed
+   */
+  delete(taskId: string): Promise<boolean>;
+
+  /**
+   * List all entries
+   */
+  list(): Promise<TaskInfo[]>;
+}
+
+/**
+ * InMemoryTaskRegistryStore
+ * Per-process store - entries are only visible to this instance (local development and tests)
+ */
+export class InMemoryTaskRegistryStore implements TaskRegistryStore {
+  private tasks = new Map<string, TaskInfo>();
+
+  async create(taskInfo: TaskInfo): Promise<boolean> {
+    if (this.tasks.has(taskInfo.taskId)) {
+      return false;
+    }
+    this.tasks.set(taskInfo.taskId, { ...taskInfo });
+    return true;
+  }
+
+  async get(taskId: string): Promise<TaskInfo | undefined> {
+    const taskInfo = this.tasks.get(taskId);
+    return taskInfo ? { ...taskInfo } : undefined;
+  }
+
+  async update(taskId: string, updater: (taskInfo: TaskInfo) => TaskInfo | null): Promise<TaskInfo | undefined> {
+    const current = this.tasks.get(taskId);
+    if (!current) {
+      return undefined;
+    }
+
+    const updated = updater({ ...current });
+    if (!updated) {
+      return undefined;
+    }
+
+    this.tasks.set(taskId, updated);
+    return { ...updated };
+  }
+
+  async delete(taskId: string): Promise<boolean> {
+    return this.tasks.delete(taskId);
+  }
+
+  async list(): Promise<TaskInfo[]> {
+    return Array.from(this.tasks.values()).map(t => ({ ...t }));
+  }
+}
+
+/**
+ * GCSTaskRegistryStore
+ * Cluster-wide store - one JSON object per active task at registry/{taskId}.json
+ *
+ * Updates use GCS generation-match preconditions, so concurrent writers on
+ * different service instances never overwrite each other's changes.
+ */
+export class GCSTaskRegistryStore implements TaskRegistryStore {
+  private static readonly PREFIX = 'registry/';
+  private static readonly MAX_UPDATE_ATTEMPTS = 5;
+
+  constructor(private gcsLogger: GCSLoggerService) {}
+
+  async create(taskInfo: TaskInfo): Promise<boolean> {
+    // Generation 0 = only create if the object doesn't exist
+    return this.gcsLogger.writeJsonIfGenerationMatch(this.entryPath(taskInfo.taskId), this.serialize(taskInfo), 0);
+  }
+
+  async get(taskId: string): Promise<TaskInfo | undefined> {
+    const entry = await this.gcsLogger.readJsonWithGeneration(this.entryPath(taskId));
+    return entry ? this.deserialize(entry.data) : undefined;
+  }
+
+  async update(taskId: string, updater: (taskInfo: TaskInfo) => TaskInfo | null): Promise<TaskInfo | undefined> {
+    const entryPath = this.entryPath(taskId);
+
+    for (let attempt = 1; attempt <= GCSTaskRegistryStore.MAX_UPDATE_ATTEMPTS; attempt++) {
+      const entry = await this.gcsLogger.readJsonWithGeneration(entryPath);
+      if (!entry) {
+        return undefined;
+      }
+
+      const updated = updater(this.deserialize(entry.data));
+      if (!updated) {
+        return undefined;
+      }
+
+      if (await this.gcsLogger.writeJsonIfGenerationMatch(entryPath, this.serialize(updated), entry.generation)) {
+        return updated;
+      }
+
+      logger.debug(`Registry entry for ${taskId} changed concurrently, retrying (attempt ${attempt})`);
+    }
+
+    throw new Error(`Failed to update registry entry for task ${taskId}: too many concurrent modifications`);
+  }
+
+  async delete(taskId: string): Promise<boolean> {
+    return this.gcsLogger.deleteObject(this.entryPath(taskId));
+  }
+
+  async list(): Promise<TaskInfo[]> {
+    const entries = await this.gcsLogger.listJsonObjects(GCSTaskRegistryStore.PREFIX);
+    return entries.map(data => this.deserialize(data));
+  }
+
+  private entryPath(taskId: string): string {
+    return `${GCSTaskRegistryStore.PREFIX}${taskId}.json`;
+  }
+
+  private serialize(taskInfo: TaskInfo): Record<string, any> {
+    return { ...taskInfo, startedAt: taskInfo.startedAt.toISOString() };
+  }
+
+  private deserialize(data: any): TaskInfo {
+    return { ...data, startedAt: new Date(data.startedAt) };
+  }
+}
@@ -1,5 +1,15 @@
 import { logger } from "../../utils/logger.js";
 import { JobTriggerService } from "./job-trigger.service.js";
+import { GCSLoggerService } from "./gcs.service.js";
+import {
+  TaskRegistryStore,
+  GCSTaskRegistryStore,
+  InMemoryTaskRegistryStore
+} from "./task-registry-stores.js";
+import { ActiveTasksResponse, AsyncTaskStatus } from "../types/async-task.types.js";
+
+/** Statuses a task ends with */
+const FINAL_STATUSES: AsyncTaskStatus[] = ['completed', 'failed', 'cancelled'];
 
 /**
  * Task information stored in the registry
@@ -19,8 +29,37 @@ export interface TaskInfo {
 
   /** Task is being cancelled */
   cancelling: boolean;
+
+  /** Caller that created the task (when service-level authentication is enabled) */
+  createdBy?: string;
+
+  /** Tenant the task counts against (when TASK_QUOTAS is set) */
+  tenant?: string;
+
+  /** Quota concurrency slot held by the task (released on unregister) */
+  quotaSlot?: string;
 }
 
+/**
+ * Outcome of a cancel request
+ * - cancelling: the worker was asked to stop (or another request already did) - the task ends as cancelled shortly
+ * - cancelled: the job execution was stopped
+ * - finished: the task already ended with `status` - there is nothing to cancel
+ * - not-found: no such task is running
+ * - failed: the job execution couldn't be stopped
+ */
+export type CancelOutcome =
+  | { result: 'cancelling'; alreadyCancelling: boolean }
+  | { result: 'cancelled' }
+  | { result: 'finished'; status: AsyncTaskStatus }
+  | { result: 'not-found' }
+  | { result: 'failed' };
+
+/**
+ * Optional ownership details recorded at registration
+ */
+export type TaskRegistration = Pick<TaskInfo, 'createdBy' | 'tenant' | 'quotaSlot'>;
+
 /**
  * TaskRegistry Service
  *
@@ -30,17 +69,35 @@ export interface TaskInfo {
  * - Active task tracking
  * - Job execution status monitoring
  *
- * Thread-safe for concurrent access.
+ * Entries live in a TaskRegistryStore. The default store is GCS-backed
+ * (registry/{taskId}.json), so any service instance can cancel, list or
+ * count tasks created by another instance, and entries survive restarts.
+ * Set TASK_REGISTRY_BACKEND=memory to keep entries per-process instead.
+ * Entries whose task already ended (final status or deleted metadata) but was never
+ * unregistered, e.g. because its job crashed, are removed whenever they are read,
+ * freeing their quota slots.
+ *
+ * Cancellation is cooperative: a cancel marker is written to GCS and the job
+ * worker shuts down gracefully (kills Claude, saves metadata, sends the webhook).
+ * The cancel request doesn't wait for it; if the worker doesn't confirm within
+ * CANCEL_GRACE_PERIOD_SECONDS (default: 30), the Cloud Run Job execution is stopped instead.
  */
 export class TaskRegistry {
   private static instance: TaskRegistry;
-  private tasks: Map<string, TaskInfo>;
+  private store: TaskRegistryStore;
   private jobTrigger: JobTriggerService;
+  private gcsLogger?: GCSLoggerService;
+  private gracePeriodMs: number;
 
-  private constructor() {
-    this.tasks = new Map();
-    this.jobTrigger = new JobTriggerService();
-    logger.info(`TaskRegistry initialized (job-based execution mode)`);
+  private constructor(
+    store: TaskRegistryStore,
+    jobTrigger: JobTriggerService = new JobTriggerService(),
+    gcsLogger?: GCSLoggerService
+  ) {
+    this.store = store;
+    this.jobTrigger = jobTrigger;
+    this.gcsLogger = gcsLogger;
+    this.gracePeriodMs = parseInt(process.env.CANCEL_GRACE_PERIOD_SECONDS || '30', 10) * 1000;
   }
 
   /**
@@ -48,128 +105,343 @@ export class TaskRegistry {
    */
   public static getInstance(): TaskRegistry {
     if (!TaskRegistry.instance) {
-      TaskRegistry.instance = new TaskRegistry();
+      const backend = process.env.TASK_REGISTRY_BACKEND || (process.env.GCS_LOGS_BUCKET ? 'gcs' : 'memory');
+      const gcsLogger = process.env.GCS_LOGS_BUCKET ? new GCSLoggerService() : undefined;
+      const store = backend === 'memory' || !gcsLogger
+        ? new InMemoryTaskRegistryStore()
+        : new GCSTaskRegistryStore(gcsLogger);
+
+      TaskRegistry.instance = new TaskRegistry(store, undefined, gcsLogger);
+      logger.info(`TaskRegistry initialized (job-based execution mode, store: ${backend})`);
     }
     return TaskRegistry.instance;
   }
 
+  /**
+   * Create a registry with an explicit store (e.g. InMemoryTaskRegistryStore in tests)
+   * Without a GCSLoggerService, cancellation stops the job execution immediately
+   */
+  public static withStore(
+    store: TaskRegistryStore,
+    jobTrigger?: JobTriggerService,
+    gcsLogger?: GCSLoggerService
+  ): TaskRegistry {
+    return new TaskRegistry(store, jobTrigger, gcsLogger);
+  }
+
   /**
    * Register a new task
    * @throws Error if duplicate task ID
    */
-  public register(taskId: string, executionName: string, type: 'sync' | 'async'): void {
-    if (this.tasks.has(taskId)) {
-      logger.error(`Task registration failed: duplicate task ID`, { taskId });
-      throw new Error(`Task ${taskId} is already registered`);
-    }
-
+  public async register(
+    taskId: string,
+    executionName: string,
+    type: 'sync' | 'async',
+    registration: TaskRegistration = {}
+  ): Promise<void> {
     const taskInfo: TaskInfo = {
       taskId,
       executionName,
       type,
       startedAt: new Date(),
-      cancelling: false
+      cancelling: false,
+      ...registration
     };
 
-    this.tasks.set(taskId, taskInfo);
-    logger.info(`Task registered: ${taskId} (type: ${type}, execution: ${executionName}, active: ${this.tasks.size})`);
+    const created = await this.store.create(taskInfo);
+    if (!created) {
+      logger.error(`Task registration failed: duplicate task ID`, { taskId });
+      throw new Error(`Task ${taskId} is already registered`);
+    }
+
+    logger.info(`Task registered: ${taskId} (type: ${type}, execution: ${executionName})`);
   }
 
   /**
    * Unregister a task (called when task completes/fails/cancels)
+   * Frees the task's quota slot, if it holds one.
+   * @param keepQuotaSlot - The task goes back to the queue and keeps its slot (retries)
    */
-  public unregister(taskId: string): void {
-    const removed = this.tasks.delete(taskId);
+  public async unregister(taskId: string, keepQuotaSlot = false): Promise<void> {
+    const taskInfo = await this.store.get(taskId);
+    const removed = await this.store.delete(taskId);
     if (removed) {
-      logger.info(`Task unregistered: ${taskId} (active: ${this.tasks.size})`);
+      logger.info(`Task unregistered: ${taskId}`);
     } else {
-      logger.warn(`Task unregister failed: task not found`, { taskId });
+      logger.debug(`Task unregister skipped: task not found`, { taskId });
+    }
+
+    if (removed && taskInfo?.quotaSlot && this.gcsLogger && !keepQuotaSlot) {
+      try {
+        await this.gcsLogger.deleteObject(taskInfo.quotaSlot);
+      } catch (error: any) {
+        logger.warn(`Failed to release quota slot of task ${taskId}:`, error.message);
+      }
     }
   }
 
   /**
    * Get number of active tasks
    */
-  public getActiveCount(): number {
-    return this.tasks.size;
+  public async getActiveCount(): Promise<number> {
+    return (await this.listActive()).length;
   }
 
   /**
    * Get list of active task IDs
    */
-  public getActiveTaskIds(): string[] {
-    return Array.from(this.tasks.keys());
+  public async getActiveTaskIds(): Promise<string[]> {
+    return (await this.listActive()).map(t => t.taskId);
   }
 
   /**
    * Get task info by ID
    */
-  public getTask(taskId: string): TaskInfo | undefined {
-    return this.tasks.get(taskId);
+  public async getTask(taskId: string): Promise<TaskInfo | undefined> {
+    const taskInfo = await this.store.get(taskId);
+    if (taskInfo && await this.removeIfStale(taskInfo)) {
+      return undefined;
+    }
+    return taskInfo;
   }
 
   /**
    * Cancel a task by ID
-   * @returns true if task was found and cancelled, false if not found or already completing
+   * With GCS, this writes the cancel marker and returns - waiting for the worker to confirm
+   * and the hard stop after the grace period happen in the background.
+   * @param cancelledBy - Caller requesting the cancellation (recorded in task metadata)
    */
-  public async cancelTask(taskId: string): Promise<boolean> {
-    const taskInfo = this.tasks.get(taskId);
+  public async cancelTask(taskId: string, cancelledBy?: string): Promise<CancelOutcome> {
+    // A task that already ended has nothing to cancel (its worker may not have unregistered it yet)
+    if (this.gcsLogger) {
+      const metadata = await this.gcsLogger.readMetadata(taskId);
+      if (metadata && FINAL_STATUSES.includes(metadata.status)) {
+        logger.info(`Cancel skipped: task ${taskId} already finished with status ${metadata.status}`);
+        return { result: 'finished', status: metadata.status };
+      }
+    }
+
+    // Mark as cancelling atomically - only one caller (on any instance) wins
+    let alreadyCancelling = false;
+    const taskInfo = await this.store.update(taskId, current => {
+      if (current.cancelling) {
+        alreadyCancelling = true;
+        return null;
+      }
+      return { ...current, cancelling: true };
+    });
 
     if (!taskInfo) {
+      if (alreadyCancelling) {
+        logger.info(`Task already being cancelled: ${taskId}`);
+        return { result: 'cancelling', alreadyCancelling: true };
+      }
       logger.warn(`Cancel failed: task not found`, { taskId });
-      return false;
+      return { result: 'not-found' };
+    }
+
+    logger.info(`Cancelling task: ${taskId} (execution: ${taskInfo.executionName})${cancelledBy ? ` by ${cancelledBy}` : ''}`);
+
+    // Without GCS there is no cancel marker - stop the job execution right away
+    if (!this.gcsLogger) {
+      return (await this.stopExecution(taskInfo)) ? { result: 'cancelled' } : { result: 'failed' };
+    }
+
+    // Recorded before the worker writes its final metadata, which is merged on top
+    if (cancelledBy) {
+      try {
+        await this.gcsLogger.updateMetadata(taskId, { cancelledBy });
+      } catch (error: any) {
+        logger.warn(`Failed to record who cancelled task ${taskId}:`, error.message);
+      }
+    }
+
+    // Ask the worker to shut down gracefully
+    try {
+      await this.gcsLogger.requestCancellation(taskId);
+    } catch (error) {
+      await this.clearCancellation(taskId);
+      throw error;
+    }
+
+    this.awaitCancellation(taskInfo)
+      .catch(error => logger.error(`Error cancelling task ${taskId}:`, error.message));
+    return { result: 'cancelling', alreadyCancelling: false };
+  }
+
+  /**
+   * Wait for the worker to confirm a cancellation; stop the job execution if it doesn't within the grace period
+   */
+  private async awaitCancellation(taskInfo: TaskInfo): Promise<void> {
+    const { taskId } = taskInfo;
+    const finalStatus = await this.waitForFinalStatus(taskId);
+
+    if (finalStatus === 'cancelled') {
+      logger.info(`Task cancelled gracefully by worker: ${taskId}`);
+      if (taskInfo.type === 'async') {
+        await this.unregister(taskId);
+      }
+      return;
     }
 
-    if (taskInfo.cancelling) {
-      logger.warn(`Cancel failed: task already being cancelled`, { taskId });
+    if (finalStatus) {
+      // The cancellation no longer applies - a later cancel request must not be refused as "already cancelling"
+      logger.warn(`Task ${taskId} finished with status ${finalStatus} before it could be cancelled`);
+      await this.clearCancellation(taskId);
+      return;
+    }
+
+    logger.warn(`Worker did not confirm cancellation of ${taskId} within ${this.gracePeriodMs}ms - stopping job execution`);
+    if (!(await this.stopExecution(taskInfo))) {
+      await this.clearCancellation(taskId);
+    }
+  }
+
+  /**
+   * Hard-stop a task's Cloud Run Job execution and record the cancellation
+   * @returns false if the execution couldn't be stopped (e.g. it already completed)
+   */
+  private async stopExecution(taskInfo: TaskInfo): Promise<boolean> {
+    const { taskId } = taskInfo;
+    const cancelled = await this.jobTrigger.cancelJobExecution(taskInfo.executionName);
+
+    if (!cancelled) {
+      logger.warn(`Failed to cancel job execution for task ${taskId} (may have already completed)`);
       return false;
     }
 
-    // Mark as cancelling
-    taskInfo.cancelling = true;
-    logger.info(`Cancelling task: ${taskId} (execution: ${taskInfo.executionName})`);
+    logger.info(`Task cancelled successfully: ${taskId}`);
+
+    // The worker was stopped before it could record the cancellation
+    await this.markCancelled(taskId);
+
+    // Sync tasks are unregistered by the /run request; nothing else will remove async entries
+    if (taskInfo.type === 'async') {
+      await this.unregister(taskId);
+    }
+    return true;
+  }
 
+  /**
+   * Undo a cancellation that didn't apply: clear the entry's cancelling flag and remove the cancel marker
+   * (a retried task would otherwise cancel itself on its next attempt)
+   */
+  private async clearCancellation(taskId: string): Promise<void> {
     try {
-      // Cancel the Cloud Run Job execution
-      const cancelled = await this.jobTrigger.cancelJobExecution(taskInfo.executionName);
-
-      if (cancelled) {
-        logger.info(`Task cancelled successfully: ${taskId}`);
-        return true;
-      } else {
-        logger.warn(`Failed to cancel job execution for task ${taskId} (may have already completed)`);
-        return false;
+      await this.store.update(taskId, current => ({ ...current, cancelling: false }));
+      await this.gcsLogger?.clearCancellationRequest(taskId);
+    } catch (error: any) {
+      logger.warn(`Failed to clear cancellation of task ${taskId}:`, error.message);
+    }
+  }
+
+  /**
+   * Poll task metadata until the task reaches a final status or the grace period ends
+   * @returns Final status, or undefined if still running after the grace period
+   */
+  private async waitForFinalStatus(taskId: string): Promise<string | undefined> {
+    const deadline = Date.now() + this.gracePeriodMs;
+
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 2000));
+
+      try {
+        const metadata = await this.gcsLogger!.readMetadata(taskId);
+        if (metadata && FINAL_STATUSES.includes(metadata.status)) {
+          return metadata.status;
+        }
+      } catch (error: any) {
+        logger.warn(`Failed to read metadata while waiting for cancellation of ${taskId}:`, error.message);
       }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Record a forced cancellation in task metadata
+   */
+  private async markCancelled(taskId: string): Promise<void> {
+    if (!this.gcsLogger) {
+      return;
+    }
+
+    const cancelledAt = new Date().toISOString();
+    try {
+      // Keep the outcome the worker recorded if it got that far
+      await this.gcsLogger.updateMetadata(taskId, current =>
+        current && FINAL_STATUSES.includes(current.status)
+          ? null
+          : {
+            status: 'cancelled',
+            completedAt: cancelledAt,
+            cancelledAt,
+            error: 'Task cancelled by user (job execution stopped)'
+          }
+      );
     } catch (error: any) {
-      logger.error(`Error cancelling task ${taskId}:`, error.message);
-      return false;
+      logger.error(`Failed to record cancellation of ${taskId} in metadata:`, error.message);
     }
   }
 
   /**
    * Check if a task is being cancelled
    */
-  public isCancelling(taskId: string): boolean {
-    const taskInfo = this.tasks.get(taskId);
+  public async isCancelling(taskId: string): Promise<boolean> {
+    const taskInfo = await this.store.get(taskId);
     return taskInfo?.cancelling || false;
   }
 
   /**
    * Get registry statistics
    */
-  public getStats(): {
-    active: number;
-    tasks: Array<{ taskId: string; type: string; executionName: string; startedAt: string; cancelling: boolean }>;
-  } {
+  public async getStats(): Promise<ActiveTasksResponse> {
+    const tasks = await this.listActive();
     return {
-      active: this.tasks.size,
-      tasks: Array.from(this.tasks.values()).map(t => ({
+      active: tasks.length,
+      tasks: tasks.map(t => ({
         taskId: t.taskId,
         type: t.type,
         executionName: t.executionName,
         startedAt: t.startedAt.toISOString(),
-        cancelling: t.cancelling
+        cancelling: t.cancelling,
+        createdBy: t.createdBy,
+        tenant: t.tenant
       }))
     };
   }
+
+  /**
+   * List registry entries, removing those of tasks that already ended
+   */
+  private async listActive(): Promise<TaskInfo[]> {
+    const tasks = await this.store.list();
+    const stale = await Promise.all(tasks.map(taskInfo => this.removeIfStale(taskInfo)));
+    return tasks.filter((_, index) => !stale[index]);
+  }
+
+  /**
+   * Remove an entry whose task has a final status or no metadata (it will never unregister)
+   * @returns true if the entry was stale
+   */
+  private async removeIfStale(taskInfo: TaskInfo): Promise<boolean> {
+    if (!this.gcsLogger) {
+      return false;
+    }
+
+    let metadata: any | null;
+    try {
+      metadata = await this.gcsLogger.readMetadata(taskInfo.taskId);
+    } catch (error: any) {
+      logger.warn(`Failed to check registry entry of task ${taskInfo.taskId}:`, error.message);
+      return false;
+    }
+    if (metadata && !FINAL_STATUSES.includes(metadata.status)) {
+      return false;
+    }
+
+    logger.warn(`Removing stale registry entry of task ${taskInfo.taskId} (status: ${metadata?.status ?? 'no metadata'})`);
+    await this.unregister(taskInfo.taskId);
+    return true;
+  }
 }
@@ -0,0 +1,191 @@
+import { GCSLoggerService } from "./gcs.service.js";
+import { TaskRegistry } from "./task-registry.service.js";
+import { TaskQueue } from "./task-queue.service.js";
+import { RetryableFailure, RetryPolicy } from "../types/request.types.js";
+import { AsyncTaskMetadata, TaskAttempt, TaskErrorCode } from "../types/async-task.types.js";
+import { createModuleLogger } from "../../utils/logger.js";
+
+const logger = createModuleLogger('retry');
+
+/**
+ * How the current attempt ended
+ */
+export interface AttemptOutcome {
+  status: TaskAttempt['status'];
+  startedAt: string;
+  error?: string;
+  errorCode?: TaskErrorCode;
+  failure?: RetryableFailure;
+}
+
+/**
+ * TaskRetry
+ * Retry state of an async task with a retryPolicy, for the job execution running it (job-worker.ts).
+ *
+ * After a retryable failure with attempts left, the task goes back to the TaskQueue with a
+ * backoff (notBefore) instead of ending: it keeps its encrypted payload and quota slot, and the
+ * dispatcher starts a new job execution for it. The attempt is appended to the metadata's
+ * `attempts`; the webhook is only called once the task reaches its final outcome.
+ */
+export class TaskRetry {
+  public static readonly DEFAULT_BACKOFF_SECONDS = 30;
+  public static readonly DEFAULT_BACKOFF_MULTIPLIER = 2;
+  public static readonly DEFAULT_MAX_BACKOFF_SECONDS = 900;
+  public static readonly ALL_FAILURES: RetryableFailure[] = ['git', 'overloaded', 'infrastructure'];
+
+  private scheduled = false;
+  private executionName?: string;
+
+  private constructor(
+    private taskId: string,
+    private policy: RetryPolicy,
+    private previousAttempts: TaskAttempt[],
+    public readonly logChunkOffset: number,
+    private gcsLogger: GCSLoggerService,
+    private registry: TaskRegistry,
+    private queue: TaskQueue
+  ) {}
+
+  /**
+   * Load the attempts so far from the task's metadata
+   * @returns undefined if the task has no retryPolicy
+   */
+  public static async load(
+    taskId: string,
+    policy: RetryPolicy | undefined,
+    gcsLogger: GCSLoggerService
+  ): Promise<TaskRetry | undefined> {
+    if (!policy) {
+      return undefined;
+    }
+
+    const metadata: AsyncTaskMetadata | null = await gcsLogger.readMetadata(taskId);
+    const previousAttempts = metadata?.attempts || [];
+
+    // Log chunks of earlier attempts are kept - this attempt's chunks are numbered after them
+    const chunkNumbers = (await gcsLogger.listLogChunks(taskId))
+      .map(name => parseInt(name.match(/\/(\d+)-/)?.[1] || '0', 10));
+
+    return new TaskRetry(
+      taskId,
+      policy,
+      previousAttempts,
+      Math.max(0, ...chunkNumbers),
+      gcsLogger,
+      TaskRegistry.getInstance(),
+      TaskQueue.getInstance()
+    );
+  }
+
+  /**
+   * 1-based number of the current attempt
+   */
+  public get attempt(): number {
+    return this.previousAttempts.length + 1;
+  }
+
+  /**
+   * Whether the task was queued for another attempt (its payload must be kept)
+   */
+  public isScheduled(): boolean {
+    return this.scheduled;
+  }
+
+  /**
+   * All attempts including the current one (for the final metadata and webhook)
+   */
+  public async getAttempts(outcome: AttemptOutcome): Promise<TaskAttempt[]> {
+    return [...this.previousAttempts, await this.toAttempt(outcome)];
+  }
+
+  /**
+   * Queue the task for another attempt if the failure is retryable and attempts are left
+   * @returns true if the task was queued - the outcome isn't final, so no webhook is sent
+   */
+  public async scheduleRetry(outcome: AttemptOutcome): Promise<boolean> {
+    const retryOn = this.policy.retryOn || TaskRetry.ALL_FAILURES;
+    if (!outcome.failure || !retryOn.includes(outcome.failure)) {
+      return false;
+    }
+    if (this.attempt >= this.policy.maxAttempts) {
+      logger.warn(`[TASK ${this.taskId}] Attempt ${this.attempt} failed (${outcome.failure}) - no attempts left`);
+      return false;
+    }
+
+    const delaySeconds = Math.min(
+      (this.policy.backoffSeconds ?? TaskRetry.DEFAULT_BACKOFF_SECONDS) *
+        (this.policy.backoffMultiplier ?? TaskRetry.DEFAULT_BACKOFF_MULTIPLIER) ** (this.attempt - 1),
+      this.policy.maxBackoffSeconds ?? TaskRetry.DEFAULT_MAX_BACKOFF_SECONDS
+    );
+    const nextAttemptAt = new Date(Date.now() + delaySeconds * 1000).toISOString();
+
+    const metadata: AsyncTaskMetadata | null = await this.gcsLogger.readMetadata(this.taskId);
+    if (!metadata?.callbackUrl) {
+      return false;
+    }
+
+    // Read only once the retry is certain - getTask removes the entry (and its slot) if it looks stale
+    const registration = await this.registry.getTask(this.taskId);
+
+    try {
+      // The previous execution name is only kept in `attempts` (the queue treats it as "started")
+      await this.gcsLogger.updateMetadata(this.taskId, {
+        status: 'queued',
+        attempts: [...this.previousAttempts, await this.toAttempt(outcome, metadata)],
+        nextAttemptAt,
+        executionName: undefined,
+        error: undefined
+      });
+
+      await this.queue.enqueue({
+        taskId: this.taskId,
+        priority: metadata.priority ?? TaskQueue.DEFAULT_PRIORITY,
+        createdAt: metadata.createdAt,
+        encryptedPayloadPath: this.gcsLogger.getEncryptedPayloadPath(this.taskId),
+        callbackUrl: metadata.callbackUrl,
+        metadata: metadata.metadata,
+        createdBy: registration?.createdBy ?? metadata.createdBy,
+        tenant: registration?.tenant,
+        quotaSlot: registration?.quotaSlot,
+        notBefore: nextAttemptAt
+      });
+    } catch (error: any) {
+      // The task ends with this attempt instead - it is unregistered (and its slot released) as usual
+      logger.error(`[TASK ${this.taskId}] Failed to queue attempt ${this.attempt + 1}:`, error.message);
+      return false;
+    }
+
+    // Only now leave the registry (keeping the slot for the queued attempt), so the task is
+    // never without a registry entry or queue entry holding its slot. Starting the next
+    // execution (a job trigger) takes far longer than this, so its registration isn't removed.
+    try {
+      await this.registry.unregister(this.taskId, true);
+    } catch (error: any) {
+      logger.warn(`[TASK ${this.taskId}] Failed to unregister before attempt ${this.attempt + 1}:`, error.message);
+    }
+
+    this.scheduled = true;
+    logger.warn(`[TASK ${this.taskId}] Attempt ${this.attempt}/${this.policy.maxAttempts} failed (${outcome.failure}): ${outcome.error} - retrying in ${delaySeconds}s`);
+    return true;
+  }
+
+  /**
+   * Record of the current attempt (the execution name is set by the dispatcher that started it)
+   */
+  private async toAttempt(outcome: AttemptOutcome, metadata?: AsyncTaskMetadata | null): Promise<TaskAttempt> {
+    if (!this.executionName) {
+      const current = metadata === undefined ? await this.gcsLogger.readMetadata(this.taskId) : metadata;
+      this.executionName = current?.executionName;
+    }
+    return {
+      attempt: this.attempt,
+      executionName: this.executionName,
+      startedAt: outcome.startedAt,
+      endedAt: new Date().toISOString(),
+      status: outcome.status,
+      error: outcome.error,
+      errorCode: outcome.errorCode,
+      failure: outcome.failure
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import { ClaudeRunResult } from "../../claude-runner.js";
+import { RunRequest, TaskStage } from "../types/request.types.js";
+import { StageSummary } from "../types/async-task.types.js";
+
+/** Most stages a request may have */
+export const MAX_STAGES = 10;
+
+/** Longest stage result kept in a stage summary (the full result is in the task's logs) */
+const MAX_SUMMARY_RESULT_LENGTH = 10000;
+
+const PREVIOUS_RESULT = /\{\{\s*previousResult\s*\}\}/;
+
+/**
+ * Check a request's stages (after schema validation)
+ * @returns Error message, or undefined if the request is valid
+ */
+export function validateStages(request: RunRequest): string | undefined {
+  if (!request.stages) {
+    return undefined;
+  }
+  if (request.prompt !== undefined) {
+    return "Use either prompt or stages, not both";
+  }
+  if (request.stages.length > MAX_STAGES) {
+    return `At most ${MAX_STAGES} stages are allowed`;
+  }
+  if (PREVIOUS_RESULT.test(request.stages[0].prompt)) {
+    return "The first stage's prompt can't use {{previousResult}}";
+  }
+  return undefined;
+}
+
+/**
+ * Stages to run - a request without stages is a single stage made of its prompt
+ */
+export function resolveStages(request: RunRequest): TaskStage[] {
+  return request.stages || [{ prompt: request.prompt || '' }];
+}
+
+/**
+ * Fill in a stage's prompt template
+ */
+export function renderStagePrompt(prompt: string, previousResult: string): string {
+  return prompt.replace(new RegExp(PREVIOUS_RESULT, 'g'), () => previousResult);
+}
+
+/**
+ * Claude's final `result` message in a run's stream-json output
+ */
+export function readFinalResult(output: string): any | undefined {
+  const lines = output.split('\n');
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i].trim();
+    if (!line.startsWith('{')) {
+      continue;
+    }
+    try {
+      const message = JSON.parse(line);
+      if (message?.type === 'result') {
+        return message;
+      }
+    } catch {
+      // Not JSON - keep looking
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Summary of a finished stage
+ * @param index - 0-based position in the stages
+ */
+export function summarizeStage(
+  index: number,
+  stage: TaskStage,
+  result: ClaudeRunResult,
+  durationMs: number,
+  cancelled: boolean
+): StageSummary {
+  const final = readFinalResult(result.output);
+  const text: string | undefined = typeof final?.result === 'string' ? final.result : undefined;
+  const cost = final?.total_cost_usd ?? final?.cost_usd;
+
+  return {
+    stage: index + 1,
+    name: stage.name,
+    status: cancelled ? 'cancelled' : result.exitCode === 0 ? 'completed' : 'failed',
+    exitCode: result.exitCode,
+    durationMs,
+    turns: typeof final?.num_turns === 'number' ? final.num_turns : undefined,
+    costUsd: typeof cost === 'number' ? cost : undefined,
+    result: text && text.length > MAX_SUMMARY_RESULT_LENGTH
+      ? `${text.slice(0, MAX_SUMMARY_RESULT_LENGTH)}... (truncated)`
+      : text,
+    error: result.error
+  };
+}
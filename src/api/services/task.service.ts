@@ -1,13 +1,22 @@
+import fs from "fs";
 import path from "path";
 import crypto from "crypto";
 import { execSync } from "child_process";
-import { ClaudeRunner, ClaudeOptions } from "../../claude-runner.js";
+import { ClaudeRunner, ClaudeOptions, ClaudeRunResult } from "../../claude-runner.js";
 import { GitService } from "./git.service.js";
 import { WorkspaceService } from "./workspace.service.js";
 import { ClaudeConfigService } from "./claude-config.service.js";
 import { SimpleAnthropicProxy } from "./simple-proxy.js";
+import { createModelProvider } from "./model-providers.js";
+import { ModelPolicy } from "./model-policy.js";
+import { NetworkPolicyProxy } from "./network-policy-proxy.js";
+import { GCSLoggerService } from "./gcs.service.js";
+import { ClaudeSessionStore } from "./claude-session.service.js";
 import { OutputHandler } from "./output-handlers.js";
-import { RunRequest } from "../types/request.types.js";
+import { TaskError, TaskFailure, toTaskFailure } from "./task-error.js";
+import { readFinalResult, renderStagePrompt, resolveStages, summarizeStage } from "./task-stages.js";
+import { FailurePhase } from "../types/async-task.types.js";
+import { RunRequest, TaskStage } from "../types/request.types.js";
 import { createModuleLogger } from "../../utils/logger.js";
 
 const logger = createModuleLogger('task');
@@ -22,6 +31,9 @@ export class TaskService {
   private gitService: GitService;
   private workspaceService: WorkspaceService;
   private claudeConfigService: ClaudeConfigService;
+  private runner?: ClaudeRunner;
+  private cancelRequested = false;
+  private interrupted = false;
 
   constructor() {
     this.gitService = new GitService();
@@ -29,6 +41,33 @@ export class TaskService {
     this.claudeConfigService = new ClaudeConfigService();
   }
 
+  /**
+   * Request cancellation of the task being executed
+   * Kills the Claude process if it is running; if Claude hasn't started yet the
+   * task stops before starting it. The output handler's onCancel is called either way.
+   */
+  cancel(): void {
+    if (this.cancelRequested) {
+      return;
+    }
+    this.cancelRequested = true;
+    logger.info('Cancellation requested');
+    this.runner?.kill();
+  }
+
+  /**
+   * Stop the task because its job container is being stopped (e.g. preempted), not by the user
+   * The task fails with an 'infrastructure' failure, which a retryPolicy may retry.
+   */
+  interrupt(): void {
+    if (this.cancelRequested || this.interrupted) {
+      return;
+    }
+    this.interrupted = true;
+    logger.warn('Job container is being stopped - interrupting task');
+    this.runner?.kill();
+  }
+
   /**
    * Execute a Claude Code task with the given output handler
    * This method orchestrates the full execution flow and works for both sync and async modes
@@ -49,18 +88,23 @@ export class TaskService {
 
     let workspaceRoot: string | undefined;
     let proxy: SimpleAnthropicProxy | undefined;
+    let networkProxy: NetworkPolicyProxy | undefined;
     let runner: ClaudeRunner | undefined;
     let cleanedUp = false;
+    let phase: FailurePhase = 'setup';
 
     try {
       // Setup proxy
-      const { proxy: proxyInstance, proxyPort } = await this.setupProxy(
-        request.anthropicApiKey,
-        request.anthropicOAuthToken,
+      const { proxy: proxyInstance } = await this.setupProxy(
+        request,
+        outputHandler,
         logPrefix
       );
       proxy = proxyInstance;
 
+      // Setup network egress allow-list (if requested)
+      networkProxy = await this.setupNetworkPolicy(request, outputHandler, logPrefix);
+
       // Setup workspace (create, SSH keys, git clone, config files)
       const { workspaceRoot: workspace, sshKeyPath, configFiles } = await this.setupWorkspace(
         request,
@@ -80,9 +124,7 @@ export class TaskService {
       const claudeEnv = await this.setupEnvironment(
         workspaceRoot,
         request.environmentSecrets || {},
-        proxyPort,
-        request.anthropicApiKey,
-        request.anthropicOAuthToken,
+        { ...proxy.getClaudeEnv(), ...networkProxy?.getClaudeEnv() },
         sshKeyPath,
         logPrefix
       );
@@ -97,11 +139,22 @@ export class TaskService {
         );
       }
 
-      // Build Claude options
-      const options = this.buildClaudeOptions(request, claudeEnv);
+      // Restore the conversation of the task being continued (its first run resumes it)
+      let resumeSessionId: string | undefined;
+      if (request.resumeFromTaskId) {
+        resumeSessionId = await new ClaudeSessionStore(new GCSLoggerService())
+          .restore(request.resumeFromTaskId, workspaceRoot, logPrefix);
+      }
 
-      // Create Claude runner
-      runner = new ClaudeRunner(workspaceRoot);
+      // Stop here if cancelled during setup
+      if (this.cancelRequested) {
+        await outputHandler.onCancel(Date.now() - startTime);
+        logger.info(`${logPrefix} Task cancelled before Claude started`);
+        return;
+      }
+      if (this.interrupted) {
+        throw new TaskError('Job container was stopped before Claude started', 'INTERRUPTED', 'infrastructure');
+      }
 
       // Create data and error handlers
       const onData = (line: string) => {
@@ -112,22 +165,114 @@ export class TaskService {
         outputHandler.onError(error);
       };
 
-      logger.info(`${logPrefix} Starting Claude CLI`);
+      phase = 'execution';
+
+      // Run the stages one after another in the same workspace (a request without stages is one stage)
+      // They share the task's timeout; a failed stage ends the task
+      const stages = resolveStages(request);
+      const deadline = Date.now() + (request.timeoutMinutes || 55) * 60 * 1000;
+      let result: ClaudeRunResult = { exitCode: 0, output: '' };
+      let budgetExceeded: string | undefined;
+      let previousResult = '';
+      let sessionId: string | undefined;
+
+      for (const [index, stage] of stages.entries()) {
+        const stageStart = Date.now();
+        const options = this.buildClaudeOptions(request, claudeEnv, stage, Math.max(deadline - stageStart, 1000) / 60000);
+        if (index === 0) {
+          options.resume = resumeSessionId;
+        }
+        const prompt = renderStagePrompt(stage.prompt, previousResult);
+
+        // Create Claude runner
+        runner = new ClaudeRunner(workspaceRoot);
+        this.runner = runner;
+
+        logger.info(request.stages
+          ? `${logPrefix} Starting Claude CLI for stage ${index + 1}/${stages.length}${stage.name ? ` (${stage.name})` : ''}`
+          : `${logPrefix} Starting Claude CLI`);
+
+        // Run Claude (this will block until completion)
+        result = request.useNamedPipe !== false
+          ? await runner.runWithPipe(prompt, options, onData, onError)
+          : await runner.runDirect(prompt, options, onData, onError);
+
+        // The proxy refused API calls once the budget ran out - report as failure
+        budgetExceeded = proxy.getBudgetExceededReason();
+        if (budgetExceeded) {
+          result = { ...result, exitCode: result.exitCode || 1, error: budgetExceeded };
+        }
+
+        if (request.stages) {
+          await outputHandler.onStageComplete?.(
+            summarizeStage(index, stage, result, Date.now() - stageStart, this.cancelRequested)
+          );
+        }
 
-      // Run Claude (this will block until completion)
-      const result = request.useNamedPipe !== false
-        ? await runner.runWithPipe(request.prompt, options, onData, onError)
-        : await runner.runDirect(request.prompt, options, onData, onError);
+        const final = readFinalResult(result.output);
+        sessionId = final?.session_id ?? sessionId;
+
+        if (result.exitCode !== 0 || this.cancelRequested || this.interrupted) {
+          break;
+        }
+        previousResult = final?.result ?? '';
+      }
+
+      // Keep the last run's conversation so a later task can continue it (resumeFromTaskId)
+      if (sessionId) {
+        await this.saveSession(effectiveTaskId, workspaceRoot, sessionId, logPrefix);
+      }
 
       // Calculate duration
       const durationMs = Date.now() - startTime;
 
+      // Claude was killed by cancel()
+      if (this.cancelRequested) {
+        await outputHandler.onCancel(durationMs);
+        logger.info(`${logPrefix} Task cancelled after ${durationMs}ms`);
+        return;
+      }
+
+      if (budgetExceeded) {
+        logger.warn(`${logPrefix} ${budgetExceeded}`);
+        outputHandler.onError(budgetExceeded);
+      }
+
+      // Classify the failure (transient causes may be retried by the task's retryPolicy)
+      let failure: TaskFailure | undefined;
+      if (this.interrupted) {
+        const error = 'Claude was killed because the job container was stopped';
+        outputHandler.onError(error);
+        result = { ...result, exitCode: result.exitCode || 1, error };
+        failure = { errorCode: 'INTERRUPTED', failurePhase: phase, retryable: 'infrastructure' };
+      } else if (budgetExceeded) {
+        failure = { errorCode: 'BUDGET_EXCEEDED', failurePhase: phase };
+      } else if (result.exitCode !== 0 && proxy.getUpstreamFailure()) {
+        result = { ...result, error: result.error || proxy.getUpstreamFailure() };
+        failure = { errorCode: 'MODEL_API', failurePhase: phase, retryable: 'overloaded' };
+      } else if (result.timedOut) {
+        failure = { errorCode: 'CLAUDE_TIMEOUT', failurePhase: phase };
+      } else if (result.exitCode !== 0) {
+        failure = { errorCode: 'CLAUDE_EXIT', failurePhase: phase };
+      }
+
       // Normal completion
-      await outputHandler.onComplete(result, durationMs);
+      await outputHandler.onComplete(result, durationMs, failure);
       logger.info(`${logPrefix} Task completed successfully in ${durationMs}ms`);
 
 
     } catch (error: any) {
+      // Errors caused by cancellation (e.g. killed setup steps) end as cancelled, not failed
+      if (this.cancelRequested) {
+        logger.info(`${logPrefix} Task cancelled (${error.message})`);
+        try {
+          await outputHandler.onCancel(Date.now() - startTime);
+        } catch (cancelError: any) {
+          logger.error(`${logPrefix} Failed to notify cancellation:`, cancelError.message);
+        }
+        return;
+      }
+
       logger.error(`${logPrefix} Task failed:`, error.message, error.stack);
 
       // Normal error handling
@@ -137,7 +282,10 @@ export class TaskService {
       try {
         await outputHandler.onComplete(
           { exitCode: 1, output: '', error: error.message },
-          Date.now() - startTime
+          Date.now() - startTime,
+          this.interrupted
+            ? { errorCode: 'INTERRUPTED', failurePhase: phase, retryable: 'infrastructure' }
+            : toTaskFailure(error, phase)
         );
       } catch (completeError: any) {
         logger.error(`${logPrefix} Failed to notify completion:`, completeError.message);
@@ -164,6 +312,12 @@ export class TaskService {
       if (proxy) {
         await proxy.stop();
         logger.debug(`${logPrefix} Proxy stopped`);
+        await this.saveApiRecording(proxy, effectiveTaskId, logPrefix);
+      }
+
+      if (networkProxy) {
+        await networkProxy.stop();
+        logger.debug(`${logPrefix} Network policy proxy stopped (${networkProxy.getDeniedCount()} connections denied)`);
       }
 
       // Clean up workspace (immediate for jobs)
@@ -180,13 +334,58 @@ export class TaskService {
    * Setup and start the authentication proxy
    */
   private async setupProxy(
-    anthropicApiKey?: string,
-    anthropicOAuthToken?: string,
+    request: RunRequest,
+    outputHandler: OutputHandler,
     logPrefix: string = ''
   ): Promise<{ proxy: SimpleAnthropicProxy; proxyPort: number }> {
     logger.debug(`${logPrefix} Starting token proxy`);
 
-    const proxy = new SimpleAnthropicProxy(anthropicApiKey, anthropicOAuthToken);
+    if (request.budget) {
+      logger.info(`${logPrefix} Enforcing budget: ${JSON.stringify(request.budget)}`);
+    }
+
+    // PROXY_REPLAY_FILE reproduces a recorded session locally (see recordApiCalls)
+    const replayFile = process.env.PROXY_REPLAY_FILE;
+    if (replayFile) {
+      logger.info(`${logPrefix} Replaying Anthropic API responses from ${replayFile}`);
+    }
+
+    const provider = createModelProvider(request);
+    logger.debug(`${logPrefix} Model provider: ${provider.name}`);
+
+    // Per-request upstream (validated against ALLOWED_UPSTREAM_URLS) overrides the deployment default
+    const upstreamUrl = request.upstreamUrl || process.env.UPSTREAM_BASE_URL;
+    const caBundlePath = process.env.UPSTREAM_CA_BUNDLE;
+    const egressProxyUrl = process.env.UPSTREAM_HTTPS_PROXY || process.env.HTTPS_PROXY || process.env.https_proxy;
+    if (upstreamUrl) {
+      logger.info(`${logPrefix} Sending model API calls to ${upstreamUrl}`);
+    }
+    if (egressProxyUrl) {
+      logger.info(`${logPrefix} Routing upstream traffic through egress proxy ${new URL(egressProxyUrl).host}`);
+    }
+
+    // Deployment-wide model rules (MODEL_POLICY) - an invalid policy fails the task
+    const modelPolicy = ModelPolicy.fromEnv();
+    if (modelPolicy) {
+      logger.info(`${logPrefix} Enforcing model policy: ${process.env.MODEL_POLICY}`);
+    }
+
+    const proxy = new SimpleAnthropicProxy(request.anthropicApiKey, request.anthropicOAuthToken, {
+      provider,
+      upstreamUrl,
+      caBundle: caBundlePath ? fs.readFileSync(caBundlePath, "utf-8") : undefined,
+      egressProxyUrl,
+      modelPolicy,
+      budget: request.budget,
+      record: request.recordApiCalls === true && !replayFile,
+      replayFile,
+      maxRetries: process.env.PROXY_MAX_RETRIES ? parseInt(process.env.PROXY_MAX_RETRIES, 10) : undefined,
+      maxConcurrentRequests: process.env.PROXY_MAX_CONCURRENT_REQUESTS
+        ? parseInt(process.env.PROXY_MAX_CONCURRENT_REQUESTS, 10)
+        : undefined,
+      // Retries and throttling show up in the task log next to Claude's output
+      onEvent: (event) => outputHandler.onData(JSON.stringify(event))
+    });
     await proxy.start();
     const proxyPort = proxy.getPort();
 
@@ -198,6 +397,81 @@ export class TaskService {
     return { proxy, proxyPort };
   }
 
+  /**
+   * Start the forward proxy enforcing the request's network policy
+   * @returns undefined if the request has no network policy
+   */
+  private async setupNetworkPolicy(
+    request: RunRequest,
+    outputHandler: OutputHandler,
+    logPrefix: string = ''
+  ): Promise<NetworkPolicyProxy | undefined> {
+    if (!request.networkPolicy) {
+      return undefined;
+    }
+
+    logger.info(`${logPrefix} Enforcing network policy: ${request.networkPolicy.allowedHosts.join(', ') || '(no hosts allowed)'}`);
+
+    // Denied connections show up in the task log next to Claude's output
+    const networkProxy = new NetworkPolicyProxy(
+      request.networkPolicy,
+      (event) => outputHandler.onData(JSON.stringify(event))
+    );
+    await networkProxy.start();
+
+    logger.debug(`${logPrefix} Network policy proxy started on 127.0.0.1:${networkProxy.getPort()}`);
+    return networkProxy;
+  }
+
+  /**
+   * Upload the proxy's API recording (if recording was requested) to the task's session folder
+   * Best effort - a failed upload doesn't fail the task
+   */
+  private async saveApiRecording(
+    proxy: SimpleAnthropicProxy,
+    taskId: string,
+    logPrefix: string = ''
+  ): Promise<void> {
+    const recording = proxy.getRecording();
+    if (!recording) {
+      return;
+    }
+
+    if (!process.env.GCS_LOGS_BUCKET) {
+      logger.warn(`${logPrefix} GCS_LOGS_BUCKET not set - discarding API recording (${recording.getCount()} exchanges)`);
+      return;
+    }
+
+    try {
+      const gcsPath = await new GCSLoggerService().saveApiRecording(taskId, recording.toNdjson());
+      logger.info(`${logPrefix} Saved ${recording.getCount()} recorded API exchanges to ${gcsPath}`);
+    } catch (error: any) {
+      logger.error(`${logPrefix} Failed to save API recording:`, error.message);
+    }
+  }
+
+  /**
+   * Upload the Claude session files to the task's session folder
+   * Best effort - a failed upload doesn't fail the task (it just can't be resumed)
+   */
+  private async saveSession(
+    taskId: string,
+    workspaceRoot: string,
+    sessionId: string,
+    logPrefix: string = ''
+  ): Promise<void> {
+    if (!process.env.GCS_LOGS_BUCKET) {
+      logger.warn(`${logPrefix} GCS_LOGS_BUCKET not set - not saving Claude session ${sessionId}`);
+      return;
+    }
+
+    try {
+      await new ClaudeSessionStore(new GCSLoggerService()).save(taskId, workspaceRoot, sessionId);
+    } catch (error: any) {
+      logger.error(`${logPrefix} Failed to save Claude session:`, error.message);
+    }
+  }
+
   /**
    * Setup workspace: create, write SSH keys, clone git repo, write config files
    */
@@ -291,9 +565,7 @@ export class TaskService {
   private async setupEnvironment(
     workspaceRoot: string,
     environmentSecrets: Record<string, string>,
-    proxyPort: number,
-    anthropicApiKey?: string,
-    anthropicOAuthToken?: string,
+    proxyEnv: Record<string, string>,
     sshKeyPath?: string,
     logPrefix: string = ''
   ): Promise<Record<string, string>> {
@@ -308,20 +580,12 @@ export class TaskService {
 
     // Build Claude environment
     const claudeEnv: Record<string, string> = {
-      // Proxy configuration - use ANTHROPIC_BASE_URL to only intercept Anthropic API traffic
-      ANTHROPIC_BASE_URL: `http://127.0.0.1:${proxyPort}`,
       // User-provided environment secrets (intentionally accessible)
-      ...environmentSecrets
+      ...environmentSecrets,
+      // Proxy configuration (base URL and dummy credentials) - the proxy adds real credentials
+      ...proxyEnv
     };
 
-    // SECURITY: Pass dummy credential that matches the type we have
-    // Proxy will replace it with the real credential
-    if (anthropicApiKey) {
-      claudeEnv.ANTHROPIC_API_KEY = 'dummy-api-key-proxy-will-replace';
-    } else if (anthropicOAuthToken) {
-      claudeEnv.CLAUDE_CODE_OAUTH_TOKEN = 'dummy-oauth-token-proxy-will-replace';
-    }
-
     // Configure Git to use per-request SSH key for Claude's git commands
     if (sshKeyPath) {
       claudeEnv.GIT_SSH_COMMAND = `ssh -i ${sshKeyPath} -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null`;
@@ -405,7 +669,7 @@ export class TaskService {
         }
 
         // Fail fast - don't continue with remaining commands
-        throw new Error(`Pre-execution command failed: ${command}\n${error.message}`);
+        throw new TaskError(`Pre-execution command failed: ${command}\n${error.message}`, 'PRE_EXECUTION_COMMAND');
       }
     }
 
@@ -413,21 +677,23 @@ export class TaskService {
   }
 
   /**
-   * Build Claude options from request
+   * Build Claude options from request (stage options take precedence)
    */
   private buildClaudeOptions(
     request: RunRequest,
-    claudeEnv: Record<string, string>
+    claudeEnv: Record<string, string>,
+    stage: TaskStage,
+    timeoutMinutes: number
   ): ClaudeOptions {
     return {
-      allowedTools: request.allowedTools,
-      disallowedTools: request.disallowedTools,
-      maxTurns: request.maxTurns,
-      systemPrompt: request.systemPrompt,
-      appendSystemPrompt: request.appendSystemPrompt,
+      allowedTools: stage.allowedTools ?? request.allowedTools,
+      disallowedTools: stage.disallowedTools ?? request.disallowedTools,
+      maxTurns: stage.maxTurns ?? request.maxTurns,
+      systemPrompt: stage.systemPrompt ?? request.systemPrompt,
+      appendSystemPrompt: stage.appendSystemPrompt ?? request.appendSystemPrompt,
       permissionMode: request.permissionMode,
-      timeoutMinutes: request.timeoutMinutes || 55,
-      model: request.model,
+      timeoutMinutes,
+      model: stage.model ?? request.model,
       fallbackModel: request.fallbackModel,
       dangerouslySkipPermissions: process.env.DANGEROUSLY_SKIP_PERMISSIONS === 'true',
       debug: process.env.CLAUDE_DEBUG === 'true',
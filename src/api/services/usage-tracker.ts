@@ -0,0 +1,120 @@
+import { TaskUsage } from "../types/async-task.types.js";
+
+/**
+ * Token counts as reported in Claude's `usage` objects
+ */
+interface RawUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+/**
+ * UsageTracker
+ * Accumulates token usage, cost and tool calls from Claude's stream-json messages
+ *
+ * The final `result` message carries the authoritative usage and cost for the run.
+ * Until it arrives (or if the task is cancelled/killed before it does), usage is
+ * summed from assistant messages, de-duplicated by message ID because the CLI may
+ * emit one assistant line per content block of the same API message.
+ * Multi-stage tasks have one run (and result message) per stage; their usage is added up.
+ */
+export class UsageTracker {
+  private model?: string;
+  private toolCalls: Record<string, number> = {};
+  private assistantUsage = new Map<string, RawUsage>(); // Current run, until its result message
+  private finishedUsage: RawUsage[] = []; // Finished runs
+  private totalCostUsd?: number;
+  private numTurns?: number;
+
+  /**
+   * Track a parsed stream-json message
+   */
+  track(message: any): void {
+    if (!message || typeof message !== 'object') {
+      return;
+    }
+
+    if (message.type === 'system' && message.subtype === 'init' && typeof message.model === 'string') {
+      this.model = message.model;
+    } else if (message.type === 'assistant' && message.message) {
+      this.trackAssistant(message.message);
+    } else if (message.type === 'result') {
+      // The result's usage replaces the run's assistant usage (kept if the result has none)
+      this.finishedUsage.push(...(message.usage ? [message.usage] : this.assistantUsage.values()));
+      this.assistantUsage.clear();
+
+      const cost = message.total_cost_usd ?? message.cost_usd;
+      if (typeof cost === 'number') {
+        this.totalCostUsd = (this.totalCostUsd || 0) + cost;
+      }
+      if (typeof message.num_turns === 'number') {
+        this.numTurns = (this.numTurns || 0) + message.num_turns;
+      }
+    }
+  }
+
+  /**
+   * Number of turns reported by the result message(s)
+   */
+  getTurns(): number | undefined {
+    return this.numTurns;
+  }
+
+  /**
+   * Usage summary, or undefined if no usage or tool calls were seen
+   */
+  getUsage(): TaskUsage | undefined {
+    const totals = this.toTotals([...this.finishedUsage, ...this.assistantUsage.values()]);
+
+    const hasUsage = Object.values(totals).some(v => v > 0);
+    if (!hasUsage && !this.model && Object.keys(this.toolCalls).length === 0 && this.totalCostUsd === undefined) {
+      return undefined;
+    }
+
+    return {
+      model: this.model,
+      ...totals,
+      totalCostUsd: this.totalCostUsd,
+      toolCalls: { ...this.toolCalls }
+    };
+  }
+
+  private trackAssistant(apiMessage: any): void {
+    if (!this.model && typeof apiMessage.model === 'string') {
+      this.model = apiMessage.model;
+    }
+
+    if (Array.isArray(apiMessage.content)) {
+      for (const block of apiMessage.content) {
+        if (block?.type === 'tool_use' && typeof block.name === 'string') {
+          this.toolCalls[block.name] = (this.toolCalls[block.name] || 0) + 1;
+        }
+      }
+    }
+
+    if (apiMessage.usage) {
+      const key = apiMessage.id || `message-${this.assistantUsage.size}`;
+      this.assistantUsage.set(key, apiMessage.usage);
+    }
+  }
+
+  private toTotals(usages: RawUsage[]): Pick<TaskUsage, 'inputTokens' | 'outputTokens' | 'cacheCreationInputTokens' | 'cacheReadInputTokens'> {
+    const totals = {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0
+    };
+
+    for (const usage of usages) {
+      totals.inputTokens += usage.input_tokens || 0;
+      totals.outputTokens += usage.output_tokens || 0;
+      totals.cacheCreationInputTokens += usage.cache_creation_input_tokens || 0;
+      totals.cacheReadInputTokens += usage.cache_read_input_tokens || 0;
+    }
+
+    return totals;
+  }
+}
@@ -1,4 +1,5 @@
-import { RunRequest } from "./request.types.js";
+import { RetryableFailure, RunRequest } from "./request.types.js";
+import { SchemaValidationError } from "../../utils/json-schema.js";
 
 /**
  * Request type for async Claude Code execution
@@ -17,6 +18,11 @@ export interface AsyncRunRequest extends RunRequest {
    */
   taskId?: string;
 
+  /**
+   * Queue priority from 0 to 100 (default: 50)
+   * Queued tasks with a higher priority are started first, equal priorities in order of arrival
+   */
+  priority?: number;
 }
 
 /**
@@ -26,23 +32,46 @@ export interface AsyncRunResponse {
   /** Unique identifier for the task */
   taskId: string;
 
-  /** Initial status (always 'pending' on creation) */
-  status: 'pending';
+  /** Initial status (always 'queued' - the job is started by the queue dispatcher) */
+  status: 'queued';
 
   /** GCS path where logs will be stored */
   logsPath: string;
 
   /** Timestamp when task was created */
   createdAt: string;
-
-  /** Cloud Run Job execution name (optional, for tracking) */
-  executionName?: string;
 }
 
 /**
  * Status of an async task
  */
-export type AsyncTaskStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type AsyncTaskStatus = 'queued' | 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Token usage and cost of a task, parsed from Claude's stream-json output
+ */
+export interface TaskUsage {
+  /** Model used (from the init message, or the first assistant message) */
+  model?: string;
+
+  /** Input tokens (excluding cache reads/writes) */
+  inputTokens: number;
+
+  /** Output tokens */
+  outputTokens: number;
+
+  /** Input tokens written to the prompt cache */
+  cacheCreationInputTokens: number;
+
+  /** Input tokens read from the prompt cache */
+  cacheReadInputTokens: number;
+
+  /** Total cost in USD as reported by the CLI (absent if no result message was received) */
+  totalCostUsd?: number;
+
+  /** Number of tool calls by tool name */
+  toolCalls: Record<string, number>;
+}
 
 /**
  * Result posted to callback URL when task completes
@@ -79,11 +108,21 @@ export interface AsyncTaskResult {
 
     /** Cancellation timestamp (if cancelled) */
     cancelledAt?: string;
+
+    /** Token usage, cost and tool calls */
+    usage?: TaskUsage;
   };
 
   /** Error message if task failed */
   error?: string;
 
+  /**
+   * Machine-readable cause of the error and the phase it happened in
+   * A completed task carries them when a post-execution action failed.
+   */
+  errorCode?: TaskErrorCode;
+  failurePhase?: FailurePhase;
+
   /** User-provided metadata from original request */
   metadata?: Record<string, any>;
 
@@ -125,6 +164,96 @@ export interface AsyncTaskResult {
       conflictFiles?: string[];
     };
   };
+
+  /** Every run of the task's job, oldest first (tasks with a retryPolicy) */
+  attempts?: TaskAttempt[];
+
+  /** Stages that ran, in order (multi-stage tasks) */
+  stages?: StageSummary[];
+}
+
+/**
+ * Outcome of one stage of a multi-stage task
+ * Stages after a failed or cancelled one don't run and have no summary.
+ */
+export interface StageSummary {
+  /** 1-based position in the request's stages */
+  stage: number;
+  name?: string;
+  status: 'completed' | 'failed' | 'cancelled';
+  exitCode: number;
+  durationMs: number;
+
+  /** From Claude's result message */
+  turns?: number;
+  costUsd?: number;
+
+  /** Claude's final result (passed to the next stage as {{previousResult}}), truncated to 10,000 characters */
+  result?: string;
+
+  error?: string;
+}
+
+/**
+ * Machine-readable cause of a task failure
+ * - PAYLOAD_DECRYPT: the job couldn't read or decrypt the task's payload
+ * - SETUP: proxy, network policy, workspace, SSH key or configuration files
+ * - GIT_CLONE: cloning gitRepo failed (or the URL is invalid)
+ * - PRE_EXECUTION_COMMAND: a preExecutionCommands entry exited non-zero or timed out
+ * - JOB_START: the Cloud Run Job couldn't be started (QUEUE_MAX_TRIGGER_ATTEMPTS reached)
+ * - QUEUE_EXPIRED: the task wasn't started within 24 hours of its creation
+ * - INTERRUPTED: the job container was stopped (e.g. preempted)
+ * - CLAUDE_TIMEOUT: Claude ran longer than timeoutMinutes
+ * - CLAUDE_EXIT: Claude exited non-zero
+ * - MODEL_API: the model API kept failing (overloaded or unreachable) after the proxy's retries
+ * - BUDGET_EXCEEDED: the task's budget ran out
+ * - GIT_COMMIT, GIT_PUSH, GIT_PUSH_CONFLICT, UPLOAD: a post-execution action failed
+ * - INTERNAL: anything else
+ */
+export type TaskErrorCode =
+  | 'PAYLOAD_DECRYPT'
+  | 'SETUP'
+  | 'GIT_CLONE'
+  | 'PRE_EXECUTION_COMMAND'
+  | 'JOB_START'
+  | 'QUEUE_EXPIRED'
+  | 'INTERRUPTED'
+  | 'CLAUDE_TIMEOUT'
+  | 'CLAUDE_EXIT'
+  | 'MODEL_API'
+  | 'BUDGET_EXCEEDED'
+  | 'GIT_COMMIT'
+  | 'GIT_PUSH'
+  | 'GIT_PUSH_CONFLICT'
+  | 'UPLOAD'
+  | 'INTERNAL';
+
+/**
+ * Phase of the task a failure happened in
+ * - setup: before Claude started
+ * - execution: while Claude ran
+ * - post-execution: git commit/push or file uploads after Claude finished
+ */
+export type FailurePhase = 'setup' | 'execution' | 'post-execution';
+
+/**
+ * One run of a task's job (tasks with a retryPolicy)
+ */
+export interface TaskAttempt {
+  /** 1-based attempt number */
+  attempt: number;
+
+  /** Cloud Run Job execution that ran the attempt */
+  executionName?: string;
+
+  startedAt: string;
+  endedAt: string;
+  status: 'completed' | 'failed' | 'cancelled';
+  error?: string;
+  errorCode?: TaskErrorCode;
+
+  /** Retryable failure the attempt ended with (absent for other failures) */
+  failure?: RetryableFailure;
 }
 
 /**
@@ -133,12 +262,185 @@ export interface AsyncTaskResult {
 export interface AsyncTaskMetadata {
   taskId: string;
   status: AsyncTaskStatus;
-  callbackUrl: string;
+  /** Webhook URL (absent for sync tasks) */
+  callbackUrl?: string;
   createdAt: string;
+
+  /** Caller that created the task (when service-level authentication is enabled) */
+  createdBy?: string;
+
+  /** Schedule that created the task (scheduled runs only) */
+  scheduleId?: string;
+
   startedAt?: string;
   completedAt?: string;
   cancelledAt?: string;
+
+  /** Caller that cancelled the task (when service-level authentication is enabled) */
   cancelledBy?: string;
   error?: string;
+
+  /** Machine-readable cause of the error and the phase it happened in */
+  errorCode?: TaskErrorCode;
+  failurePhase?: FailurePhase;
+
   metadata?: Record<string, any>;
+
+  /** Cloud Run Job execution name running the task */
+  executionName?: string;
+
+  /** Queue priority (async tasks) */
+  priority?: number;
+
+  /** Failed attempts to start the job, and the last error (while queued) */
+  triggerAttempts?: number;
+  lastTriggerError?: string;
+
+  /** Runs of the task's job so far, and when the next one is due (tasks with a retryPolicy) */
+  attempts?: TaskAttempt[];
+  nextAttemptAt?: string;
+
+  /** Stages finished so far (multi-stage tasks) */
+  stages?: StageSummary[];
+
+  /** Claude session saved when the task finished - other tasks can continue it with resumeFromTaskId */
+  claudeSessionId?: string;
+
+  /** Task whose Claude session this task continued */
+  resumedFromTaskId?: string;
+
+  /** Whether the task was created via /run (sync) or /run-async (async) */
+  executionMode?: 'sync' | 'async';
+
+  /** GCS path to the encrypted payload (deleted once the job finishes) */
+  encryptedPayloadPath?: string;
+
+  /** Token usage, cost and tool calls (set when the task finishes) */
+  usage?: TaskUsage;
+}
+
+/**
+ * Response returned from GET /tasks/:taskId
+ */
+export interface TaskStatusResponse extends AsyncTaskMetadata {
+  /** GCS path where logs are stored */
+  logsPath: string;
+
+  /** Number of JSONL log chunks written so far */
+  logChunkCount: number;
+
+  /** 1-based position in the task queue (only while queued) */
+  queuePosition?: number;
+}
+
+/**
+ * Response returned from POST /cancel/:taskId (200)
+ */
+export interface CancelTaskResponse {
+  message: string;
+  taskId: string;
+
+  /** 'cancelling' while the worker stops the task (202) */
+  status: 'cancelled' | 'cancelling';
+}
+
+/**
+ * Filters and pagination for GET /tasks
+ */
+export interface TaskListQuery {
+  /** Only tasks in one of these statuses */
+  status?: AsyncTaskStatus[];
+
+  /** Only tasks created at or after this ISO timestamp */
+  createdAfter?: string;
+
+  /** Only tasks created before this ISO timestamp */
+  createdBefore?: string;
+
+  /** Only sync (/run) or async (/run-async) tasks */
+  executionMode?: 'sync' | 'async';
+
+  /** Only tasks whose user metadata contains all of these key/value pairs */
+  metadata?: Record<string, string>;
+
+  /** Sort order by createdAt (default: 'desc', newest first) */
+  order?: 'asc' | 'desc';
+
+  /** Page size (default: 50, max: 200) */
+  limit?: number;
+
+  /** Opaque cursor from a previous response's nextCursor */
+  cursor?: string;
+}
+
+/**
+ * Response returned from GET /tasks
+ */
+export interface TaskListResponse {
+  /** Matching tasks for this page */
+  tasks: AsyncTaskMetadata[];
+
+  /** Cursor for the next page (absent on the last page) */
+  nextCursor?: string;
+}
+
+/**
+ * Response returned from GET /tasks/status (tasks running on this service)
+ */
+export interface ActiveTasksResponse {
+  /** Number of active tasks */
+  active: number;
+
+  /** Maximum running tasks the queue dispatcher starts (MAX_CONCURRENT_TASKS) */
+  max?: number;
+
+  /** Number of tasks waiting in the queue */
+  queued?: number;
+
+  tasks: Array<{
+    taskId: string;
+    type: 'sync' | 'async';
+    executionName: string;
+    startedAt: string;
+
+    /** Whether a cancellation is in progress */
+    cancelling: boolean;
+
+    createdBy?: string;
+
+    /** Tenant the task counts against (when TASK_QUOTAS is set) */
+    tenant?: string;
+  }>;
+
+  /** Quota usage per tenant (when TASK_QUOTAS is set) */
+  quotas?: Array<{
+    tenant: string;
+    running: number;
+    maxConcurrentTasks?: number;
+
+    /** Tasks created today (UTC), counted when maxDailyTasks is set */
+    dailyTasks?: number;
+    maxDailyTasks?: number;
+  }>;
+}
+
+/**
+ * Body of 4xx/5xx JSON responses
+ */
+export interface ErrorResponse {
+  error: string;
+  message?: string;
+  taskId?: string;
+  scheduleId?: string;
+
+  /** Schema validation errors (400 from /run, /run-async and /schedules) */
+  details?: SchemaValidationError[];
+
+  /** 429: tenant whose quota is exhausted, the exceeded limit and when to retry */
+  tenant?: string;
+  limit?: number;
+  retryAfterSeconds?: number;
+
+  /** 409 from POST /cancel: final status of a task that already finished */
+  status?: AsyncTaskStatus;
 }
@@ -0,0 +1,29 @@
+/**
+ * How a caller authenticated
+ */
+export type AuthMethod = 'google' | 'api-key' | 'hmac';
+
+/**
+ * Identity of the caller of a request, set by the auth middleware
+ */
+export interface CallerIdentity {
+  /** Stable caller ID recorded as createdBy / cancelledBy (email for Google, configured name for API keys and HMAC) */
+  id: string;
+
+  method: AuthMethod;
+
+  /** Admins may cancel any task */
+  admin: boolean;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Authenticated caller (undefined when AUTH_METHODS is not set) */
+      caller?: CallerIdentity;
+
+      /** Raw request body, kept for HMAC request signatures */
+      rawBody?: Buffer;
+    }
+  }
+}
@@ -1,7 +1,8 @@
 import { SlashCommandConfig, SubagentConfig } from './claude-config.types.js';
 
 export interface RunRequest {
-  prompt: string;
+  prompt?: string; // Required unless stages are given
+  stages?: TaskStage[]; // Prompts run one after another in the same workspace (instead of prompt)
   anthropicApiKey?: string; // User's Anthropic API key
   anthropicOAuthToken?: string; // User's Anthropic OAuth token (from Claude subscription)
   systemPrompt?: string;
@@ -26,6 +27,127 @@ export interface RunRequest {
   mcpConfig?: Record<string, any>; // Raw .mcp.json content
   slashCommands?: Record<string, SlashCommandConfig>;
   subagents?: Record<string, SubagentConfig>;
+  onDisconnect?: "cancel" | "continue"; // /run only: cancel the job when the SSE client disconnects, or keep it running (default: "cancel")
+  budget?: TaskBudget; // Spending limit enforced by the Anthropic API proxy
+  recordApiCalls?: boolean; // Record Anthropic API requests/responses (credentials redacted) to sessions/{taskId}/api-recording.ndjson
+  provider?: ModelProviderName; // Model backend (default: "anthropic")
+  vertex?: VertexConfig; // Required settings when provider is "vertex"
+  bedrock?: BedrockConfig; // Required settings when provider is "bedrock"
+  upstreamUrl?: string; // Base URL for model API calls instead of the provider's endpoint (must be listed in ALLOWED_UPSTREAM_URLS)
+  networkPolicy?: NetworkPolicy; // Restrict the hosts Claude and its tools can reach over HTTP(S)
+  retryPolicy?: RetryPolicy; // /run-async only: run the job again after transient failures
+  resumeFromTaskId?: string; // Continue the Claude session saved by this finished task (its conversation, not its workspace)
+}
+
+/**
+ * One stage of a multi-stage task
+ * Stages run sequentially in the same workspace, each as its own Claude session.
+ * Unset options fall back to the request's.
+ */
+export interface TaskStage {
+  /** Shown in logs and the stage summaries */
+  name?: string;
+
+  /** `{{previousResult}}` is replaced with the previous stage's final result */
+  prompt: string;
+
+  model?: string;
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  maxTurns?: number;
+  systemPrompt?: string;
+  appendSystemPrompt?: string;
+}
+
+/**
+ * Model backend the Claude CLI talks to (always through the credential proxy)
+ */
+export type ModelProviderName = "anthropic" | "vertex" | "bedrock";
+
+/**
+ * Vertex AI settings
+ * Access tokens are minted from the job's service account (needs roles/aiplatform.user)
+ */
+export interface VertexConfig {
+  /** Google Cloud project with Claude models enabled */
+  projectId: string;
+
+  /** Vertex AI region, e.g. "us-east5" or "global" */
+  region: string;
+}
+
+/**
+ * Amazon Bedrock settings
+ * Authenticate with either a Bedrock API key or IAM access keys (requests are SigV4-signed)
+ */
+export interface BedrockConfig {
+  /** AWS region, e.g. "us-east-1" */
+  region: string;
+
+  /** Bedrock API key (bearer token) */
+  apiKey?: string;
+
+  /** IAM access key ID */
+  accessKeyId?: string;
+
+  /** IAM secret access key */
+  secretAccessKey?: string;
+
+  /** Session token for temporary credentials */
+  sessionToken?: string;
+}
+
+/**
+ * Spending limit for a task
+ * Enforced by SimpleAnthropicProxy from the usage reported in each /v1/messages response.
+ * Once a limit is reached, further API requests are refused and the task fails.
+ */
+export interface TaskBudget {
+  /** Maximum total tokens (input + output + cache writes + cache reads) */
+  maxTokens?: number;
+
+  /** Maximum estimated cost in USD */
+  maxCostUsd?: number;
+}
+
+/**
+ * Network egress allow-list for the Claude CLI, its tools and pre-execution commands
+ * Enforced by NetworkPolicyProxy, a local forward proxy set as HTTP(S)_PROXY.
+ * Connections to any other host are refused and logged.
+ */
+export interface NetworkPolicy {
+  /** Hostnames ("github.com"), subdomain wildcards ("*.npmjs.org"), IP addresses or CIDRs ("10.0.0.0/8") */
+  allowedHosts: string[];
+}
+
+/**
+ * Transient failure a task can be retried after
+ * - git: cloning the repository failed (e.g. timeout, network error)
+ * - overloaded: the model API still failed (429, 5xx, 529 overloaded, unreachable) after the proxy's own retries
+ * - infrastructure: the job container was stopped while the task was running (e.g. preempted)
+ */
+export type RetryableFailure = "git" | "overloaded" | "infrastructure";
+
+/**
+ * Automatic retries of a failed async task
+ * Every attempt runs the job again with the same encrypted payload. Attempts are recorded in the
+ * task metadata; the webhook is only called with the final outcome.
+ */
+export interface RetryPolicy {
+  /** Total attempts, including the first (1-10) */
+  maxAttempts: number;
+
+  /** Delay before the first retry (default: 30) */
+  backoffSeconds?: number;
+
+  /** Factor the delay grows by with each retry (default: 2) */
+  backoffMultiplier?: number;
+
+  /** Upper bound for the delay (default: 900) */
+  maxBackoffSeconds?: number;
+
+  /** Failures to retry (default: all) */
+  retryOn?: RetryableFailure[];
 }
 
 export interface PostExecutionActions {
@@ -63,7 +185,7 @@ export interface PostExecutionActions {
     /** Glob patterns for files to upload (e.g., [".playwright/**\/*.webm"]) */
     globPatterns: string[];
 
-    /** Optional prefix in GCS bucket */
+    /** Optional subfolder of the task's upload folder (files/{taskId}/{gcsPrefix}/) */
     gcsPrefix?: string;
   };
 }
\ No newline at end of file
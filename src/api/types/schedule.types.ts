@@ -0,0 +1,81 @@
+import { AsyncRunRequest } from "./async-task.types.js";
+
+/**
+ * Request body of POST /schedules
+ */
+export interface CreateScheduleRequest {
+  /** Schedule ID (default: UUID) - URL-safe, used as the prefix of each run's task ID */
+  scheduleId?: string;
+
+  /** 5-field cron expression (minute hour day-of-month month day-of-week) or @daily, @hourly, ... */
+  cron: string;
+
+  /** IANA time zone the cron expression is evaluated in (default: UTC) */
+  timezone?: string;
+
+  description?: string;
+
+  /**
+   * Template of the /run-async request created for every run (stored KMS-encrypted)
+   * Must not contain taskId - each run gets `{scheduleId}-{yyyyMMddTHHmmZ}`.
+   */
+  request: AsyncRunRequest;
+}
+
+/**
+ * One run of a schedule
+ */
+export interface ScheduleRun {
+  /** When the run was due */
+  scheduledFor: string;
+
+  /** Task created for the run */
+  taskId: string;
+
+  /**
+   * - queued: the task was created
+   * - skipped: not created because of a task quota, or the task already exists
+   * - failed: the task couldn't be created
+   */
+  status: 'queued' | 'skipped' | 'failed';
+
+  /** Why the run was skipped or failed */
+  error?: string;
+}
+
+/**
+ * A schedule as stored in GCS (schedules/{scheduleId}/schedule.json) and returned by the API
+ * The request template is stored separately and never returned.
+ */
+export interface Schedule {
+  scheduleId: string;
+  cron: string;
+  timezone: string;
+  description?: string;
+  createdAt: string;
+
+  /** Caller that created the schedule (runs are created on its behalf) */
+  createdBy?: string;
+
+  /** Webhook of the runs (from the request template) */
+  callbackUrl: string;
+
+  /** User metadata of the runs (from the request template) */
+  metadata?: Record<string, any>;
+
+  /** Next time the schedule runs (missed runs are not made up) */
+  nextRunAt?: string;
+
+  /** Last time the schedule ran */
+  lastRunAt?: string;
+
+  /** Most recent runs, newest first */
+  runs: ScheduleRun[];
+}
+
+/**
+ * Response returned from GET /schedules
+ */
+export interface ScheduleListResponse {
+  schedules: Schedule[];
+}
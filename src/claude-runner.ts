@@ -24,12 +24,15 @@ export type ClaudeOptions = {
   timeoutMinutes?: number;
   dangerouslySkipPermissions?: boolean;
   debug?: boolean;
+  resume?: string; // Session ID to continue (its files must be in the CLI's project folder for the workspace)
 };
 
 export type ClaudeRunResult = {
   exitCode: number;
   output: string;
   error?: string;
+  /** Killed after timeoutMinutes */
+  timedOut?: boolean;
 };
 
 const BASE_ARGS = ["-p", "--verbose", "--output-format", "stream-json"];
@@ -92,6 +95,9 @@ export class ClaudeRunner {
     if (options.permissionMode) {
       claudeArgs.push("--permission-mode", options.permissionMode);
     }
+    if (options.resume) {
+      claudeArgs.push("--resume", options.resume);
+    }
 
     // Check if .mcp.json exists in the workspace
     // This allows repositories to define their own MCP servers
@@ -222,7 +228,8 @@ export class ClaudeRunner {
           resolve({
             exitCode: 124,
             output,
-            error: "Process timed out"
+            error: "Process timed out",
+            timedOut: true
           });
         }
       }, timeoutMs);
@@ -361,7 +368,8 @@ export class ClaudeRunner {
           resolve({
             exitCode: 124,
             output,
-            error: "Process timed out"
+            error: "Process timed out",
+            timedOut: true
           });
         }
       }, timeoutMs);
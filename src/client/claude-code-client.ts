@@ -0,0 +1,348 @@
+import crypto from "crypto";
+import type { RunRequest } from "../api/types/request.types.js";
+import type {
+  ActiveTasksResponse,
+  AsyncRunRequest,
+  AsyncRunResponse,
+  AsyncTaskStatus,
+  CancelTaskResponse,
+  ErrorResponse,
+  FailurePhase,
+  StageSummary,
+  TaskErrorCode,
+  TaskListQuery,
+  TaskListResponse,
+  TaskStatusResponse
+} from "../api/types/async-task.types.js";
+import type { CreateScheduleRequest, Schedule, ScheduleListResponse } from "../api/types/schedule.types.js";
+import type { ProxyEvent } from "../api/services/simple-proxy.js";
+import type { NetworkPolicyEvent } from "../api/services/network-policy-proxy.js";
+
+/**
+ * A Claude stream-json message (system, assistant, user, result, ...)
+ * Only `type` is typed - the message shapes belong to the Claude CLI.
+ */
+export interface ClaudeMessage {
+  type: "system" | "assistant" | "user" | "result" | "stream_event";
+  [key: string]: unknown;
+}
+
+/**
+ * A log line that isn't JSON
+ */
+export interface TextLogLine {
+  type: "text";
+  content: string;
+}
+
+/**
+ * An error written to the task log (Claude process errors, budget exceeded, ...)
+ */
+export interface ErrorLogLine {
+  type: "error";
+  error: string;
+  timestamp?: string;
+}
+
+/**
+ * End of a stage of a multi-stage task (the stage's result is only in its Claude messages)
+ */
+export interface StageLogLine extends Omit<StageSummary, "result"> {
+  type: "stage";
+  timestamp: string;
+}
+
+/**
+ * One line of a task's log
+ */
+export type LogMessage = ClaudeMessage | ProxyEvent | NetworkPolicyEvent | TextLogLine | ErrorLogLine | StageLogLine;
+
+/**
+ * Server-Sent Events from POST /run and GET /tasks/:taskId/stream
+ */
+export type TaskStreamEvent =
+  /** First event of /run: the task ID, for getTask() or streamTask() after a disconnect */
+  | { event: "task"; taskId: string; onDisconnect: "cancel" | "continue" }
+  /** A log line; pass `id` as lastEventId to streamTask() to resume after it */
+  | { event: "message"; id?: string; message: LogMessage }
+  | { event: "cancelled"; message: string }
+  /** errorCode and failurePhase are set when the task failed (not for stream errors) */
+  | { event: "error"; error: string; errorCode?: TaskErrorCode; failurePhase?: FailurePhase }
+  /** Last event of /tasks/:taskId/stream */
+  | { event: "complete"; taskId: string; status?: AsyncTaskStatus };
+
+export interface ClaudeCodeClientOptions {
+  /** Service URL, e.g. https://claude-code-xxxxx.a.run.app */
+  baseUrl: string;
+
+  /** Bearer token for each request, e.g. a Cloud Run identity token (called per request so it can be refreshed) */
+  getAuthToken?: () => string | Promise<string>;
+
+  /** API key (AUTH_METHODS=api-key) */
+  apiKey?: string;
+
+  /** Request signing key (AUTH_METHODS=hmac) */
+  hmac?: { keyId: string; secret: string };
+
+  /** fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+export interface StreamOptions {
+  /** Aborting closes the stream (for /run with onDisconnect: "cancel" this cancels the task) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Error response from the service
+ */
+export class ClaudeCodeApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly body: ErrorResponse
+  ) {
+    super(body.error);
+    this.name = "ClaudeCodeApiError";
+  }
+}
+
+/**
+ * ClaudeCodeClient - Typed client for the service's HTTP API
+ * Uses the request/response types the server is built with, so client and server stay in sync.
+ */
+export class ClaudeCodeClient {
+  private baseUrl: string;
+  private fetchImpl: typeof fetch;
+
+  constructor(private options: ClaudeCodeClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.fetchImpl = options.fetch || fetch;
+  }
+
+  /**
+   * POST /run - run Claude and stream its output
+   */
+  async *run(request: RunRequest, options: StreamOptions = {}): AsyncGenerator<TaskStreamEvent> {
+    const response = await this.request("POST", "/run", { body: request, signal: options.signal });
+    yield* parseEventStream(response);
+  }
+
+  /**
+   * POST /run-async - start a background task
+   * @param idempotencyKey - Makes the call safe to retry (the original response is returned)
+   */
+  async runAsync(request: AsyncRunRequest, options: { idempotencyKey?: string } = {}): Promise<AsyncRunResponse> {
+    const headers: Record<string, string> = options.idempotencyKey ? { "Idempotency-Key": options.idempotencyKey } : {};
+    const response = await this.request("POST", "/run-async", { body: request, headers });
+    return response.json() as Promise<AsyncRunResponse>;
+  }
+
+  /**
+   * POST /cancel/:taskId
+   * A running task is only asked to stop (status: cancelling) - its final status comes with getTask() or the webhook
+   */
+  async cancel(taskId: string): Promise<CancelTaskResponse> {
+    const response = await this.request("POST", `/cancel/${encodeURIComponent(taskId)}`);
+    return response.json() as Promise<CancelTaskResponse>;
+  }
+
+  /**
+   * GET /tasks/:taskId
+   */
+  async getTask(taskId: string): Promise<TaskStatusResponse> {
+    const response = await this.request("GET", `/tasks/${encodeURIComponent(taskId)}`);
+    return response.json() as Promise<TaskStatusResponse>;
+  }
+
+  /**
+   * GET /tasks - pass the previous page's nextCursor as `cursor` to page through results
+   */
+  async listTasks(query: TaskListQuery = {}): Promise<TaskListResponse> {
+    const params = new URLSearchParams();
+    const { status, metadata, ...rest } = query;
+
+    if (status?.length) {
+      params.set("status", status.join(","));
+    }
+    for (const [key, value] of Object.entries(rest)) {
+      if (value !== undefined) {
+        params.set(key, String(value));
+      }
+    }
+    for (const [key, value] of Object.entries(metadata || {})) {
+      params.set(`metadata.${key}`, value);
+    }
+
+    const search = params.toString();
+    const response = await this.request("GET", `/tasks${search ? `?${search}` : ""}`);
+    return response.json() as Promise<TaskListResponse>;
+  }
+
+  /**
+   * GET /tasks/status - tasks currently running on the service
+   */
+  async getActiveTasks(): Promise<ActiveTasksResponse> {
+    const response = await this.request("GET", "/tasks/status");
+    return response.json() as Promise<ActiveTasksResponse>;
+  }
+
+  /**
+   * GET /tasks/:taskId/stream - replay and follow a task's log (never cancels the task)
+   * @param lastEventId - Resume after this event (the `id` of the last message received)
+   */
+  async *streamTask(taskId: string, options: StreamOptions & { lastEventId?: string } = {}): AsyncGenerator<TaskStreamEvent> {
+    const headers: Record<string, string> = options.lastEventId ? { "Last-Event-ID": options.lastEventId } : {};
+    const response = await this.request("GET", `/tasks/${encodeURIComponent(taskId)}/stream`, {
+      headers,
+      signal: options.signal
+    });
+    yield* parseEventStream(response);
+  }
+
+  /**
+   * POST /schedules - create a cron schedule that queues a task from `request.request`
+   */
+  async createSchedule(request: CreateScheduleRequest): Promise<Schedule> {
+    const response = await this.request("POST", "/schedules", { body: request });
+    return response.json() as Promise<Schedule>;
+  }
+
+  /**
+   * GET /schedules
+   */
+  async listSchedules(): Promise<ScheduleListResponse> {
+    const response = await this.request("GET", "/schedules");
+    return response.json() as Promise<ScheduleListResponse>;
+  }
+
+  /**
+   * GET /schedules/:scheduleId - the schedule with its next run and run history
+   */
+  async getSchedule(scheduleId: string): Promise<Schedule> {
+    const response = await this.request("GET", `/schedules/${encodeURIComponent(scheduleId)}`);
+    return response.json() as Promise<Schedule>;
+  }
+
+  /**
+   * DELETE /schedules/:scheduleId
+   */
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    await this.request("DELETE", `/schedules/${encodeURIComponent(scheduleId)}`);
+  }
+
+  /**
+   * Send a request, throwing ClaudeCodeApiError for non-2xx responses
+   */
+  private async request(
+    method: string,
+    path: string,
+    init: { body?: unknown; headers?: Record<string, string>; signal?: AbortSignal } = {}
+  ): Promise<Response> {
+    const headers: Record<string, string> = { ...init.headers };
+    const body = init.body !== undefined ? JSON.stringify(init.body) : undefined;
+    if (body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+    if (this.options.getAuthToken) {
+      headers["Authorization"] = `Bearer ${await this.options.getAuthToken()}`;
+    }
+    if (this.options.apiKey) {
+      headers["X-API-Key"] = this.options.apiKey;
+    }
+    if (this.options.hmac) {
+      // HMAC-SHA256 of `${timestamp}.${METHOD}.${path}.${body}`
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const signature = crypto
+        .createHmac("sha256", this.options.hmac.secret)
+        .update(`${timestamp}.${method}.${path}.${body ?? ""}`)
+        .digest("hex");
+      headers["X-Auth-Key-Id"] = this.options.hmac.keyId;
+      headers["X-Auth-Timestamp"] = timestamp;
+      headers["X-Auth-Signature"] = `sha256=${signature}`;
+    }
+
+    const response = await this.fetchImpl(`${this.baseUrl}${path}`, { method, headers, body, signal: init.signal });
+
+    if (!response.ok) {
+      const text = await response.text();
+      let body: ErrorResponse;
+      try {
+        body = JSON.parse(text) as ErrorResponse;
+      } catch {
+        body = { error: text || `HTTP ${response.status}` };
+      }
+      throw new ClaudeCodeApiError(response.status, body);
+    }
+    return response;
+  }
+}
+
+/**
+ * Parse a text/event-stream response into typed events
+ */
+async function* parseEventStream(response: Response): AsyncGenerator<TaskStreamEvent> {
+  if (!response.body) {
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for await (const chunk of response.body) {
+    buffer += decoder.decode(chunk, { stream: true }).replace(/\r\n?/g, "\n");
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const event = toStreamEvent(block);
+      if (event) {
+        yield event;
+      }
+    }
+  }
+}
+
+/**
+ * Turn one SSE block (event:/id:/data: lines) into a TaskStreamEvent
+ */
+function toStreamEvent(block: string): TaskStreamEvent | undefined {
+  let name = "message";
+  let id: string | undefined;
+  const data: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (!line || line.startsWith(":")) {
+      continue; // Comment / keep-alive
+    }
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+    if (field === "event") {
+      name = value;
+    } else if (field === "id") {
+      id = value;
+    } else if (field === "data") {
+      data.push(value);
+    }
+  }
+
+  if (data.length === 0) {
+    return undefined;
+  }
+
+  const payload = JSON.parse(data.join("\n"));
+  switch (name) {
+    case "message":
+      return { event: "message", id, message: payload as LogMessage };
+    case "task":
+    case "cancelled":
+    case "error":
+    case "complete":
+      return { event: name, ...payload } as TaskStreamEvent;
+    default:
+      return undefined; // Events added by newer servers
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Typed client for the Claude Code on Cloud Run API
+ *
+ * Re-exports the request/response types the server is built with.
+ */
+
+export {
+  ClaudeCodeClient,
+  ClaudeCodeApiError,
+  type ClaudeCodeClientOptions,
+  type StreamOptions,
+  type TaskStreamEvent,
+  type LogMessage,
+  type ClaudeMessage,
+  type TextLogLine,
+  type ErrorLogLine,
+  type StageLogLine
+} from "./claude-code-client.js";
+export { verifyWebhookSignature, parseWebhook, type WebhookVerificationOptions } from "./webhook.js";
+
+export type { RunRequest, NetworkPolicy, RetryPolicy, RetryableFailure, TaskStage } from "../api/types/request.types.js";
+export type {
+  ActiveTasksResponse,
+  AsyncRunRequest,
+  AsyncRunResponse,
+  AsyncTaskMetadata,
+  AsyncTaskResult,
+  AsyncTaskStatus,
+  CancelTaskResponse,
+  ErrorResponse,
+  FailurePhase,
+  StageSummary,
+  TaskErrorCode,
+  TaskListQuery,
+  TaskListResponse,
+  TaskAttempt,
+  TaskStatusResponse,
+  TaskUsage
+} from "../api/types/async-task.types.js";
+export type { CreateScheduleRequest, Schedule, ScheduleListResponse, ScheduleRun } from "../api/types/schedule.types.js";
+export type { ProxyEvent } from "../api/services/simple-proxy.js";
+export type { NetworkPolicyEvent } from "../api/services/network-policy-proxy.js";
@@ -0,0 +1,61 @@
+import crypto from "crypto";
+import type { AsyncTaskResult } from "../api/types/async-task.types.js";
+
+/**
+ * Input for verifying a /run-async result webhook
+ */
+export interface WebhookVerificationOptions {
+  /** Raw request body, exactly as received (re-serialized JSON may not match the signature) */
+  body: string | Buffer;
+
+  /** X-Webhook-Signature header (sha256=<hex>) */
+  signature: string | undefined;
+
+  /** X-Webhook-Timestamp header (Unix seconds) */
+  timestamp: string | undefined;
+
+  /** The service's CLOUDRUN_CALLBACK_SECRET */
+  secret: string;
+
+  /** Maximum age of the webhook, to reject replays (default: 300) */
+  toleranceSeconds?: number;
+
+  /** Current time in milliseconds (default: Date.now()) */
+  now?: number;
+}
+
+/**
+ * Verify the signature of a result webhook
+ * The service signs HMAC-SHA256(secret, `${timestamp}.${body}`).
+ * @returns true if the signature is valid and the timestamp is within the tolerance
+ */
+export function verifyWebhookSignature(options: WebhookVerificationOptions): boolean {
+  const { body, signature, timestamp, secret, toleranceSeconds = 300, now = Date.now() } = options;
+
+  if (!signature?.startsWith("sha256=") || !timestamp || !/^\d+$/.test(timestamp)) {
+    return false;
+  }
+  if (Math.abs(now / 1000 - parseInt(timestamp, 10)) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.`)
+    .update(body)
+    .digest();
+  const received = Buffer.from(signature.slice("sha256=".length), "hex");
+
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+/**
+ * Verify and parse a result webhook
+ * @throws Error if the signature is invalid
+ */
+export function parseWebhook(options: WebhookVerificationOptions): AsyncTaskResult {
+  if (!verifyWebhookSignature(options)) {
+    throw new Error("Invalid webhook signature");
+  }
+  return JSON.parse(options.body.toString()) as AsyncTaskResult;
+}
@@ -7,17 +7,35 @@
  * It reads an encrypted task payload from GCS, decrypts it using KMS,
  * executes the task, and sends results via webhook.
  *
+ * Cancellation is cooperative: the service writes a cancel marker to GCS, the worker
+ * notices it, kills Claude, records the cancellation (metadata + webhook) and exits.
+ *
+ * SIGTERM without a cancel marker (the container is being stopped, e.g. preempted)
+ * interrupts the task instead. With a retryPolicy, a task that failed transiently is
+ * queued again: its encrypted payload and quota slot are kept for the next attempt.
+ *
+ * The worker exits with 1 only if the task's outcome couldn't be recorded, so Cloud Run's
+ * container retry (--max-retries) never re-runs a task that already ended or was re-queued.
+ *
  * Environment variables:
  * - TASK_ID: Unique task identifier
  * - ENCRYPTED_PAYLOAD_PATH: GCS path to encrypted payload
+ * - CANCEL_POLL_INTERVAL_SECONDS: How often to check for the cancel marker (default: 5)
  */
 
 import { TaskService } from './api/services/task.service.js';
-import { GCSOutputHandler } from './api/services/output-handlers.js';
+import { GCSOutputHandler, sendWebhook } from './api/services/output-handlers.js';
 import { GCSLoggerService } from './api/services/gcs.service.js';
 import { EncryptionService } from './api/services/encryption.service.js';
+import { TaskRegistry } from './api/services/task-registry.service.js';
+import { TaskRetry } from './api/services/task-retry.service.js';
+import { TaskError } from './api/services/task-error.js';
+import { AsyncRunRequest, AsyncTaskMetadata, AsyncTaskStatus } from './api/types/async-task.types.js';
 import { logger } from './utils/logger.js';
 
+/** Statuses a task ends with */
+const FINAL_STATUSES: AsyncTaskStatus[] = ['completed', 'failed', 'cancelled'];
+
 async function main() {
   const taskId = process.env.TASK_ID;
   const encryptedPayloadPath = process.env.ENCRYPTED_PAYLOAD_PATH;
@@ -40,17 +58,36 @@ async function main() {
   const gcsLogger = new GCSLoggerService();
   const encryptionService = new EncryptionService();
   const taskService = new TaskService();
+  let retry: TaskRetry | undefined;
+
+  process.on('SIGTERM', async () => {
+    logger.warn(`[TASK ${taskId}] Received SIGTERM`);
+    try {
+      if (await gcsLogger.isCancellationRequested(taskId)) {
+        taskService.cancel();
+        return;
+      }
+    } catch (error: any) {
+      logger.warn(`[TASK ${taskId}] Failed to check for cancellation:`, error.message);
+    }
+    taskService.interrupt();
+  });
 
   try {
-    // 1. Read encrypted payload from GCS
-    logger.info(`[TASK ${taskId}] Reading encrypted payload from GCS`);
-    const encryptedData = await gcsLogger.readEncryptedPayload(taskId);
-    logger.debug(`[TASK ${taskId}] Encrypted payload read (${encryptedData.length} bytes)`);
+    let payload: AsyncRunRequest;
+    try {
+      // 1. Read encrypted payload from GCS
+      logger.info(`[TASK ${taskId}] Reading encrypted payload from GCS`);
+      const encryptedData = await gcsLogger.readEncryptedPayload(taskId);
+      logger.debug(`[TASK ${taskId}] Encrypted payload read (${encryptedData.length} bytes)`);
 
-    // 2. Decrypt payload using KMS
-    logger.info(`[TASK ${taskId}] Decrypting payload with Cloud KMS`);
-    const payload = await encryptionService.decryptPayload(encryptedData);
-    logger.info(`[TASK ${taskId}] Payload decrypted successfully`);
+      // 2. Decrypt payload using KMS
+      logger.info(`[TASK ${taskId}] Decrypting payload with Cloud KMS`);
+      payload = await encryptionService.decryptPayload(encryptedData);
+      logger.info(`[TASK ${taskId}] Payload decrypted successfully`);
+    } catch (error: any) {
+      throw new TaskError(`Failed to read or decrypt the task payload: ${error.message}`, 'PAYLOAD_DECRYPT');
+    }
 
     // 3. Extract callback URL from decrypted payload (optional for sync mode)
     const callbackUrl = payload.callbackUrl;
@@ -60,7 +97,13 @@ async function main() {
       logger.debug(`[TASK ${taskId}] Callback URL: ${callbackUrl}`);
     }
 
-    // 4. Create output handler (will stream to GCS and optionally call webhook on completion)
+    // 4. Load earlier attempts (async tasks with a retryPolicy)
+    retry = await TaskRetry.load(taskId, isAsync ? payload.retryPolicy : undefined, gcsLogger);
+    if (retry) {
+      logger.info(`[TASK ${taskId}] Attempt ${retry.attempt} of ${payload.retryPolicy!.maxAttempts}`);
+    }
+
+    // 5. Create output handler (will stream to GCS and optionally call webhook on completion)
     logger.info(`[TASK ${taskId}] Creating GCS output handler`);
     const outputHandler = new GCSOutputHandler(
       taskId,
@@ -69,14 +112,26 @@ async function main() {
       payload.metadata,
       undefined, // workspaceRoot - will be set by taskService after workspace creation
       undefined, // sshKeyPath - will be set by taskService after workspace creation
-      payload.postExecutionActions // post-execution actions from request
+      payload.postExecutionActions, // post-execution actions from request
+      retry
     );
 
-    // 5. Execute task with decrypted payload
+    // 6. Execute task with decrypted payload, watching for cancellation requests
     logger.info(`[TASK ${taskId}] Starting task execution`);
-    await taskService.executeTask(payload, outputHandler, taskId);
+    const stopWatching = watchForCancellation(taskId, gcsLogger, () => taskService.cancel());
+    try {
+      await taskService.executeTask(payload, outputHandler, taskId);
+    } finally {
+      stopWatching();
+    }
+
+    // Queued for another attempt - the next job execution needs the payload
+    if (retry?.isScheduled()) {
+      logger.info(`[TASK ${taskId}] Job finished, task queued for attempt ${retry.attempt + 1}`);
+      process.exit(0);
+    }
 
-    // 6. Cleanup: Delete encrypted payload from GCS
+    // 7. Cleanup: Delete encrypted payload from GCS
     // This ensures we don't accumulate sensitive data in storage
     logger.info(`[TASK ${taskId}] Cleaning up encrypted payload`);
     try {
@@ -87,6 +142,8 @@ async function main() {
       logger.warn(`[TASK ${taskId}] Failed to delete encrypted payload:`, cleanupError.message);
     }
 
+    await unregisterTask(taskId);
+
     logger.info(`[TASK ${taskId}] Job completed successfully`);
     process.exit(0);
 
@@ -94,6 +151,18 @@ async function main() {
     logger.error(`[TASK ${taskId}] Job failed:`, error.message);
     logger.error(`[TASK ${taskId}] Stack trace:`, error.stack);
 
+    // Without a payload no output handler was created - record the failure here
+    if (error instanceof TaskError && error.code === 'PAYLOAD_DECRYPT') {
+      await recordPayloadFailure(taskId, gcsLogger, error);
+    }
+
+    // The failure is recorded and the queue starts the next attempt - a non-zero exit would make
+    // Cloud Run run this attempt again (the payload is kept for the retry)
+    if (retry?.isScheduled()) {
+      logger.info(`[TASK ${taskId}] Task queued for attempt ${retry.attempt + 1}`);
+      process.exit(0);
+    }
+
     // Try to delete encrypted payload even on failure
     try {
       logger.info(`[TASK ${taskId}] Attempting to cleanup encrypted payload after failure`);
@@ -103,8 +172,119 @@ async function main() {
       logger.error(`[TASK ${taskId}] Failed to cleanup encrypted payload:`, cleanupError.message);
     }
 
-    // Exit with error code
-    process.exit(1);
+    await unregisterTask(taskId);
+
+    // A failure recorded in the metadata (and webhook) is final - only let Cloud Run
+    // retry the container if the outcome couldn't be recorded
+    process.exit(await isOutcomeRecorded(taskId, gcsLogger) ? 0 : 1);
+  }
+}
+
+/**
+ * Poll GCS for the task's cancel marker and invoke onCancel once when it appears
+ * @returns Function that stops watching
+ */
+function watchForCancellation(
+  taskId: string,
+  gcsLogger: GCSLoggerService,
+  onCancel: () => void
+): () => void {
+  const intervalMs = parseInt(process.env.CANCEL_POLL_INTERVAL_SECONDS || '5', 10) * 1000;
+  let checking = false;
+
+  const timer = setInterval(async () => {
+    if (checking) return;
+    checking = true;
+
+    try {
+      if (await gcsLogger.isCancellationRequested(taskId)) {
+        logger.info(`[TASK ${taskId}] Cancellation requested - stopping task`);
+        clearInterval(timer);
+        onCancel();
+      }
+    } catch (error: any) {
+      logger.warn(`[TASK ${taskId}] Failed to check for cancellation:`, error.message);
+    } finally {
+      checking = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Fail a task whose payload couldn't be read or decrypted, and call its webhook
+ * (the callback URL is taken from the task's metadata)
+ * A task that already ended keeps its outcome: a container retry of a finished run
+ * finds the payload deleted, but the run's result and webhook were already recorded.
+ */
+async function recordPayloadFailure(taskId: string, gcsLogger: GCSLoggerService, error: TaskError): Promise<void> {
+  const completedAt = new Date().toISOString();
+  try {
+    let alreadyFinished = false;
+    const metadata: AsyncTaskMetadata = await gcsLogger.updateMetadata(taskId, current => {
+      if (current && FINAL_STATUSES.includes(current.status)) {
+        alreadyFinished = true;
+        return null;
+      }
+      return {
+        status: 'failed',
+        completedAt,
+        error: error.message,
+        errorCode: error.code,
+        failurePhase: 'setup'
+      };
+    });
+
+    if (alreadyFinished) {
+      logger.info(`[TASK ${taskId}] Task already ended (${metadata.status}) - keeping its outcome`);
+      return;
+    }
+
+    if (metadata.callbackUrl) {
+      await sendWebhook(metadata.callbackUrl, {
+        taskId,
+        status: 'failed',
+        exitCode: 1,
+        logsPath: gcsLogger.getLogsPath(taskId),
+        summary: {
+          durationMs: 0,
+          startedAt: metadata.startedAt || metadata.createdAt,
+          completedAt
+        },
+        error: error.message,
+        errorCode: error.code,
+        failurePhase: 'setup',
+        metadata: metadata.metadata
+      });
+    }
+  } catch (recordError: any) {
+    logger.error(`[TASK ${taskId}] Failed to record payload failure:`, recordError.message);
+  }
+}
+
+/**
+ * Whether the task's final status is in its metadata (the failure was fully handled)
+ */
+async function isOutcomeRecorded(taskId: string, gcsLogger: GCSLoggerService): Promise<boolean> {
+  try {
+    const metadata: AsyncTaskMetadata | null = await gcsLogger.readMetadata(taskId);
+    return !!metadata && FINAL_STATUSES.includes(metadata.status);
+  } catch (error: any) {
+    logger.warn(`[TASK ${taskId}] Failed to read the task's final status:`, error.message);
+    return false;
+  }
+}
+
+/**
+ * Remove the task from the cluster-wide registry once the job is done
+ * Best effort - the registry removes entries of ended tasks when it reads them
+ */
+async function unregisterTask(taskId: string): Promise<void> {
+  try {
+    await TaskRegistry.getInstance().unregister(taskId);
+  } catch (error: any) {
+    logger.warn(`[TASK ${taskId}] Failed to remove task from registry:`, error.message);
   }
 }
 
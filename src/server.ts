@@ -4,16 +4,37 @@ import { HealthController } from "./api/controllers/health.controller.js";
 import { ClaudeController } from "./api/controllers/claude.controller.js";
 import { AsyncClaudeController } from "./api/controllers/async-claude.controller.js";
 import { CancelController } from "./api/controllers/cancel.controller.js";
+import { TasksController } from "./api/controllers/tasks.controller.js";
+import { SchemaController } from "./api/controllers/schema.controller.js";
+import { SchedulesController } from "./api/controllers/schedules.controller.js";
+import { AuthService } from "./api/services/auth.service.js";
+import { TaskQueue } from "./api/services/task-queue.service.js";
+import { TaskQueryService } from "./api/services/task-query.service.js";
+import { ScheduleService } from "./api/services/schedule.service.js";
+import { createAuthMiddleware } from "./api/middleware/auth.middleware.js";
 import { logger } from "./utils/logger.js";
 
 const app = express();
-app.use(bodyParser.json({ limit: "2mb" }));
+app.use(bodyParser.json({
+  limit: "2mb",
+  // Keep the raw body for HMAC request signatures
+  verify: (req, _res, buf) => { (req as express.Request).rawBody = buf; }
+}));
+
+// Optional service-level authentication (AUTH_METHODS) - health checks stay public
+const authService = AuthService.fromEnv();
+if (authService) {
+  app.use(createAuthMiddleware(authService, ["/", "/health", "/healthz"]));
+}
 
 // Initialize controllers
 const healthController = new HealthController();
 const claudeController = new ClaudeController();
 const asyncClaudeController = new AsyncClaudeController();
 const cancelController = new CancelController();
+const tasksController = new TasksController();
+const schemaController = new SchemaController();
+const schedulesController = new SchedulesController();
 
 // Health routes
 app.get("/", healthController.basicHealth.bind(healthController));
@@ -23,10 +44,21 @@ app.get("/healthz", healthController.healthCheck.bind(healthController));
 // Claude execution routes
 app.post("/run", claudeController.runClaude.bind(claudeController));
 app.post("/run-async", asyncClaudeController.runAsync.bind(asyncClaudeController));
+app.get("/schema", schemaController.getSchema.bind(schemaController));
+app.get("/openapi.json", schemaController.getOpenApi.bind(schemaController));
 
 // Task management routes
 app.post("/cancel/:taskId", cancelController.cancelTask.bind(cancelController));
+app.get("/tasks", tasksController.listTasks.bind(tasksController));
 app.get("/tasks/status", cancelController.getTasksStatus.bind(cancelController));
+app.get("/tasks/:taskId", tasksController.getTask.bind(tasksController));
+app.get("/tasks/:taskId/stream", tasksController.streamTask.bind(tasksController));
+
+// Schedule routes
+app.post("/schedules", schedulesController.createSchedule.bind(schedulesController));
+app.get("/schedules", schedulesController.listSchedules.bind(schedulesController));
+app.get("/schedules/:scheduleId", schedulesController.getSchedule.bind(schedulesController));
+app.delete("/schedules/:scheduleId", schedulesController.deleteSchedule.bind(schedulesController));
 
 
 const port = process.env.PORT || 8080;
@@ -38,6 +70,7 @@ function validateEnvironment() {
   logger.info("  - API keys/OAuth tokens: Passed in request payload");
   logger.info("  - SSH keys: Passed in request payload (per-request isolation)");
   logger.info("  - Service-level secrets: Not used for authentication or SSH");
+  logger.info(`  - Caller authentication: ${process.env.AUTH_METHODS || "Cloud Run IAM only (callers are anonymous)"}`);
 }
 
 validateEnvironment();
@@ -51,5 +84,9 @@ logger.info("Starting server with environment:", {
 app.listen(port as number, host, () => {
   logger.info(`Server listening on ${host}:${port}`);
   logger.info(`Execution mode: Job-based (all tasks run in Cloud Run Jobs)`);
-  logger.info(`Endpoints: /run, /run-async, /cancel/:taskId, /tasks/status, /health`);
+  TaskQueue.getInstance().start();
+  ScheduleService.getInstance().start();
+  new TaskQueryService().backfillIndex()
+    .catch(error => logger.error("Failed to add existing tasks to the task listing index:", error.message));
+  logger.info(`Endpoints: /run, /run-async, /cancel/:taskId, /tasks, /tasks/status, /tasks/:taskId, /tasks/:taskId/stream, /schedules, /schedules/:scheduleId, /schema, /openapi.json, /health`);
 });
\ No newline at end of file
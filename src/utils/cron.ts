@@ -0,0 +1,240 @@
+/**
+ * Cron expressions
+ *
+ * Standard 5-field expressions (minute hour day-of-month month day-of-week) with `*`,
+ * lists, ranges, steps and JAN-DEC / SUN-SAT names, plus @yearly, @annually, @monthly,
+ * @weekly, @daily, @midnight and @hourly. As in Vixie cron, when both day-of-month and
+ * day-of-week are restricted, a day matching either one matches.
+ *
+ * Run times are computed in an IANA time zone: local times skipped by a daylight saving
+ * change don't run, and local times repeated by one run only once.
+ */
+
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+
+  /** 0 = Sunday */
+  daysOfWeek: Set<number>;
+
+  /** Day-of-month and day-of-week are both restricted (match either) */
+  eitherDay: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day-of-month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"] },
+  { name: "day-of-week", min: 0, max: 7, names: ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"] }
+];
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *"
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** Search horizon for the next run (covers Feb 29) */
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a cron expression
+ * @throws Error describing the invalid field
+ */
+export function parseCron(expression: string): CronExpression {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`cron expression must have 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+
+  // 7 is Sunday, too
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    eitherDay: !fields[2].startsWith("*") && !fields[4].startsWith("*")
+  };
+}
+
+/**
+ * Validate a cron expression
+ * @returns Error message, or undefined if valid
+ */
+export function validateCron(expression: string): string | undefined {
+  try {
+    parseCron(expression);
+    return undefined;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+/**
+ * Validate an IANA time zone name (e.g. Europe/Berlin)
+ * @returns Error message, or undefined if valid
+ */
+export function validateTimeZone(timeZone: string): string | undefined {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return undefined;
+  } catch {
+    return `Unknown time zone: ${timeZone}`;
+  }
+}
+
+/**
+ * First run time strictly after `after`
+ * @returns undefined if the expression never matches (e.g. 30 February)
+ */
+export function nextCronTime(cron: CronExpression, after: Date, timeZone: string = "UTC"): Date | undefined {
+  const format = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    weekday: "short"
+  });
+
+  const afterKey = localKey(localTime(format, after.getTime()));
+  const limit = after.getTime() + MAX_SEARCH_MS;
+  let time = Math.floor(after.getTime() / 60000) * 60000 + 60000;
+
+  while (time < limit) {
+    const local = localTime(format, time);
+
+    if (!cron.months.has(local.month) || !matchesDay(cron, local)) {
+      time += (60 - local.minute) * 60000; // Next hour (days are skipped hour by hour so DST shifts can't jump over a match)
+      continue;
+    }
+    if (!cron.hours.has(local.hour)) {
+      time += (60 - local.minute) * 60000;
+      continue;
+    }
+    if (!cron.minutes.has(local.minute)) {
+      time += 60000;
+      continue;
+    }
+
+    // A local time repeated when clocks go back runs once
+    if (localKey(local) > afterKey) {
+      return new Date(time);
+    }
+    time += 60000;
+  }
+
+  return undefined;
+}
+
+interface LocalTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+function localTime(format: Intl.DateTimeFormat, time: number): LocalTime {
+  const parts: Record<string, string> = {};
+  for (const part of format.formatToParts(new Date(time))) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+}
+
+/**
+ * Sortable local wall-clock time
+ */
+function localKey(local: LocalTime): string {
+  return [local.year, local.month, local.day, local.hour, local.minute].map(value => String(value).padStart(4, "0")).join("-");
+}
+
+function matchesDay(cron: CronExpression, local: LocalTime): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(local.day);
+  const dayOfWeek = cron.daysOfWeek.has(local.weekday);
+  return cron.eitherDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Parse one field: `*`, `5`, `1-5`, `*\/15`, `10-40/10`, `MON-FRI`, or a comma-separated list of these
+ */
+function parseField(field: string, spec: CronField): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of field.split(",")) {
+    const match = item.match(/^(\*|[A-Za-z0-9]+(?:-[A-Za-z0-9]+)?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid ${spec.name} field: ${field}`);
+    }
+
+    const [, range, stepText] = match;
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (step < 1) {
+      throw new Error(`Invalid step in ${spec.name} field: ${field}`);
+    }
+
+    let start = spec.min;
+    let end = spec.max;
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      start = parseValue(from, spec);
+      end = to === undefined ? (stepText === undefined ? start : spec.max) : parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`Invalid range in ${spec.name} field: ${item}`);
+      }
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(text: string, spec: CronField): number {
+  const nameIndex = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+  const value = nameIndex !== -1
+    ? nameIndex + (spec.name === "month" ? 1 : 0)
+    : /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+
+  if (isNaN(value) || value < spec.min || value > spec.max) {
+    throw new Error(`Invalid ${spec.name} value: ${text} (must be ${spec.min}-${spec.max})`);
+  }
+  return value;
+}
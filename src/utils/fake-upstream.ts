@@ -0,0 +1,147 @@
+/**
+ * Fake model upstream for local testing
+ *
+ * A plain HTTP server that answers Anthropic Messages API calls with a canned reply,
+ * so the proxy (and a whole task) can run without credentials or network access.
+ * Point the proxy at it with UPSTREAM_BASE_URL=http://127.0.0.1:<port>.
+ *
+ * Standalone: node --import tsx src/utils/fake-upstream.ts [port]
+ */
+
+import http from "http";
+import { pathToFileURL } from "url";
+
+/**
+ * A request received by the fake upstream
+ */
+export interface FakeUpstreamRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export interface FakeUpstreamOptions {
+  /** Text of the assistant reply (default: "OK") */
+  replyText?: string;
+
+  /** Status code for /v1/messages (default: 200 - anything else returns an API error body) */
+  statusCode?: number;
+}
+
+export class FakeUpstream {
+  private server?: http.Server;
+  private port = 0;
+  private requests: FakeUpstreamRequest[] = [];
+
+  constructor(private options: FakeUpstreamOptions = {}) {}
+
+  /**
+   * Start listening on 127.0.0.1 (port 0 picks a free port)
+   */
+  async start(port: number = 0): Promise<string> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(port, "127.0.0.1", () => resolve());
+    });
+    this.port = (this.server.address() as { port: number }).port;
+    return this.getUrl();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = undefined;
+  }
+
+  getUrl(): string {
+    return `http://127.0.0.1:${this.port}`;
+  }
+
+  /**
+   * Requests received so far, in order
+   */
+  getRequests(): FakeUpstreamRequest[] {
+    return this.requests;
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on("data", chunk => chunks.push(chunk));
+    req.on("end", () => {
+      const body = Buffer.concat(chunks).toString("utf-8");
+      const path = req.url || "/";
+      this.requests.push({ method: req.method || "GET", path, headers: req.headers, body });
+
+      if (req.method !== "POST" || !path.startsWith("/v1/messages")) {
+        res.writeHead(404, { "content-type": "application/json" });
+        res.end(JSON.stringify({ type: "error", error: { type: "not_found_error", message: `No fake for ${req.method} ${path}` } }));
+        return;
+      }
+
+      const statusCode = this.options.statusCode ?? 200;
+      if (statusCode !== 200) {
+        res.writeHead(statusCode, { "content-type": "application/json" });
+        res.end(JSON.stringify({ type: "error", error: { type: "api_error", message: `Fake upstream error ${statusCode}` } }));
+        return;
+      }
+
+      let request: { model?: string; stream?: boolean } = {};
+      try {
+        request = JSON.parse(body);
+      } catch {
+        // Reply anyway - the fake doesn't validate requests
+      }
+
+      const message = {
+        id: `msg_fake_${this.requests.length}`,
+        type: "message",
+        role: "assistant",
+        model: request.model || "claude-fake",
+        content: [{ type: "text", text: this.options.replyText ?? "OK" }],
+        stop_reason: "end_turn",
+        stop_sequence: null,
+        usage: { input_tokens: 10, output_tokens: 5 }
+      };
+
+      if (request.stream) {
+        this.writeStream(res, message);
+      } else {
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify(message));
+      }
+    });
+  }
+
+  /**
+   * Send the reply as Messages API server-sent events
+   */
+  private writeStream(res: http.ServerResponse, message: any): void {
+    const text = message.content[0].text;
+    const events: Array<[string, unknown]> = [
+      ["message_start", { type: "message_start", message: { ...message, content: [], stop_reason: null, usage: { input_tokens: message.usage.input_tokens, output_tokens: 1 } } }],
+      ["content_block_start", { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } }],
+      ["content_block_delta", { type: "content_block_delta", index: 0, delta: { type: "text_delta", text } }],
+      ["content_block_stop", { type: "content_block_stop", index: 0 }],
+      ["message_delta", { type: "message_delta", delta: { stop_reason: "end_turn", stop_sequence: null }, usage: { output_tokens: message.usage.output_tokens } }],
+      ["message_stop", { type: "message_stop" }]
+    ];
+
+    res.writeHead(200, { "content-type": "text/event-stream", "cache-control": "no-cache" });
+    for (const [event, data] of events) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+    res.end();
+  }
+}
+
+// Run standalone: node --import tsx src/utils/fake-upstream.ts [port]
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const upstream = new FakeUpstream({ replyText: process.env.FAKE_UPSTREAM_REPLY });
+  upstream.start(parseInt(process.argv[2] || "9999", 10)).then(url => {
+    console.log(`Fake upstream listening on ${url}`);
+  });
+}
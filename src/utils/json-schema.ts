@@ -0,0 +1,186 @@
+/**
+ * Minimal JSON Schema validator
+ *
+ * Supports the subset of JSON Schema (draft 2020-12) used by the request schemas:
+ * type, enum, const, properties, required, additionalProperties, items, minItems,
+ * minProperties, minLength, maxLength, pattern, minimum, maximum, exclusiveMinimum,
+ * anyOf, and local `$ref`s to `#/$defs/...`. Other keywords (description, examples, ...)
+ * are ignored.
+ */
+
+export type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  minProperties?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  anyOf?: JsonSchema[];
+  default?: unknown;
+  examples?: unknown[];
+}
+
+/**
+ * One validation failure
+ */
+export interface SchemaValidationError {
+  /** Location of the invalid value, e.g. "postExecutionActions.git.push" or "allowedTools[2]" ("" for the root) */
+  path: string;
+
+  message: string;
+}
+
+/**
+ * Validate a value against a schema
+ * @param root - Document that `$ref`s are resolved against (default: the schema itself)
+ * @returns All validation errors (empty if valid)
+ */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown,
+  root: JsonSchema = schema,
+  path: string = ""
+): SchemaValidationError[] {
+  if (schema.$ref) {
+    return validateJsonSchema(resolveRef(root, schema.$ref), value, root, path);
+  }
+
+  const errors: SchemaValidationError[] = [];
+  const fail = (message: string) => errors.push({ path, message });
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(type, value))) {
+      fail(`must be ${types.map(type => (type === "array" || type === "object" || type === "integer" ? `an ${type}` : `a ${type}`)).join(" or ")}`);
+      return errors; // Further keywords would only repeat the type error
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(allowed => allowed === value)) {
+    fail(`must be one of ${schema.enum.map(allowed => JSON.stringify(allowed)).join(", ")}`);
+  }
+  if (schema.const !== undefined && value !== schema.const) {
+    fail(`must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(schema.minLength === 1 ? "must not be empty" : `must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      fail(`must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      fail(`must be > ${schema.exclusiveMinimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} item${schema.minItems === 1 ? "" : "s"}`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateJsonSchema(schema.items!, item, root, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value);
+
+    if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+      fail(`must have at least ${schema.minProperties} propert${schema.minProperties === 1 ? "y" : "ies"}`);
+    }
+
+    for (const name of schema.required || []) {
+      if (value[name] === undefined) {
+        errors.push({ path: joinPath(path, name), message: "is required" });
+      }
+    }
+
+    for (const key of keys) {
+      if (value[key] === undefined) {
+        continue;
+      }
+
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(propertySchema, value[key], root, joinPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: joinPath(path, key), message: "is not a known property" });
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(...validateJsonSchema(schema.additionalProperties, value[key], root, joinPath(path, key)));
+      }
+    }
+  }
+
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map(branch => validateJsonSchema(branch, value, root, path));
+    if (!branches.some(branchErrors => branchErrors.length === 0)) {
+      // Report the branch that got furthest (fewest errors)
+      errors.push(...branches.reduce((best, current) => (current.length < best.length ? current : best)));
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(type: JsonSchemaType, value: unknown): boolean {
+  switch (type) {
+    case "string": return typeof value === "string";
+    case "number": return typeof value === "number" && Number.isFinite(value);
+    case "integer": return Number.isInteger(value);
+    case "boolean": return typeof value === "boolean";
+    case "object": return isPlainObject(value);
+    case "array": return Array.isArray(value);
+    case "null": return value === null;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  const segment = /^[A-Za-z_$][\w$]*$/.test(key) ? key : `[${JSON.stringify(key)}]`;
+  return !path ? segment : segment.startsWith("[") ? `${path}${segment}` : `${path}.${segment}`;
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  const match = ref.match(/^#\/\$defs\/(.+)$/);
+  const resolved = match ? root.$defs?.[match[1]] : undefined;
+  if (!resolved) {
+    throw new Error(`Unresolvable schema reference: ${ref}`);
+  }
+  return resolved;
+}
@@ -0,0 +1,58 @@
+/**
+ * Server-Sent Events helpers
+ *
+ * Log lines streamed from GCS carry an event ID of the form `<chunkIndex>:<lineIndex>`
+ * so that clients reconnecting with the `Last-Event-ID` header resume exactly after
+ * the last line they received.
+ */
+
+import { Response } from "express";
+import type { LogPosition } from "../api/services/gcs.service.js";
+
+/**
+ * Format a log position as an SSE event ID
+ */
+export const formatEventId = (position: LogPosition): string => {
+  return `${position.chunkIndex}:${position.lineIndex}`;
+};
+
+/**
+ * Parse an SSE event ID back into a log position
+ * Returns undefined for missing or malformed IDs (stream starts from the beginning)
+ */
+export const parseEventId = (eventId?: string): LogPosition | undefined => {
+  const match = eventId?.trim().match(/^(\d+):(\d+)$/);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    chunkIndex: parseInt(match[1], 10),
+    lineIndex: parseInt(match[2], 10)
+  };
+};
+
+/**
+ * Write a Claude JSONL line as an SSE data event
+ * Non-JSON lines are wrapped as { type: "text", content }
+ */
+export const writeLogEvent = (res: Response, line: string, position?: LogPosition): void => {
+  let data: string;
+  try {
+    data = JSON.stringify(JSON.parse(line));
+  } catch {
+    if (!line.trim()) return;
+    data = JSON.stringify({ type: "text", content: line });
+  }
+
+  const id = position ? `id: ${formatEventId(position)}\n` : '';
+  res.write(`${id}data: ${data}\n\n`);
+  (res as any).flush?.();
+};
+
+/**
+ * Write a named SSE event (error, cancelled, complete, ...)
+ */
+export const writeEvent = (res: Response, event: string, payload: any): void => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+  (res as any).flush?.();
+};